@@ -2,13 +2,26 @@
  * Content API - Web scraping and data extraction
  */
 
-import type { HttpClient } from '../utils/http';
+import { withReplayed, type HttpClient } from '../utils/http';
+import { paginate } from '../utils/pagination';
+import { ScrapebitError, ValidationError } from '../utils/errors';
+import { runBulk } from '../utils/bulk';
+import { withCache } from '../utils/cache';
+import { schemaToExtract, validateRow, type SchemaValidationOptions } from '../utils/schema';
 import type {
   ScrapeOptions,
   ScrapeResult,
+  SchemaScrapeResult,
+  SchemaShape,
+  InferSchema,
   SavedScrape,
+  CallOptions,
+  CacheableCallOptions,
   PaginationOptions,
   PaginatedResponse,
+  PaginateOptions,
+  BulkOptions,
+  BulkResult,
 } from '../types';
 
 /**
@@ -31,12 +44,14 @@ export class ContentApi {
    * console.log(`Credits remaining: ${result.credits_remaining}`);
    * ```
    */
-  async scrape(options: ScrapeOptions): Promise<ScrapeResult> {
-    return this.http.post<ScrapeResult>('/scrape', {
-      url: options.url,
-      prompt: options.prompt,
-      columns: options.columns,
-    });
+  async scrape(options: ScrapeOptions, callOptions?: CacheableCallOptions): Promise<ScrapeResult> {
+    const body = buildScrapeBody(options);
+    return withCache(this.http, 'scrape', body, callOptions, async () =>
+      withReplayed(await this.http.send<ScrapeResult>('/scrape', {
+        ...callOptions,
+        method: 'POST',
+        body,
+      })));
   }
 
   /**
@@ -59,8 +74,75 @@ export class ContentApi {
     prompt?: string;
     extract?: Record<string, string>;
     columns?: string[];
-  }): Promise<ScrapeResult> {
-    return this.http.post<ScrapeResult>('/extract', options);
+  }, callOptions?: CacheableCallOptions): Promise<ScrapeResult>;
+
+  /**
+   * Extract typed data described by a schema
+   *
+   * The schema is sent to the API as an `extract` map and every returned row
+   * is validated against it. Problems are reported per row in `issues`.
+   *
+   * @example
+   * ```typescript
+   * const result = await scrapebit.content.extract({
+   *   url: 'https://example.com/products',
+   *   schema: {
+   *     name: field.string('Product name'),
+   *     price: field.number('Price in USD'),
+   *     inStock: field.optional(field.boolean('Whether the product is available')),
+   *   },
+   *   coerce: true
+   * });
+   *
+   * result.data.forEach((row, i) => {
+   *   if (result.issues[i].length === 0) console.log(row.name, row.price);
+   * });
+   * ```
+   */
+  async extract<S extends SchemaShape>(options: {
+    url: string;
+    prompt?: string;
+    schema: S;
+  } & SchemaValidationOptions, callOptions?: CacheableCallOptions): Promise<SchemaScrapeResult<InferSchema<S>>>;
+
+  async extract(options: {
+    url: string;
+    prompt?: string;
+    extract?: Record<string, string>;
+    columns?: string[];
+    schema?: SchemaShape;
+    coerce?: boolean;
+  }, callOptions?: CacheableCallOptions): Promise<ScrapeResult | SchemaScrapeResult<unknown>> {
+    const extract = (body: object) => withCache(this.http, 'extract', body, callOptions, async () =>
+      withReplayed(await this.http.send<ScrapeResult>('/extract', {
+        ...callOptions,
+        method: 'POST',
+        body,
+      })));
+
+    if (!options.schema) {
+      return extract(options);
+    }
+
+    const { schema, coerce, ...rest } = options;
+    if (rest.extract || rest.columns) {
+      throw new ValidationError('schema cannot be combined with extract or columns', 'schema');
+    }
+    if (Object.keys(schema).length === 0) {
+      throw new ValidationError('schema must define at least one field', 'schema');
+    }
+
+    const result = await extract({ ...rest, extract: schemaToExtract(schema) });
+
+    const rows = (result.data || []).map((row) => validateRow(schema, row, { coerce }));
+    const issues = rows.map((row) => row.issues);
+
+    return {
+      ...result,
+      data: rows.map((row) => row.value),
+      issues,
+      valid: issues.every((rowIssues) => rowIssues.length === 0),
+    };
   }
 
   /**
@@ -82,8 +164,51 @@ export class ContentApi {
     prompt?: string;
     extract?: Record<string, string>;
     columns?: string[];
-  }): Promise<ScrapeResult[]> {
-    return this.http.post<ScrapeResult[]>('/scrape/batch', options);
+  }, callOptions?: CallOptions): Promise<ScrapeResult[]> {
+    return this.http.post<ScrapeResult[]>('/scrape/batch', options, callOptions);
+  }
+
+  /**
+   * Scrape any number of URLs through the batch endpoint
+   *
+   * URLs are split into chunks, chunks run concurrently, and URLs that fail
+   * are retried on their own. Each URL maps to either its result or the
+   * `ScrapebitError` it failed with.
+   *
+   * @example
+   * ```typescript
+   * const { results, failed } = await scrapebit.content.bulkScrape(
+   *   { urls, prompt: 'Extract product names and prices' },
+   *   {
+   *     concurrency: 4,
+   *     onProgress: (p) => console.log(`${p.completed}/${p.total}`)
+   *   }
+   * );
+   *
+   * for (const [url, outcome] of results) {
+   *   if (!outcome.ok) console.error(url, outcome.error.code);
+   * }
+   * ```
+   */
+  async bulkScrape(
+    options: {
+      urls: string[];
+      prompt?: string;
+      extract?: Record<string, string>;
+      columns?: string[];
+    },
+    bulkOptions?: BulkOptions<ScrapeResult>
+  ): Promise<BulkResult<ScrapeResult>> {
+    const { urls, ...scrapeOptions } = options;
+    const callOptions = { signal: bulkOptions?.signal };
+
+    return runBulk(urls, {
+      batch: (chunk) => this.batchScrape({ ...scrapeOptions, urls: chunk }, callOptions),
+      single: (url, itemOptions) => this.scrape({ ...scrapeOptions, url }, itemOptions),
+      check: (result) => result.success === false
+        ? new ScrapebitError(result.message || result.error || 'Scrape failed', 'SCRAPE_FAILED')
+        : null,
+    }, bulkOptions);
   }
 
   /**
@@ -94,8 +219,8 @@ export class ContentApi {
    * const result = await scrapebit.content.get('scrape_abc123');
    * ```
    */
-  async get(id: string): Promise<ScrapeResult> {
-    return this.http.get<ScrapeResult>(`/scrape/${id}`);
+  async get(id: string, callOptions?: CallOptions): Promise<ScrapeResult> {
+    return this.http.get<ScrapeResult>(`/scrape/${id}`, callOptions);
   }
 
   /**
@@ -106,17 +231,32 @@ export class ContentApi {
    * const results = await scrapebit.content.list({ page: 1, limit: 20 });
    * ```
    */
-  async list(options?: PaginationOptions): Promise<PaginatedResponse<SavedScrape>> {
+  async list(options?: PaginationOptions, callOptions?: CallOptions): Promise<PaginatedResponse<SavedScrape>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<SavedScrape>>(
-      `/scrape${query ? `?${query}` : ''}`
+      `/scrape${query ? `?${query}` : ''}`,
+      callOptions
     );
   }
 
+  /**
+   * Iterate over all saved scrape results, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const scrape of scrapebit.content.listAll({ pageSize: 100 })) {
+   *   console.log(scrape.id);
+   * }
+   * ```
+   */
+  listAll(options?: PaginateOptions): AsyncIterableIterator<SavedScrape> {
+    return paginate((page) => this.list(page, { signal: options?.signal }), options);
+  }
+
   /**
    * Delete a scrape result
    *
@@ -125,8 +265,8 @@ export class ContentApi {
    * await scrapebit.content.delete('scrape_abc123');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.http.delete(`/scrape/${id}`);
+  async delete(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/scrape/${id}`, callOptions);
   }
 
   /**
@@ -137,8 +277,8 @@ export class ContentApi {
    * const csvUrl = await scrapebit.content.exportCsv('scrape_abc123');
    * ```
    */
-  async exportCsv(id: string): Promise<{ url: string }> {
-    return this.http.get<{ url: string }>(`/scrape/${id}/export/csv`);
+  async exportCsv(id: string, callOptions?: CallOptions): Promise<{ url: string }> {
+    return this.http.get<{ url: string }>(`/scrape/${id}/export/csv`, callOptions);
   }
 
   /**
@@ -149,7 +289,121 @@ export class ContentApi {
    * const jsonUrl = await scrapebit.content.exportJson('scrape_abc123');
    * ```
    */
-  async exportJson(id: string): Promise<{ url: string }> {
-    return this.http.get<{ url: string }>(`/scrape/${id}/export/json`);
+  async exportJson(id: string, callOptions?: CallOptions): Promise<{ url: string }> {
+    return this.http.get<{ url: string }>(`/scrape/${id}/export/json`, callOptions);
+  }
+}
+
+const SCRAPE_OPTION_KEYS: ReadonlyArray<keyof ScrapeOptions> = [
+  'url',
+  'prompt',
+  'extract',
+  'columns',
+  'pagination',
+  'waitFor',
+  'javascript',
+];
+
+const PAGINATION_KEYS: ReadonlyArray<keyof NonNullable<ScrapeOptions['pagination']>> = ['nextButtonSelector', 'maxPages', 'delayMs'];
+
+const WAIT_FOR_KEYS: ReadonlyArray<keyof NonNullable<ScrapeOptions['waitFor']>> = ['selector', 'timeout'];
+
+/**
+ * Validate scrape options and build the request body
+ *
+ * @throws {ValidationError} If an option is unknown, malformed, or conflicts with another
+ */
+function buildScrapeBody(options: ScrapeOptions): Partial<ScrapeOptions> {
+  if (!options || typeof options !== 'object') {
+    throw new ValidationError('Scrape options are required');
+  }
+
+  for (const key of Object.keys(options)) {
+    if (!SCRAPE_OPTION_KEYS.includes(key as keyof ScrapeOptions)) {
+      throw new ValidationError(`Unknown scrape option '${key}'`, key);
+    }
+  }
+
+  const { url, prompt, extract, columns, pagination, waitFor, javascript } = options;
+
+  if (!url || typeof url !== 'string') {
+    throw new ValidationError('url is required', 'url');
+  }
+
+  if (prompt !== undefined && typeof prompt !== 'string') {
+    throw new ValidationError('prompt must be a string', 'prompt');
+  }
+
+  if (extract !== undefined && columns !== undefined) {
+    throw new ValidationError('extract and columns cannot be used together', 'extract');
+  }
+
+  if (extract !== undefined) {
+    if (!extract || typeof extract !== 'object' || Array.isArray(extract) || Object.keys(extract).length === 0) {
+      throw new ValidationError('extract must be a non-empty map of field names to descriptions', 'extract');
+    }
+    for (const [field, description] of Object.entries(extract)) {
+      if (typeof description !== 'string') {
+        throw new ValidationError(`extract.${field} must be a string description`, 'extract');
+      }
+    }
+  }
+
+  if (columns !== undefined) {
+    if (!Array.isArray(columns) || columns.length === 0 || columns.some((c) => typeof c !== 'string' || !c)) {
+      throw new ValidationError('columns must be a non-empty array of column names', 'columns');
+    }
+  }
+
+  if (pagination !== undefined) {
+    checkNestedOptions(pagination, 'pagination', PAGINATION_KEYS);
+    const { nextButtonSelector, maxPages, delayMs } = pagination;
+    if (nextButtonSelector !== undefined && (typeof nextButtonSelector !== 'string' || !nextButtonSelector)) {
+      throw new ValidationError('pagination.nextButtonSelector must be a CSS selector', 'pagination');
+    }
+    if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1)) {
+      throw new ValidationError('pagination.maxPages must be a positive integer', 'pagination');
+    }
+    if (delayMs !== undefined && (typeof delayMs !== 'number' || delayMs < 0)) {
+      throw new ValidationError('pagination.delayMs must be a non-negative number', 'pagination');
+    }
+  }
+
+  if (waitFor !== undefined) {
+    checkNestedOptions(waitFor, 'waitFor', WAIT_FOR_KEYS);
+    if (waitFor.selector !== undefined && (typeof waitFor.selector !== 'string' || !waitFor.selector)) {
+      throw new ValidationError('waitFor.selector must be a CSS selector', 'waitFor');
+    }
+    if (waitFor.timeout !== undefined && (typeof waitFor.timeout !== 'number' || waitFor.timeout <= 0)) {
+      throw new ValidationError('waitFor.timeout must be a positive number', 'waitFor');
+    }
+  }
+
+  if (javascript !== undefined && typeof javascript !== 'string') {
+    throw new ValidationError('javascript must be a string', 'javascript');
+  }
+
+  const body: Partial<ScrapeOptions> = { url };
+  if (prompt !== undefined) body.prompt = prompt;
+  if (extract !== undefined) body.extract = extract;
+  if (columns !== undefined) body.columns = columns;
+  if (pagination !== undefined) body.pagination = pagination;
+  if (waitFor !== undefined) body.waitFor = waitFor;
+  if (javascript !== undefined) body.javascript = javascript;
+
+  return body;
+}
+
+/**
+ * Require a nested option to be an object with only known keys
+ */
+function checkNestedOptions(value: unknown, name: string, keys: ReadonlyArray<string>): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${name} must be an object`, name);
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      throw new ValidationError(`Unknown ${name} option '${key}'`, name);
+    }
   }
 }
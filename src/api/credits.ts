@@ -3,7 +3,8 @@
  */
 
 import type { HttpClient } from '../utils/http';
-import type { Credits, PaginationOptions, PaginatedResponse } from '../types';
+import { paginate } from '../utils/pagination';
+import type { Credits, CallOptions, PaginationOptions, PaginatedResponse, PaginateOptions } from '../types';
 
 /**
  * Credit usage record
@@ -32,8 +33,8 @@ export class CreditsApi {
    * console.log(`Remaining: ${credits.remaining}`);
    * ```
    */
-  async getBalance(): Promise<Credits> {
-    return this.http.get<Credits>('/credits');
+  async getBalance(callOptions?: CallOptions): Promise<Credits> {
+    return this.http.get<Credits>('/credits', callOptions);
   }
 
   /**
@@ -51,7 +52,7 @@ export class CreditsApi {
     type?: 'scrape' | 'pdf' | 'screenshot' | 'schedule';
     startDate?: string;
     endDate?: string;
-  }): Promise<PaginatedResponse<CreditUsage>> {
+  }, callOptions?: CallOptions): Promise<PaginatedResponse<CreditUsage>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
@@ -61,7 +62,30 @@ export class CreditsApi {
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<CreditUsage>>(
-      `/credits/usage${query ? `?${query}` : ''}`
+      `/credits/usage${query ? `?${query}` : ''}`,
+      callOptions
+    );
+  }
+
+  /**
+   * Iterate over the full credit usage history
+   *
+   * @example
+   * ```typescript
+   * for await (const usage of scrapebit.credits.getAllUsage({ type: 'scrape' })) {
+   *   console.log(usage.amount, usage.url);
+   * }
+   * ```
+   */
+  getAllUsage(options?: PaginateOptions & {
+    type?: 'scrape' | 'pdf' | 'screenshot' | 'schedule';
+    startDate?: string;
+    endDate?: string;
+  }): AsyncIterableIterator<CreditUsage> {
+    const { pageSize, maxItems, signal, ...filters } = options || {};
+    return paginate(
+      (page) => this.getUsage({ ...filters, ...page }, { signal }),
+      { pageSize, maxItems, signal }
     );
   }
 
@@ -79,7 +103,7 @@ export class CreditsApi {
     period?: 'day' | 'week' | 'month' | 'year';
     startDate?: string;
     endDate?: string;
-  }): Promise<{
+  }, callOptions?: CallOptions): Promise<{
     totalUsed: number;
     byType: {
       scrape: number;
@@ -98,6 +122,6 @@ export class CreditsApi {
     if (options?.endDate) params.set('endDate', options.endDate);
 
     const query = params.toString();
-    return this.http.get(`/credits/summary${query ? `?${query}` : ''}`);
+    return this.http.get(`/credits/summary${query ? `?${query}` : ''}`, callOptions);
   }
 }
@@ -9,6 +9,16 @@
  */
 
 import type { HttpClient } from '../utils/http';
+import type { CallOptions } from '../types';
+import { NetworkError, ValidationError } from '../utils/errors';
+import {
+  MultipartForm,
+  mimeTypeFor,
+  readUpload,
+  type UploadInput,
+  type UploadProgress,
+} from '../utils/multipart';
+import { renderResearchMarkdown } from '../utils/researchReport';
 
 // =============================================================================
 // Types
@@ -61,7 +71,7 @@ export interface DeepResearchItem {
   /**
    * Type of content
    */
-  type: 'scrape_result' | 'document' | 'custom_text';
+  type: 'scrape_result' | 'pdf_result' | 'screenshot_result' | 'document' | 'custom_text';
 
   /**
    * Item title/name
@@ -143,6 +153,45 @@ export interface AddTextOptions {
   content: string;
 }
 
+/**
+ * Largest document `addDocument` uploads by default, in bytes (25 MB)
+ */
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Options for uploading a document
+ */
+export interface AddDocumentOptions {
+  /**
+   * File name sent with the upload. Required unless the file is a path or
+   * a `File`, whose name is used by default.
+   */
+  filename?: string;
+
+  /**
+   * MIME type of the file
+   * @default guessed from the file name
+   */
+  mimeType?: string;
+
+  /**
+   * Item title shown in the session
+   * @default the file name
+   */
+  title?: string;
+
+  /**
+   * Reject files larger than this many bytes before uploading
+   * @default MAX_DOCUMENT_SIZE
+   */
+  maxSize?: number;
+
+  /**
+   * Called as the file is sent
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
 /**
  * Chat response
  */
@@ -190,6 +239,139 @@ export interface AnalysisResult {
   generatedAt: string;
 }
 
+/**
+ * Source cited in a chat response
+ */
+export type ChatSource = NonNullable<ChatResponse['sources']>[number];
+
+/**
+ * Source used by an analysis
+ */
+export type AnalysisSource = AnalysisResult['sources'][number];
+
+/**
+ * Event yielded by a streaming chat or analysis
+ *
+ * `delta` events carry the next piece of text, `source` events a citation
+ * as soon as it is known, and the final `done` event the complete result.
+ */
+export type ResearchStreamEvent<TSource, TResult> =
+  | { type: 'delta'; text: string }
+  | { type: 'source'; source: TSource }
+  | { type: 'done'; result: TResult };
+
+/**
+ * Event yielded by `chatStream`
+ */
+export type ChatStreamEvent = ResearchStreamEvent<ChatSource, ChatResponse>;
+
+/**
+ * Event yielded by `analyzeStream`
+ */
+export type AnalysisStreamEvent = ResearchStreamEvent<AnalysisSource, AnalysisResult>;
+
+/**
+ * Options for generating an analysis
+ */
+export interface AnalyzeOptions {
+  type?: 'summary' | 'comparison' | 'trends' | 'custom';
+  prompt?: string;
+}
+
+/**
+ * Session item together with its full content
+ */
+export interface DeepResearchItemWithContent extends DeepResearchItem {
+  /**
+   * Full text content of the item
+   */
+  content: string;
+}
+
+/**
+ * `format` marker of an exported session bundle
+ */
+export const RESEARCH_BUNDLE_FORMAT = 'scrapebit.research-session';
+
+/**
+ * Portable snapshot of a research session, as JSON-serializable data
+ */
+export interface ResearchSessionBundle {
+  format: typeof RESEARCH_BUNDLE_FORMAT;
+  version: 1;
+
+  /**
+   * When the bundle was exported
+   */
+  exportedAt: string;
+
+  /**
+   * Session metadata
+   */
+  session: DeepResearchSession;
+
+  /**
+   * Items with their full content
+   */
+  items: DeepResearchItemWithContent[];
+
+  /**
+   * Chat transcript, with citations on assistant messages
+   */
+  messages: ChatMessage[];
+
+  /**
+   * Analyses generated for the session
+   */
+  analyses: AnalysisResult[];
+}
+
+/**
+ * Options for exporting a session
+ */
+export interface ExportSessionOptions {
+  /**
+   * Analyses to include. The API does not keep analyses, so pass the
+   * results of `analyze` you want archived.
+   */
+  analyses?: AnalysisResult[];
+}
+
+/**
+ * Options for importing a session
+ */
+export interface ImportSessionOptions {
+  /**
+   * Name of the new session
+   * @default the exported session's name
+   */
+  name?: string;
+
+  /**
+   * Add the exported chat transcript and analyses as a text item, so the
+   * new session can draw on them
+   * @default true
+   */
+  includeHistory?: boolean;
+}
+
+/**
+ * Session rebuilt by `importSession`
+ */
+export interface ImportedSession {
+  session: DeepResearchSession;
+
+  /**
+   * Items added to the new session, in bundle order
+   */
+  items: DeepResearchItem[];
+
+  /**
+   * New item ID for each item ID in the bundle
+   */
+  itemIds: Record<string, string>;
+}
+
 // =============================================================================
 // Deep Research API
 // =============================================================================
@@ -227,13 +409,13 @@ export class DeepResearchApi {
    * console.log(`You have ${sessions.data.length} research sessions`);
    * ```
    */
-  async listSessions(): Promise<{
+  async listSessions(callOptions?: CallOptions): Promise<{
     data: DeepResearchSession[];
     sessionLimitReached: boolean;
     currentSessionCount: number;
     maxSessionsAllowed: number | null;
   }> {
-    return this.http.get('/deep-research/sessions');
+    return this.http.get('/deep-research/sessions', callOptions);
   }
 
   /**
@@ -247,10 +429,11 @@ export class DeepResearchApi {
    * });
    * ```
    */
-  async createSession(options?: CreateSessionOptions): Promise<DeepResearchSession> {
+  async createSession(options?: CreateSessionOptions, callOptions?: CallOptions): Promise<DeepResearchSession> {
     const response = await this.http.post<{ data: DeepResearchSession }>(
       '/deep-research/sessions',
-      options
+      options,
+      callOptions
     );
     return response.data;
   }
@@ -264,13 +447,13 @@ export class DeepResearchApi {
    * console.log(`Session has ${session.items.length} items`);
    * ```
    */
-  async getSession(sessionId: string): Promise<{
+  async getSession(sessionId: string, callOptions?: CallOptions): Promise<{
     session: DeepResearchSession;
     items: DeepResearchItem[];
   }> {
     const response = await this.http.get<{
       data: { session: DeepResearchSession; items: DeepResearchItem[] };
-    }>(`/deep-research/sessions/${sessionId}`);
+    }>(`/deep-research/sessions/${sessionId}`, callOptions);
     return response.data;
   }
 
@@ -282,8 +465,8 @@ export class DeepResearchApi {
    * await scrapebit.deepResearch.deleteSession('session_abc123');
    * ```
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    await this.http.delete(`/deep-research/sessions/${sessionId}`);
+  async deleteSession(sessionId: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/deep-research/sessions/${sessionId}`, callOptions);
   }
 
   /**
@@ -294,10 +477,11 @@ export class DeepResearchApi {
    * await scrapebit.deepResearch.addScrapeResult('session_abc123', 'scrape_xyz789');
    * ```
    */
-  async addScrapeResult(sessionId: string, scrapeResultId: string): Promise<DeepResearchItem> {
+  async addScrapeResult(sessionId: string, scrapeResultId: string, callOptions?: CallOptions): Promise<DeepResearchItem> {
     const response = await this.http.post<{ data: DeepResearchItem }>(
       `/deep-research/sessions/${sessionId}/items/scrape`,
-      { scrapeResultId }
+      { scrapeResultId },
+      callOptions
     );
     return response.data;
   }
@@ -313,10 +497,118 @@ export class DeepResearchApi {
    * });
    * ```
    */
-  async addText(sessionId: string, options: AddTextOptions): Promise<DeepResearchItem> {
+  async addText(sessionId: string, options: AddTextOptions, callOptions?: CallOptions): Promise<DeepResearchItem> {
     const response = await this.http.post<{ data: DeepResearchItem }>(
       `/deep-research/sessions/${sessionId}/items/text`,
-      options
+      options,
+      callOptions
+    );
+    return response.data;
+  }
+
+  /**
+   * Upload a document (PDF, DOCX, text...) to a session
+   *
+   * Accepts a file path, a `Blob`/`File`, a `Buffer` or a readable stream.
+   *
+   * @example
+   * ```typescript
+   * await scrapebit.deepResearch.addDocument('session_abc123', './reports/q1.pdf', {
+   *   onProgress: ({ percent }) => console.log(`${percent}%`)
+   * });
+   *
+   * await scrapebit.deepResearch.addDocument('session_abc123', buffer, {
+   *   filename: 'notes.docx'
+   * });
+   * ```
+   */
+  async addDocument(
+    sessionId: string,
+    file: UploadInput,
+    options: AddDocumentOptions = {},
+    callOptions?: CallOptions
+  ): Promise<DeepResearchItem> {
+    const maxSize = options.maxSize ?? MAX_DOCUMENT_SIZE;
+    if (!(maxSize > 0)) {
+      throw new ValidationError('maxSize must be a positive number', 'maxSize');
+    }
+
+    const upload = await readUpload(file, maxSize);
+    const filename = options.filename || upload.filename;
+    if (!filename) {
+      throw new ValidationError('filename is required when uploading a Buffer or stream', 'filename');
+    }
+
+    const form = new MultipartForm();
+    if (options.title) {
+      form.append('title', options.title);
+    }
+    form.appendFile('file', upload.bytes, filename, options.mimeType || upload.mimeType || mimeTypeFor(filename));
+
+    const response = await this.http.request<{ data: DeepResearchItem }>(
+      `/deep-research/sessions/${sessionId}/items/document`,
+      { ...callOptions, method: 'POST', body: form, onUploadProgress: options.onProgress }
+    );
+    return response.data;
+  }
+
+  /**
+   * Add a generated PDF to a session
+   *
+   * @example
+   * ```typescript
+   * const pdf = await scrapebit.pdf.generate({ url: 'https://example.com/report' });
+   * await scrapebit.deepResearch.addPdfResult('session_abc123', pdf);
+   * ```
+   */
+  async addPdfResult(
+    sessionId: string,
+    pdf: string | { id: string },
+    callOptions?: CallOptions
+  ): Promise<DeepResearchItem> {
+    const response = await this.http.post<{ data: DeepResearchItem }>(
+      `/deep-research/sessions/${sessionId}/items/pdf`,
+      { pdfId: typeof pdf === 'string' ? pdf : pdf.id },
+      callOptions
+    );
+    return response.data;
+  }
+
+  /**
+   * Add a captured screenshot to a session
+   *
+   * @example
+   * ```typescript
+   * const screenshot = await scrapebit.screenshot.capture({ url: 'https://example.com' });
+   * await scrapebit.deepResearch.addScreenshotResult('session_abc123', screenshot);
+   * ```
+   */
+  async addScreenshotResult(
+    sessionId: string,
+    screenshot: string | { id: string },
+    callOptions?: CallOptions
+  ): Promise<DeepResearchItem> {
+    const response = await this.http.post<{ data: DeepResearchItem }>(
+      `/deep-research/sessions/${sessionId}/items/screenshot`,
+      { screenshotId: typeof screenshot === 'string' ? screenshot : screenshot.id },
+      callOptions
+    );
+    return response.data;
+  }
+
+  /**
+   * Get a session item with its full content
+   *
+   * @example
+   * ```typescript
+   * const item = await scrapebit.deepResearch.getItem('session_abc123', 'item_xyz789');
+   * console.log(item.content);
+   * ```
+   */
+  async getItem(sessionId: string, itemId: string, callOptions?: CallOptions): Promise<DeepResearchItemWithContent> {
+    const response = await this.http.get<{ data: DeepResearchItemWithContent }>(
+      `/deep-research/sessions/${sessionId}/items/${itemId}`,
+      callOptions
     );
     return response.data;
   }
@@ -329,8 +621,8 @@ export class DeepResearchApi {
    * await scrapebit.deepResearch.removeItem('session_abc123', 'item_xyz789');
    * ```
    */
-  async removeItem(sessionId: string, itemId: string): Promise<void> {
-    await this.http.delete(`/deep-research/sessions/${sessionId}/items/${itemId}`);
+  async removeItem(sessionId: string, itemId: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/deep-research/sessions/${sessionId}/items/${itemId}`, callOptions);
   }
 
   /**
@@ -349,15 +641,48 @@ export class DeepResearchApi {
    */
   async chat(
     sessionId: string,
-    options: { message: string }
+    options: { message: string },
+    callOptions?: CallOptions
   ): Promise<ChatResponse> {
     const response = await this.http.post<{ data: ChatResponse }>(
       `/deep-research/sessions/${sessionId}/chat`,
-      options
+      options,
+      callOptions
     );
     return response.data;
   }
 
+  /**
+   * Chat with your research data and receive the answer as it is written
+   *
+   * Yields text deltas and citations as they arrive, then a `done` event
+   * with the complete response. Stop iterating or abort the signal to
+   * cancel the stream.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of scrapebit.deepResearch.chatStream('session_abc123', {
+   *   message: 'What are the common themes across these documents?'
+   * })) {
+   *   if (event.type === 'delta') process.stdout.write(event.text);
+   *   if (event.type === 'done') console.log(event.result.sources);
+   * }
+   * ```
+   */
+  chatStream(
+    sessionId: string,
+    options: { message: string },
+    callOptions?: CallOptions
+  ): AsyncGenerator<ChatStreamEvent, void, undefined> {
+    return this.streamResult<ChatSource, ChatResponse>(
+      `/deep-research/sessions/${sessionId}/chat`,
+      options,
+      callOptions,
+      (done) => done?.message,
+      (text, sources, done) => ({ message: text, sources, ...done })
+    );
+  }
+
   /**
    * Generate an analysis report
    *
@@ -371,18 +696,48 @@ export class DeepResearchApi {
    */
   async analyze(
     sessionId: string,
-    options: {
-      type?: 'summary' | 'comparison' | 'trends' | 'custom';
-      prompt?: string;
-    }
+    options: AnalyzeOptions,
+    callOptions?: CallOptions
   ): Promise<AnalysisResult> {
     const response = await this.http.post<{ data: AnalysisResult }>(
       `/deep-research/sessions/${sessionId}/analyze`,
-      options
+      options,
+      callOptions
     );
     return response.data;
   }
 
+  /**
+   * Generate an analysis report and receive it as it is written
+   *
+   * @example
+   * ```typescript
+   * const stream = scrapebit.deepResearch.analyzeStream('session_abc123', { type: 'trends' });
+   * for await (const event of stream) {
+   *   if (event.type === 'delta') process.stdout.write(event.text);
+   * }
+   * ```
+   */
+  analyzeStream(
+    sessionId: string,
+    options: AnalyzeOptions,
+    callOptions?: CallOptions
+  ): AsyncGenerator<AnalysisStreamEvent, void, undefined> {
+    return this.streamResult<AnalysisSource, AnalysisResult>(
+      `/deep-research/sessions/${sessionId}/analyze`,
+      options,
+      callOptions,
+      (done) => done?.analysis,
+      (text, sources, done) => ({
+        analysis: text,
+        type: options.type || 'summary',
+        sources,
+        generatedAt: new Date().toISOString(),
+        ...done,
+      })
+    );
+  }
+
   /**
    * Get chat history for a session
    *
@@ -391,10 +746,154 @@ export class DeepResearchApi {
    * const history = await scrapebit.deepResearch.getChatHistory('session_abc123');
    * ```
    */
-  async getChatHistory(sessionId: string): Promise<ChatMessage[]> {
+  async getChatHistory(sessionId: string, callOptions?: CallOptions): Promise<ChatMessage[]> {
     const response = await this.http.get<{ data: ChatMessage[] }>(
-      `/deep-research/sessions/${sessionId}/chat/history`
+      `/deep-research/sessions/${sessionId}/chat/history`,
+      callOptions
     );
     return response.data;
   }
+
+  /**
+   * Export a session as a portable bundle
+   *
+   * The bundle holds the session metadata, every item with its content,
+   * and the chat transcript. Save it as JSON to archive the session or
+   * move it to another workspace with `importSession`.
+   *
+   * @example
+   * ```typescript
+   * const bundle = await scrapebit.deepResearch.exportSession('session_abc123', {
+   *   analyses: [summary]
+   * });
+   * await writeFile('research.json', JSON.stringify(bundle, null, 2));
+   * ```
+   */
+  async exportSession(
+    sessionId: string,
+    options: ExportSessionOptions = {},
+    callOptions?: CallOptions
+  ): Promise<ResearchSessionBundle> {
+    const { session, items } = await this.getSession(sessionId, callOptions);
+    const messages = await this.getChatHistory(sessionId, callOptions);
+
+    const contents: DeepResearchItemWithContent[] = [];
+    for (const item of items) {
+      contents.push(await this.getItem(sessionId, item.id, callOptions));
+    }
+
+    return {
+      format: RESEARCH_BUNDLE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      session,
+      items: contents,
+      messages,
+      analyses: options.analyses || [],
+    };
+  }
+
+  /**
+   * Rebuild an exported session as a new session
+   *
+   * Every item is added as text with its original title and content,
+   * whatever its original type (URL, file and so on); the type is not
+   * kept. The chat transcript cannot be replayed, so it is added (with the
+   * analyses) as one text item unless `includeHistory` is false. If adding
+   * an item fails, the new session is deleted and the error is rethrown.
+   *
+   * @example
+   * ```typescript
+   * const bundle = JSON.parse(await readFile('research.json', 'utf8'));
+   * const { session } = await scrapebit.deepResearch.importSession(bundle);
+   * ```
+   */
+  async importSession(
+    bundle: ResearchSessionBundle,
+    options: ImportSessionOptions = {},
+    callOptions?: CallOptions
+  ): Promise<ImportedSession> {
+    if (bundle?.format !== RESEARCH_BUNDLE_FORMAT) {
+      throw new ValidationError('Not a Scrapebit research session bundle', 'bundle');
+    }
+    if (bundle.version !== 1) {
+      throw new ValidationError(`Unsupported research bundle version ${bundle.version}`, 'bundle');
+    }
+
+    const session = await this.createSession({
+      name: options.name || bundle.session.name,
+      description: bundle.session.description,
+    }, callOptions);
+
+    const items: DeepResearchItem[] = [];
+    const itemIds: Record<string, string> = {};
+    try {
+      for (const item of bundle.items) {
+        const added = await this.addText(session.id, { title: item.title, content: item.content }, callOptions);
+        items.push(added);
+        itemIds[item.id] = added.id;
+      }
+
+      if (options.includeHistory !== false && (bundle.messages.length > 0 || bundle.analyses.length > 0)) {
+        items.push(await this.addText(session.id, {
+          title: `Research history (exported ${bundle.exportedAt.slice(0, 10)})`,
+          content: renderResearchMarkdown({ ...bundle, items: [] }),
+        }, callOptions));
+      }
+    } catch (error) {
+      // Don't leave a half-filled session behind. The signal is left out,
+      // so cleaning up still happens after a cancellation.
+      await this.deleteSession(session.id, { timeout: callOptions?.timeout }).catch(() => undefined);
+      throw error;
+    }
+
+    return { session, items, itemIds };
+  }
+
+  /**
+   * Turn a streaming response into delta, source and done events
+   *
+   * A plain JSON answer (a server without streaming) becomes a single delta
+   * with the whole text, its sources and the done event.
+   */
+  private async *streamResult<TSource, TResult>(
+    endpoint: string,
+    body: unknown,
+    callOptions: CallOptions | undefined,
+    textOf: (done: Partial<TResult> | undefined) => string | undefined,
+    aggregate: (text: string, sources: TSource[], done: Partial<TResult> | undefined) => TResult
+  ): AsyncGenerator<ResearchStreamEvent<TSource, TResult>, void, undefined> {
+    let text = '';
+    const sources: TSource[] = [];
+
+    for await (const { event, data } of this.http.stream(endpoint, { ...callOptions, method: 'POST', body })) {
+      if (event === 'delta') {
+        const delta = (data as { text?: string })?.text || '';
+        text += delta;
+        yield { type: 'delta', text: delta };
+      } else if (event === 'source') {
+        sources.push(data as TSource);
+        yield { type: 'source', source: data as TSource };
+      } else if (event === 'done') {
+        // A plain JSON answer nests the result under `data`, like `chat` and `analyze`
+        const payload = data && typeof data === 'object' && 'data' in data ? data.data : data;
+        const done = (payload && typeof payload === 'object' ? payload : undefined) as Partial<TResult> | undefined;
+        const fullText = textOf(done);
+
+        if (!text && sources.length === 0 && fullText) {
+          text = fullText;
+          yield { type: 'delta', text };
+          for (const source of ((done as { sources?: TSource[] }).sources || [])) {
+            sources.push(source);
+            yield { type: 'source', source };
+          }
+        }
+
+        yield { type: 'done', result: aggregate(text, sources, done) };
+        return;
+      }
+    }
+
+    throw new NetworkError('Stream ended before the response was complete');
+  }
 }
@@ -3,15 +3,23 @@
  */
 
 import type { HttpClient } from '../utils/http';
+import { ValidationError } from '../utils/errors';
+import { paginate } from '../utils/pagination';
+import { validateAlertChannel, validateAlertRules } from '../utils/alertRules';
+import { applySync, diffFields, isEqual, planSync, type FieldChange, type SyncOptions, type SyncPlan } from '../utils/sync';
 import type {
   MonitorOptions,
+  MonitorType,
   Monitor,
   MonitorCheck,
+  MonitorCheckDiff,
   MonitorAlert,
   AlertChannelOptions,
   AlertChannel,
+  CallOptions,
   PaginationOptions,
   PaginatedResponse,
+  PaginateOptions,
 } from '../types';
 
 /**
@@ -32,13 +40,17 @@ export class MonitoringApi {
    *   selector: '.price',
    *   checkInterval: 'hourly',
    *   alertChannels: [
-   *     { type: 'email', email: 'user@example.com' }
+   *     { type: 'email', email: 'user@example.com', quietHours: { start: '22:00', end: '07:00' } }
+   *   ],
+   *   alertRules: [
+   *     { type: 'threshold', condition: 'decrease', value: 10, unit: 'percent' }
    *   ]
    * });
    * ```
    */
-  async create(options: MonitorOptions): Promise<Monitor> {
-    const response = await this.http.post<{ data: Monitor }>('/monitoring', options);
+  async create(options: MonitorOptions, callOptions?: CallOptions): Promise<Monitor> {
+    validateMonitor(options, options.monitorType ?? 'full_page');
+    const response = await this.http.post<{ data: Monitor }>('/monitoring', options, callOptions);
     return response.data;
   }
 
@@ -50,8 +62,8 @@ export class MonitoringApi {
    * const monitor = await scrapebit.monitoring.get('mon_abc123');
    * ```
    */
-  async get(id: string): Promise<Monitor> {
-    const response = await this.http.get<{ data: Monitor }>(`/monitoring/${id}`);
+  async get(id: string, callOptions?: CallOptions): Promise<Monitor> {
+    const response = await this.http.get<{ data: Monitor }>(`/monitoring/${id}`, callOptions);
     return response.data;
   }
 
@@ -65,7 +77,7 @@ export class MonitoringApi {
    */
   async list(options?: PaginationOptions & {
     status?: 'active' | 'paused' | 'error';
-  }): Promise<PaginatedResponse<Monitor>> {
+  }, callOptions?: CallOptions): Promise<PaginatedResponse<Monitor>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
@@ -73,7 +85,28 @@ export class MonitoringApi {
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<Monitor>>(
-      `/monitoring${query ? `?${query}` : ''}`
+      `/monitoring${query ? `?${query}` : ''}`,
+      callOptions
+    );
+  }
+
+  /**
+   * Iterate over all monitors, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const monitor of scrapebit.monitoring.listAll({ status: 'active' })) {
+   *   console.log(monitor.name);
+   * }
+   * ```
+   */
+  listAll(options?: PaginateOptions & {
+    status?: 'active' | 'paused' | 'error';
+  }): AsyncIterableIterator<Monitor> {
+    const { pageSize, maxItems, signal, ...filters } = options || {};
+    return paginate(
+      (page) => this.list({ ...filters, ...page }, { signal }),
+      { pageSize, maxItems, signal }
     );
   }
 
@@ -90,8 +123,9 @@ export class MonitoringApi {
    */
   async update(id: string, options: Partial<Omit<MonitorOptions, 'alertChannels'>> & {
     status?: 'active' | 'paused';
-  }): Promise<Monitor> {
-    const response = await this.http.patch<{ data: Monitor }>(`/monitoring/${id}`, options);
+  }, callOptions?: CallOptions): Promise<Monitor> {
+    validateMonitor(options, options.monitorType);
+    const response = await this.http.patch<{ data: Monitor }>(`/monitoring/${id}`, options, callOptions);
     return response.data;
   }
 
@@ -103,8 +137,53 @@ export class MonitoringApi {
    * await scrapebit.monitoring.delete('mon_abc123');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.http.delete(`/monitoring/${id}`);
+  async delete(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/monitoring/${id}`, callOptions);
+  }
+
+  /**
+   * Make the account's monitors match a list of monitor configurations
+   *
+   * Monitors are matched by name, or by a `sync:` tag with
+   * `matchBy: 'tag'`. Missing monitors are created, differing ones updated
+   * (including their alert channels) and, with `prune`, monitors that are
+   * not in the list are deleted. Every entry is validated before anything
+   * changes. Pass `log` to see the plan as a diff before it is applied;
+   * `dryRun` only computes it.
+   *
+   * @example
+   * ```typescript
+   * const plan = await scrapebit.monitoring.sync([
+   *   {
+   *     name: 'Price Monitor',
+   *     url: 'https://example.com/product',
+   *     monitorType: 'selector',
+   *     selector: '.price',
+   *     alertChannels: [{ type: 'email', email: 'user@example.com' }]
+   *   }
+   * ], { prune: true, dryRun: true, log: console.log });
+   *
+   * console.log(plan.summary);
+   * ```
+   */
+  async sync(desired: MonitorOptions[], options: SyncOptions = {}): Promise<SyncPlan<MonitorOptions, Monitor>> {
+    desired.forEach((monitor) => validateMonitor(monitor, monitor.monitorType ?? 'full_page'));
+    const callOptions = { signal: options.signal };
+    const current: Monitor[] = [];
+    for await (const monitor of this.listAll({ signal: options.signal })) {
+      current.push(monitor);
+    }
+
+    const plan = planSync({ label: 'Monitors', compare: compareMonitor }, desired, current, options);
+    return applySync(plan, options, async (change) => {
+      if (change.action === 'create' && change.desired) {
+        await this.create(change.desired, callOptions);
+      } else if (change.action === 'delete' && change.current) {
+        await this.delete(change.current.id, callOptions);
+      } else if (change.desired && change.current) {
+        await this.reconcile(change.current, change.desired, change.changes, callOptions);
+      }
+    });
   }
 
   /**
@@ -115,8 +194,8 @@ export class MonitoringApi {
    * await scrapebit.monitoring.pause('mon_abc123');
    * ```
    */
-  async pause(id: string): Promise<void> {
-    await this.http.post(`/monitoring/${id}/pause`);
+  async pause(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.post(`/monitoring/${id}/pause`, undefined, callOptions);
   }
 
   /**
@@ -127,8 +206,8 @@ export class MonitoringApi {
    * const monitor = await scrapebit.monitoring.resume('mon_abc123');
    * ```
    */
-  async resume(id: string): Promise<Monitor> {
-    const response = await this.http.post<{ data: Monitor }>(`/monitoring/${id}/resume`);
+  async resume(id: string, callOptions?: CallOptions): Promise<Monitor> {
+    const response = await this.http.post<{ data: Monitor }>(`/monitoring/${id}/resume`, undefined, callOptions);
     return response.data;
   }
 
@@ -141,8 +220,8 @@ export class MonitoringApi {
    * console.log(result.changeDetected);
    * ```
    */
-  async checkNow(id: string): Promise<MonitorCheck> {
-    const response = await this.http.post<{ data: MonitorCheck }>(`/monitoring/${id}/check-now`);
+  async checkNow(id: string, callOptions?: CallOptions): Promise<MonitorCheck> {
+    const response = await this.http.post<{ data: MonitorCheck }>(`/monitoring/${id}/check-now`, undefined, callOptions);
     return response.data;
   }
 
@@ -158,7 +237,7 @@ export class MonitoringApi {
    */
   async getChecks(id: string, options?: PaginationOptions & {
     changesOnly?: boolean;
-  }): Promise<PaginatedResponse<MonitorCheck>> {
+  }, callOptions?: CallOptions): Promise<PaginatedResponse<MonitorCheck>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
@@ -166,10 +245,49 @@ export class MonitoringApi {
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<MonitorCheck>>(
-      `/monitoring/${id}/checks${query ? `?${query}` : ''}`
+      `/monitoring/${id}/checks${query ? `?${query}` : ''}`,
+      callOptions
     );
   }
 
+  /**
+   * Iterate over the full check history of a monitor
+   *
+   * @example
+   * ```typescript
+   * for await (const check of scrapebit.monitoring.getAllChecks('mon_abc123', { changesOnly: true })) {
+   *   console.log(check.changeSummary);
+   * }
+   * ```
+   */
+  getAllChecks(id: string, options?: PaginateOptions & {
+    changesOnly?: boolean;
+  }): AsyncIterableIterator<MonitorCheck> {
+    const { pageSize, maxItems, signal, ...filters } = options || {};
+    return paginate(
+      (page) => this.getChecks(id, { ...filters, ...page }, { signal }),
+      { pageSize, maxItems, signal }
+    );
+  }
+
+  /**
+   * Get the content a check captured next to the content of the check
+   * before it. Diff them with `compareSnapshots`.
+   *
+   * @example
+   * ```typescript
+   * const checkDiff = await scrapebit.monitoring.getCheckDiff('mon_abc123', 'chk_xyz789');
+   * console.log(formatUnifiedDiff(compareSnapshots(checkDiff)));
+   * ```
+   */
+  async getCheckDiff(monitorId: string, checkId: string, callOptions?: CallOptions): Promise<MonitorCheckDiff> {
+    const response = await this.http.get<{ data: MonitorCheckDiff }>(
+      `/monitoring/${monitorId}/checks/${checkId}/diff`,
+      callOptions
+    );
+    return response.data;
+  }
+
   /**
    * Get alert history for a monitor
    *
@@ -178,17 +296,32 @@ export class MonitoringApi {
    * const alerts = await scrapebit.monitoring.getAlerts('mon_abc123');
    * ```
    */
-  async getAlerts(id: string, options?: PaginationOptions): Promise<PaginatedResponse<MonitorAlert>> {
+  async getAlerts(id: string, options?: PaginationOptions, callOptions?: CallOptions): Promise<PaginatedResponse<MonitorAlert>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<MonitorAlert>>(
-      `/monitoring/${id}/alerts${query ? `?${query}` : ''}`
+      `/monitoring/${id}/alerts${query ? `?${query}` : ''}`,
+      callOptions
     );
   }
 
+  /**
+   * Iterate over the full alert history of a monitor
+   *
+   * @example
+   * ```typescript
+   * for await (const alert of scrapebit.monitoring.getAllAlerts('mon_abc123')) {
+   *   console.log(alert.sentAt);
+   * }
+   * ```
+   */
+  getAllAlerts(id: string, options?: PaginateOptions): AsyncIterableIterator<MonitorAlert> {
+    return paginate((page) => this.getAlerts(id, page, { signal: options?.signal }), options);
+  }
+
   // ==========================================================================
   // Alert Channels
   // ==========================================================================
@@ -204,10 +337,12 @@ export class MonitoringApi {
    * });
    * ```
    */
-  async addChannel(monitorId: string, options: AlertChannelOptions): Promise<AlertChannel> {
+  async addChannel(monitorId: string, options: AlertChannelOptions, callOptions?: CallOptions): Promise<AlertChannel> {
+    validateAlertChannel(options);
     const response = await this.http.post<{ data: AlertChannel }>(
       `/monitoring/${monitorId}/channels`,
-      options
+      options,
+      callOptions
     );
     return response.data;
   }
@@ -227,11 +362,14 @@ export class MonitoringApi {
   async updateChannel(
     monitorId: string,
     channelId: string,
-    options: Partial<AlertChannelOptions> & { isEnabled?: boolean }
+    options: Partial<AlertChannelOptions>,
+    callOptions?: CallOptions
   ): Promise<AlertChannel> {
+    validateAlertChannel(options);
     const response = await this.http.patch<{ data: AlertChannel }>(
       `/monitoring/${monitorId}/channels/${channelId}`,
-      options
+      options,
+      callOptions
     );
     return response.data;
   }
@@ -244,7 +382,148 @@ export class MonitoringApi {
    * await scrapebit.monitoring.deleteChannel('mon_abc123', 'ch_xyz789');
    * ```
    */
-  async deleteChannel(monitorId: string, channelId: string): Promise<void> {
-    await this.http.delete(`/monitoring/${monitorId}/channels/${channelId}`);
+  async deleteChannel(monitorId: string, channelId: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/monitoring/${monitorId}/channels/${channelId}`, callOptions);
+  }
+
+  /**
+   * Apply field changes with `update` and alert channel changes through
+   * the channel endpoints, which `update` does not cover
+   */
+  private async reconcile(
+    monitor: Monitor,
+    desired: MonitorOptions,
+    changes: FieldChange[],
+    callOptions: CallOptions
+  ): Promise<void> {
+    const fields: Partial<MonitorOptions> = Object.fromEntries(
+      changes.filter(({ field }) => field !== 'alertChannels').map(({ field, to }) => [field, to])
+    );
+    if (Object.keys(fields).length > 0) {
+      await this.update(monitor.id, fields, callOptions);
+    }
+
+    if (desired.alertChannels) {
+      const { add, update, remove } = planChannels(desired.alertChannels, monitor.alertChannels);
+      for (const channel of add) {
+        await this.addChannel(monitor.id, channel, callOptions);
+      }
+      for (const { channel, options } of update) {
+        await this.updateChannel(monitor.id, channel.id, {
+          webhookHeaders: options.webhookHeaders,
+          debounceMinutes: options.debounceMinutes,
+          quietHours: options.quietHours,
+          isEnabled: options.isEnabled,
+        }, callOptions);
+      }
+      for (const channel of remove) {
+        await this.deleteChannel(monitor.id, channel.id, callOptions);
+      }
+    }
+  }
+}
+
+const MONITOR_FIELDS = [
+  'name',
+  'url',
+  'monitorType',
+  'selector',
+  'prompt',
+  'checkInterval',
+  'notifyOnlyOnChanges',
+  'includeScreenshot',
+  'alertRules',
+  'alertRuleMode',
+  'tags',
+] as const;
+
+function compareMonitor(desired: MonitorOptions, current: Monitor): { changes: FieldChange[] } {
+  const changes = diffFields(desired, current, MONITOR_FIELDS);
+  if (desired.alertChannels) {
+    const { add, update, remove } = planChannels(desired.alertChannels, current.alertChannels);
+    if (add.length + update.length + remove.length > 0) {
+      changes.push({
+        field: 'alertChannels',
+        from: current.alertChannels.map(describeChannel),
+        to: desired.alertChannels.map(describeChannel),
+      });
+    }
+  }
+  return { changes };
+}
+
+/**
+ * Validate the alert rules and channels of a monitor before sending it
+ */
+function validateMonitor(options: Partial<MonitorOptions>, monitorType?: MonitorType): void {
+  if (options.alertRules !== undefined) {
+    validateAlertRules(options.alertRules, monitorType);
+  }
+  if (options.alertRuleMode !== undefined && options.alertRuleMode !== 'any' && options.alertRuleMode !== 'all') {
+    throw new ValidationError('alertRuleMode must be any or all', 'alertRuleMode');
+  }
+  options.alertChannels?.forEach((channel, i) => validateAlertChannel(channel, `alertChannels[${i}]`));
+}
+
+/**
+ * Match desired channels to existing ones by type and target. Matched
+ * channels are updated when their settings differ, or when the desired
+ * channel sets `isEnabled` and the current one is in the other state.
+ */
+function planChannels(desired: AlertChannelOptions[], current: AlertChannel[]): {
+  add: AlertChannelOptions[];
+  update: Array<{ channel: AlertChannel; options: AlertChannelOptions }>;
+  remove: AlertChannel[];
+} {
+  const remaining = [...current];
+  const add: AlertChannelOptions[] = [];
+  const update: Array<{ channel: AlertChannel; options: AlertChannelOptions }> = [];
+
+  for (const options of desired) {
+    const index = remaining.findIndex((channel) => channelTarget(channel) === channelTarget(options));
+    if (index === -1) {
+      add.push(options);
+      continue;
+    }
+    const [channel] = remaining.splice(index, 1);
+    const toggled = options.isEnabled !== undefined && options.isEnabled !== channel.isEnabled;
+    if (toggled || !isEqual(channelSettings(channel), channelSettings(options))) {
+      update.push({ channel, options });
+    }
+  }
+
+  return { add, update, remove: remaining };
+}
+
+/**
+ * Settings compared between channels, with `null` and missing values
+ * treated alike
+ */
+function channelSettings(channel: AlertChannelOptions): Partial<AlertChannelOptions> {
+  return {
+    webhookHeaders: channel.webhookHeaders || {},
+    debounceMinutes: channel.debounceMinutes ?? undefined,
+    quietHours: channel.quietHours ?? undefined,
+  };
+}
+
+function channelTarget(channel: AlertChannelOptions): string {
+  return `${channel.type}:${channel.email ?? channel.slackWebhookUrl ?? channel.webhookUrl ?? ''}`;
+}
+
+/**
+ * Channel target for the printed diff, without the secret part of Slack
+ * webhook URLs
+ */
+function describeChannel(channel: AlertChannelOptions | AlertChannel): string {
+  const settings = [
+    ...(channel.isEnabled === false ? ['disabled'] : []),
+    ...(channel.debounceMinutes ? [`debounce ${channel.debounceMinutes}m`] : []),
+    ...(channel.quietHours ? [`quiet ${channel.quietHours.start}-${channel.quietHours.end}`] : []),
+  ];
+  const suffix = settings.length > 0 ? ` (${settings.join(', ')})` : '';
+  if (channel.type === 'slack' && channel.slackWebhookUrl) {
+    return `slack:${channel.slackWebhookUrl.replace(/^(https?:\/\/[^/]+).*$/, '$1/...')}${suffix}`;
   }
+  return `${channelTarget(channel)}${suffix}`;
 }
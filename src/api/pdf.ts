@@ -2,12 +2,21 @@
  * PDF API - PDF generation from web pages
  */
 
-import type { HttpClient } from '../utils/http';
+import { withReplayed, type HttpClient } from '../utils/http';
+import { paginate } from '../utils/pagination';
+import { runBulk } from '../utils/bulk';
+import { withCache } from '../utils/cache';
+import { downloadFile, type DownloadOptions, type DownloadResult } from '../utils/download';
 import type {
   PdfOptions,
   PdfResult,
+  CallOptions,
+  CacheableCallOptions,
   PaginationOptions,
   PaginatedResponse,
+  PaginateOptions,
+  BulkOptions,
+  BulkResult,
 } from '../types';
 
 /**
@@ -42,8 +51,13 @@ export class PdfApi {
    * console.log(result.pdfUrl);
    * ```
    */
-  async generate(options: PdfOptions): Promise<PdfResult> {
-    return this.http.post<PdfResult>('/pdf', options);
+  async generate(options: PdfOptions, callOptions?: CacheableCallOptions): Promise<PdfResult> {
+    return withCache(this.http, 'pdf', options, callOptions, async () =>
+      withReplayed(await this.http.send<PdfResult>('/pdf', {
+        ...callOptions,
+        method: 'POST',
+        body: options,
+      })));
   }
 
   /**
@@ -65,8 +79,40 @@ export class PdfApi {
     format?: PdfOptions['format'];
     orientation?: PdfOptions['orientation'];
     margin?: PdfOptions['margin'];
-  }): Promise<PdfResult[]> {
-    return this.http.post<PdfResult[]>('/pdf/batch', options);
+  }, callOptions?: CallOptions): Promise<PdfResult[]> {
+    return this.http.post<PdfResult[]>('/pdf/batch', options, callOptions);
+  }
+
+  /**
+   * Generate PDFs for any number of URLs through the batch endpoint
+   *
+   * URLs are split into chunks, chunks run concurrently, and URLs that fail
+   * are retried on their own.
+   *
+   * @example
+   * ```typescript
+   * const { results, succeeded } = await scrapebit.pdf.bulkGenerate(
+   *   { urls, format: 'a4' },
+   *   { chunkSize: 10, concurrency: 2 }
+   * );
+   * ```
+   */
+  async bulkGenerate(
+    options: {
+      urls: string[];
+      format?: PdfOptions['format'];
+      orientation?: PdfOptions['orientation'];
+      margin?: PdfOptions['margin'];
+    },
+    bulkOptions?: BulkOptions<PdfResult>
+  ): Promise<BulkResult<PdfResult>> {
+    const { urls, ...pdfOptions } = options;
+    const callOptions = { signal: bulkOptions?.signal };
+
+    return runBulk(urls, {
+      batch: (chunk) => this.batchGenerate({ ...pdfOptions, urls: chunk }, callOptions),
+      single: (url, itemOptions) => this.generate({ ...pdfOptions, url }, itemOptions),
+    }, bulkOptions);
   }
 
   /**
@@ -77,8 +123,8 @@ export class PdfApi {
    * const pdf = await scrapebit.pdf.get('pdf_abc123');
    * ```
    */
-  async get(id: string): Promise<PdfResult> {
-    return this.http.get<PdfResult>(`/pdf/${id}`);
+  async get(id: string, callOptions?: CallOptions): Promise<PdfResult> {
+    return this.http.get<PdfResult>(`/pdf/${id}`, callOptions);
   }
 
   /**
@@ -89,17 +135,32 @@ export class PdfApi {
    * const pdfs = await scrapebit.pdf.list({ page: 1, limit: 20 });
    * ```
    */
-  async list(options?: PaginationOptions): Promise<PaginatedResponse<SavedPdf>> {
+  async list(options?: PaginationOptions, callOptions?: CallOptions): Promise<PaginatedResponse<SavedPdf>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<SavedPdf>>(
-      `/pdf${query ? `?${query}` : ''}`
+      `/pdf${query ? `?${query}` : ''}`,
+      callOptions
     );
   }
 
+  /**
+   * Iterate over all generated PDFs, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const pdf of scrapebit.pdf.listAll({ pageSize: 100 })) {
+   *   console.log(pdf.id);
+   * }
+   * ```
+   */
+  listAll(options?: PaginateOptions): AsyncIterableIterator<SavedPdf> {
+    return paginate((page) => this.list(page, { signal: options?.signal }), options);
+  }
+
   /**
    * Delete a PDF
    *
@@ -108,8 +169,8 @@ export class PdfApi {
    * await scrapebit.pdf.delete('pdf_abc123');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.http.delete(`/pdf/${id}`);
+  async delete(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/pdf/${id}`, callOptions);
   }
 
   /**
@@ -120,7 +181,37 @@ export class PdfApi {
    * const { url } = await scrapebit.pdf.getDownloadUrl('pdf_abc123');
    * ```
    */
-  async getDownloadUrl(id: string): Promise<{ url: string; expiresAt: string }> {
-    return this.http.get<{ url: string; expiresAt: string }>(`/pdf/${id}/download`);
+  async getDownloadUrl(id: string, callOptions?: CallOptions): Promise<{ url: string; expiresAt: string }> {
+    return this.http.get<{ url: string; expiresAt: string }>(`/pdf/${id}/download`, callOptions);
+  }
+
+  /**
+   * Download a PDF to a file or stream
+   *
+   * Expired signed URLs are refreshed through `getDownloadUrl`, and the
+   * download fails if the size does not match `fileSize`.
+   *
+   * @example
+   * ```typescript
+   * const pdf = await scrapebit.pdf.generate({ url: 'https://example.com' });
+   * await scrapebit.pdf.download(pdf, { to: './pdf.pdf' });
+   *
+   * // Or by ID, to any WritableStream
+   * await scrapebit.pdf.download('pdf_abc123', { to: Writable.toWeb(response) });
+   * ```
+   */
+  async download(
+    pdf: string | Pick<PdfResult, 'id' | 'pdfUrl' | 'fileSize'>,
+    options: DownloadOptions,
+    callOptions?: CallOptions
+  ): Promise<DownloadResult> {
+    const { id, pdfUrl, fileSize } = typeof pdf === 'string' ? await this.get(pdf, callOptions) : pdf;
+
+    return downloadFile(this.http, {
+      id,
+      url: pdfUrl,
+      fileSize,
+      refresh: () => this.getDownloadUrl(id, callOptions),
+    }, options, callOptions);
   }
 }
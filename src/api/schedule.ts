@@ -3,11 +3,24 @@
  */
 
 import type { HttpClient } from '../utils/http';
+import { paginate } from '../utils/pagination';
+import { parseCron, scheduleRuns, validateTimezone } from '../utils/cron';
+import { pollUntil } from '../utils/poll';
+import { applySync, diffFields, planSync, type FieldChange, type SyncOptions, type SyncPlan } from '../utils/sync';
+import { ScheduleRunError, ScrapebitError, ValidationError } from '../utils/errors';
 import type {
   ScheduleOptions,
   ScheduledTask,
+  ScheduleRun,
+  CompletedScheduleRun,
+  ScrapeResult,
+  PdfResult,
+  ScreenshotResult,
+  PollOptions,
+  CallOptions,
   PaginationOptions,
   PaginatedResponse,
+  PaginateOptions,
 } from '../types';
 
 /**
@@ -30,10 +43,19 @@ export class ScheduleApi {
    *     prompt: 'Extract all product prices'
    *   }
    * });
+   *
+   * // Weekdays at 09:00 Berlin time
+   * await scrapebit.schedule.create({
+   *   url: 'https://example.com/prices',
+   *   type: 'scrape',
+   *   cron: '0 9 * * MON-FRI',
+   *   timezone: 'Europe/Berlin'
+   * });
    * ```
    */
-  async create(options: ScheduleOptions): Promise<ScheduledTask> {
-    return this.http.post<ScheduledTask>('/schedule', options);
+  async create(options: ScheduleOptions, callOptions?: CallOptions): Promise<ScheduledTask> {
+    validateTask(options);
+    return this.http.post<ScheduledTask>('/schedule', options, callOptions);
   }
 
   /**
@@ -44,8 +66,8 @@ export class ScheduleApi {
    * const task = await scrapebit.schedule.get('sch_abc123');
    * ```
    */
-  async get(id: string): Promise<ScheduledTask> {
-    return this.http.get<ScheduledTask>(`/schedule/${id}`);
+  async get(id: string, callOptions?: CallOptions): Promise<ScheduledTask> {
+    return this.http.get<ScheduledTask>(`/schedule/${id}`, callOptions);
   }
 
   /**
@@ -59,7 +81,7 @@ export class ScheduleApi {
   async list(options?: PaginationOptions & {
     status?: 'pending' | 'running' | 'completed' | 'failed';
     type?: 'scrape' | 'pdf' | 'screenshot';
-  }): Promise<PaginatedResponse<ScheduledTask>> {
+  }, callOptions?: CallOptions): Promise<PaginatedResponse<ScheduledTask>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
@@ -68,7 +90,29 @@ export class ScheduleApi {
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<ScheduledTask>>(
-      `/schedule${query ? `?${query}` : ''}`
+      `/schedule${query ? `?${query}` : ''}`,
+      callOptions
+    );
+  }
+
+  /**
+   * Iterate over all scheduled tasks, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const task of scrapebit.schedule.listAll({ type: 'scrape' })) {
+   *   console.log(task.nextRunAt);
+   * }
+   * ```
+   */
+  listAll(options?: PaginateOptions & {
+    status?: 'pending' | 'running' | 'completed' | 'failed';
+    type?: 'scrape' | 'pdf' | 'screenshot';
+  }): AsyncIterableIterator<ScheduledTask> {
+    const { pageSize, maxItems, signal, ...filters } = options || {};
+    return paginate(
+      (page) => this.list({ ...filters, ...page }, { signal }),
+      { pageSize, maxItems, signal }
     );
   }
 
@@ -83,8 +127,73 @@ export class ScheduleApi {
    * });
    * ```
    */
-  async update(id: string, options: Partial<Omit<ScheduleOptions, 'url' | 'type'>>): Promise<ScheduledTask> {
-    return this.http.patch<ScheduledTask>(`/schedule/${id}`, options);
+  async update(id: string, options: Partial<Omit<ScheduleOptions, 'url' | 'type'>>, callOptions?: CallOptions): Promise<ScheduledTask> {
+    validateTiming(options);
+    return this.http.patch<ScheduledTask>(`/schedule/${id}`, options, callOptions);
+  }
+
+  /**
+   * Make the account's scheduled tasks match a list of task configurations
+   *
+   * Works like `monitoring.sync`: tasks are matched by `name` (or a `sync:`
+   * tag with `matchBy: 'tag'`) and every entry is validated before
+   * anything changes. Tasks whose `url` or `type` changed are replaced,
+   * since `update` cannot change them: the new task is created before the
+   * old one is deleted.
+   *
+   * @example
+   * ```typescript
+   * await scrapebit.schedule.sync([
+   *   {
+   *     name: 'Daily prices',
+   *     url: 'https://example.com/prices',
+   *     type: 'scrape',
+   *     cron: '0 9 * * *',
+   *     timezone: 'Europe/Berlin'
+   *   }
+   * ], { prune: true });
+   * ```
+   */
+  async sync(desired: ScheduleOptions[], options: SyncOptions = {}): Promise<SyncPlan<ScheduleOptions, ScheduledTask>> {
+    desired.forEach(validateTask);
+    const callOptions = { signal: options.signal };
+    const current: ScheduledTask[] = [];
+    for await (const task of this.listAll({ signal: options.signal })) {
+      current.push(task);
+    }
+
+    const plan = planSync({ label: 'Scheduled tasks', compare: compareTask }, desired, current, options);
+    return applySync(plan, options, async ({ action, desired: task, current: existing, changes }) => {
+      if ((action === 'create' || action === 'replace') && task) {
+        await this.create(task, callOptions);
+      }
+      if ((action === 'delete' || action === 'replace') && existing) {
+        await this.delete(existing.id, callOptions);
+      }
+      if (action === 'update' && existing) {
+        const fields: Partial<ScheduleOptions> = Object.fromEntries(changes.map(({ field, to }) => [field, to]));
+        await this.update(existing.id, fields, callOptions);
+      }
+    });
+  }
+
+  /**
+   * Compute the next `n` run times of a schedule locally, without creating
+   * it. Uses the same validation as `create`.
+   *
+   * @example
+   * ```typescript
+   * // Every 15 minutes during New York market hours
+   * const runs = scrapebit.schedule.previewRuns({
+   *   cron: '0,15,30,45 9-15 * * 1-5',
+   *   timezone: 'America/New_York'
+   * }, 5);
+   * runs.forEach((run) => console.log(run.toISOString()));
+   * ```
+   */
+  previewRuns(options: Pick<ScheduleOptions, 'scheduledAt' | 'frequency' | 'cron' | 'timezone'>, n = 5): Date[] {
+    validateTiming(options);
+    return scheduleRuns(options, n);
   }
 
   /**
@@ -95,8 +204,8 @@ export class ScheduleApi {
    * await scrapebit.schedule.delete('sch_abc123');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.http.delete(`/schedule/${id}`);
+  async delete(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/schedule/${id}`, callOptions);
   }
 
   /**
@@ -107,8 +216,8 @@ export class ScheduleApi {
    * const task = await scrapebit.schedule.pause('sch_abc123');
    * ```
    */
-  async pause(id: string): Promise<ScheduledTask> {
-    return this.http.post<ScheduledTask>(`/schedule/${id}/pause`);
+  async pause(id: string, callOptions?: CallOptions): Promise<ScheduledTask> {
+    return this.http.post<ScheduledTask>(`/schedule/${id}/pause`, undefined, callOptions);
   }
 
   /**
@@ -119,8 +228,8 @@ export class ScheduleApi {
    * const task = await scrapebit.schedule.resume('sch_abc123');
    * ```
    */
-  async resume(id: string): Promise<ScheduledTask> {
-    return this.http.post<ScheduledTask>(`/schedule/${id}/resume`);
+  async resume(id: string, callOptions?: CallOptions): Promise<ScheduledTask> {
+    return this.http.post<ScheduledTask>(`/schedule/${id}/resume`, undefined, callOptions);
   }
 
   /**
@@ -131,8 +240,73 @@ export class ScheduleApi {
    * const task = await scrapebit.schedule.triggerNow('sch_abc123');
    * ```
    */
-  async triggerNow(id: string): Promise<ScheduledTask> {
-    return this.http.post<ScheduledTask>(`/schedule/${id}/trigger`);
+  async triggerNow(id: string, callOptions?: CallOptions): Promise<ScheduledTask> {
+    return this.http.post<ScheduledTask>(`/schedule/${id}/trigger`, undefined, callOptions);
+  }
+
+  /**
+   * Run a scheduled task now and wait for the run to finish
+   *
+   * Polls the task's run history with backoff until a run started by the
+   * trigger shows up, then fetches the scrape, PDF or screenshot result it
+   * produced. A failed run rejects with a `ScheduleRunError` carrying the
+   * run's error.
+   *
+   * The API does not say which run a trigger started, so the earliest run
+   * that started at or after the trigger is taken. A cron run or another
+   * caller's trigger starting within about a second of this one can be
+   * returned instead; check `run.startedAt` if that matters.
+   *
+   * @example
+   * ```typescript
+   * const completed = await scrapebit.schedule.runAndWait('sch_abc123', { timeout: 120000 });
+   * if (completed.type === 'scrape') {
+   *   console.log(completed.result.data);
+   * }
+   * ```
+   */
+  async runAndWait(id: string, options: PollOptions = {}): Promise<CompletedScheduleRun> {
+    const callOptions = { signal: options.signal };
+    const recentRuns = async () => (await this.getHistory(id, { limit: 20 }, callOptions)).data;
+
+    // The task's status may still describe an earlier run, so wait for a
+    // run that started after the trigger to show up in history
+    const earlier = new Set((await recentRuns()).map((run) => run.id));
+    const sentAt = Date.now();
+    const { headers } = await this.http.send<ScheduledTask>(`/schedule/${id}/trigger`, { ...callOptions, method: 'POST' });
+
+    // Compare against the API's clock when it sends one. `Date` only has
+    // second precision, so the second before it counts too.
+    const serverTime = Date.parse(headers.get('date') ?? '');
+    const triggeredAt = Number.isNaN(serverTime) ? sentAt : serverTime - 1000;
+
+    const run = await pollUntil(async () => (await recentRuns())
+      .filter((candidate) => !earlier.has(candidate.id) && Date.parse(candidate.startedAt) >= triggeredAt)
+      .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))[0], options);
+
+    const task = await this.get(id, callOptions);
+    if (run.status === 'failed') {
+      throw new ScheduleRunError(id, run.id, run.error);
+    }
+
+    const resultId = run.resultId;
+    if (!resultId) {
+      throw new ScrapebitError(`Scheduled task ${id} completed without a result`, 'SCHEDULE_RESULT_MISSING');
+    }
+
+    switch (task.type) {
+      case 'scrape':
+        return { type: 'scrape', task, run, result: await this.http.get<ScrapeResult>(`/scrape/${resultId}`, callOptions) };
+      case 'pdf':
+        return { type: 'pdf', task, run, result: await this.http.get<PdfResult>(`/pdf/${resultId}`, callOptions) };
+      case 'screenshot':
+        return {
+          type: 'screenshot',
+          task,
+          run,
+          result: await this.http.get<ScreenshotResult>(`/screenshot/${resultId}`, callOptions),
+        };
+    }
   }
 
   /**
@@ -143,19 +317,66 @@ export class ScheduleApi {
    * const history = await scrapebit.schedule.getHistory('sch_abc123');
    * ```
    */
-  async getHistory(id: string, options?: PaginationOptions): Promise<PaginatedResponse<{
-    id: string;
-    status: 'completed' | 'failed';
-    startedAt: string;
-    completedAt: string;
-    resultId?: string;
-    error?: string;
-  }>> {
+  async getHistory(id: string, options?: PaginationOptions, callOptions?: CallOptions): Promise<PaginatedResponse<ScheduleRun>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString();
-    return this.http.get(`/schedule/${id}/history${query ? `?${query}` : ''}`);
+    return this.http.get(`/schedule/${id}/history${query ? `?${query}` : ''}`, callOptions);
+  }
+
+  /**
+   * Iterate over the full execution history of a scheduled task
+   *
+   * @example
+   * ```typescript
+   * for await (const run of scrapebit.schedule.getAllHistory('sch_abc123')) {
+   *   console.log(run.status, run.completedAt);
+   * }
+   * ```
+   */
+  getAllHistory(id: string, options?: PaginateOptions): AsyncIterableIterator<ScheduleRun> {
+    return paginate((page) => this.getHistory(id, page, { signal: options?.signal }), options);
+  }
+}
+
+const TASK_FIELDS = ['name', 'url', 'type', 'scheduledAt', 'frequency', 'cron', 'timezone', 'options', 'webhookUrl', 'tags'] as const;
+
+function compareTask(desired: ScheduleOptions, current: ScheduledTask): { changes: FieldChange[]; replace: boolean } {
+  const changes = diffFields(desired, current, TASK_FIELDS).filter(({ field, from, to }) =>
+    // The API may format the same instant differently
+    field !== 'scheduledAt' || Date.parse(String(from)) !== Date.parse(String(to))
+  );
+  return { changes, replace: changes.some(({ field }) => field === 'url' || field === 'type') };
+}
+
+/**
+ * Validate a new task before sending it
+ */
+function validateTask(options: ScheduleOptions): void {
+  validateTiming(options);
+  if (!options.scheduledAt && !options.cron) {
+    throw new ValidationError('scheduledAt or cron is required', 'scheduledAt');
+  }
+}
+
+/**
+ * Validate the timing fields of a schedule before sending it
+ */
+function validateTiming(options: Partial<ScheduleOptions>): void {
+  if (options.scheduledAt !== undefined && Number.isNaN(Date.parse(options.scheduledAt))) {
+    throw new ValidationError('scheduledAt must be an ISO 8601 date', 'scheduledAt');
+  }
+  if (options.cron !== undefined) {
+    parseCron(options.cron);
+    if (options.frequency && options.frequency !== 'cron') {
+      throw new ValidationError(`frequency "${options.frequency}" cannot be combined with cron`, 'frequency');
+    }
+  } else if (options.frequency === 'cron') {
+    throw new ValidationError('frequency "cron" requires a cron expression', 'cron');
+  }
+  if (options.timezone !== undefined) {
+    validateTimezone(options.timezone);
   }
 }
@@ -2,12 +2,21 @@
  * Screenshot API - Screenshot capture from web pages
  */
 
-import type { HttpClient } from '../utils/http';
+import { withReplayed, type HttpClient } from '../utils/http';
+import { paginate } from '../utils/pagination';
+import { runBulk } from '../utils/bulk';
+import { withCache } from '../utils/cache';
+import { downloadFile, type DownloadOptions, type DownloadResult } from '../utils/download';
 import type {
   ScreenshotOptions,
   ScreenshotResult,
+  CallOptions,
+  CacheableCallOptions,
   PaginationOptions,
   PaginatedResponse,
+  PaginateOptions,
+  BulkOptions,
+  BulkResult,
 } from '../types';
 
 /**
@@ -45,8 +54,13 @@ export class ScreenshotApi {
    * console.log(result.imageUrl);
    * ```
    */
-  async capture(options: ScreenshotOptions): Promise<ScreenshotResult> {
-    return this.http.post<ScreenshotResult>('/screenshot', options);
+  async capture(options: ScreenshotOptions, callOptions?: CacheableCallOptions): Promise<ScreenshotResult> {
+    return withCache(this.http, 'screenshot', options, callOptions, async () =>
+      withReplayed(await this.http.send<ScreenshotResult>('/screenshot', {
+        ...callOptions,
+        method: 'POST',
+        body: options,
+      })));
   }
 
   /**
@@ -70,8 +84,41 @@ export class ScreenshotApi {
     quality?: number;
     fullPage?: boolean;
     viewport?: ScreenshotOptions['viewport'];
-  }): Promise<ScreenshotResult[]> {
-    return this.http.post<ScreenshotResult[]>('/screenshot/batch', options);
+  }, callOptions?: CallOptions): Promise<ScreenshotResult[]> {
+    return this.http.post<ScreenshotResult[]>('/screenshot/batch', options, callOptions);
+  }
+
+  /**
+   * Capture screenshots of any number of URLs through the batch endpoint
+   *
+   * URLs are split into chunks, chunks run concurrently, and URLs that fail
+   * are retried on their own.
+   *
+   * @example
+   * ```typescript
+   * const { results, failed } = await scrapebit.screenshot.bulkCapture(
+   *   { urls, format: 'png', fullPage: true },
+   *   { onProgress: (p) => console.log(`${p.failed} failed so far`) }
+   * );
+   * ```
+   */
+  async bulkCapture(
+    options: {
+      urls: string[];
+      format?: ScreenshotOptions['format'];
+      quality?: number;
+      fullPage?: boolean;
+      viewport?: ScreenshotOptions['viewport'];
+    },
+    bulkOptions?: BulkOptions<ScreenshotResult>
+  ): Promise<BulkResult<ScreenshotResult>> {
+    const { urls, ...screenshotOptions } = options;
+    const callOptions = { signal: bulkOptions?.signal };
+
+    return runBulk(urls, {
+      batch: (chunk) => this.batchCapture({ ...screenshotOptions, urls: chunk }, callOptions),
+      single: (url, itemOptions) => this.capture({ ...screenshotOptions, url }, itemOptions),
+    }, bulkOptions);
   }
 
   /**
@@ -91,8 +138,12 @@ export class ScreenshotApi {
     format?: ScreenshotOptions['format'];
     quality?: number;
     waitFor?: ScreenshotOptions['waitFor'];
-  }): Promise<ScreenshotResult> {
-    return this.http.post<ScreenshotResult>('/screenshot/element', options);
+  }, callOptions?: CallOptions): Promise<ScreenshotResult> {
+    return withReplayed(await this.http.send<ScreenshotResult>('/screenshot/element', {
+      ...callOptions,
+      method: 'POST',
+      body: options,
+    }));
   }
 
   /**
@@ -103,8 +154,8 @@ export class ScreenshotApi {
    * const screenshot = await scrapebit.screenshot.get('ss_abc123');
    * ```
    */
-  async get(id: string): Promise<ScreenshotResult> {
-    return this.http.get<ScreenshotResult>(`/screenshot/${id}`);
+  async get(id: string, callOptions?: CallOptions): Promise<ScreenshotResult> {
+    return this.http.get<ScreenshotResult>(`/screenshot/${id}`, callOptions);
   }
 
   /**
@@ -115,17 +166,32 @@ export class ScreenshotApi {
    * const screenshots = await scrapebit.screenshot.list({ page: 1, limit: 20 });
    * ```
    */
-  async list(options?: PaginationOptions): Promise<PaginatedResponse<SavedScreenshot>> {
+  async list(options?: PaginationOptions, callOptions?: CallOptions): Promise<PaginatedResponse<SavedScreenshot>> {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString();
     return this.http.get<PaginatedResponse<SavedScreenshot>>(
-      `/screenshot${query ? `?${query}` : ''}`
+      `/screenshot${query ? `?${query}` : ''}`,
+      callOptions
     );
   }
 
+  /**
+   * Iterate over all captured screenshots, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const screenshot of scrapebit.screenshot.listAll({ pageSize: 100 })) {
+   *   console.log(screenshot.id);
+   * }
+   * ```
+   */
+  listAll(options?: PaginateOptions): AsyncIterableIterator<SavedScreenshot> {
+    return paginate((page) => this.list(page, { signal: options?.signal }), options);
+  }
+
   /**
    * Delete a screenshot
    *
@@ -134,8 +200,8 @@ export class ScreenshotApi {
    * await scrapebit.screenshot.delete('ss_abc123');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.http.delete(`/screenshot/${id}`);
+  async delete(id: string, callOptions?: CallOptions): Promise<void> {
+    await this.http.delete(`/screenshot/${id}`, callOptions);
   }
 
   /**
@@ -146,7 +212,37 @@ export class ScreenshotApi {
    * const { url } = await scrapebit.screenshot.getDownloadUrl('ss_abc123');
    * ```
    */
-  async getDownloadUrl(id: string): Promise<{ url: string; expiresAt: string }> {
-    return this.http.get<{ url: string; expiresAt: string }>(`/screenshot/${id}/download`);
+  async getDownloadUrl(id: string, callOptions?: CallOptions): Promise<{ url: string; expiresAt: string }> {
+    return this.http.get<{ url: string; expiresAt: string }>(`/screenshot/${id}/download`, callOptions);
+  }
+
+  /**
+   * Download a screenshot to a file or stream
+   *
+   * Expired signed URLs are refreshed through `getDownloadUrl`, and the
+   * download fails if the size does not match `fileSize`.
+   *
+   * @example
+   * ```typescript
+   * const screenshot = await scrapebit.screenshot.capture({ url: 'https://example.com' });
+   * await scrapebit.screenshot.download(screenshot, { to: './screenshot.png' });
+   *
+   * // Or by ID, to any WritableStream
+   * await scrapebit.screenshot.download('ss_abc123', { to: Writable.toWeb(response) });
+   * ```
+   */
+  async download(
+    screenshot: string | Pick<ScreenshotResult, 'id' | 'imageUrl' | 'fileSize'>,
+    options: DownloadOptions,
+    callOptions?: CallOptions
+  ): Promise<DownloadResult> {
+    const { id, imageUrl, fileSize } = typeof screenshot === 'string' ? await this.get(screenshot, callOptions) : screenshot;
+
+    return downloadFile(this.http, {
+      id,
+      url: imageUrl,
+      fileSize,
+      refresh: () => this.getDownloadUrl(id, callOptions),
+    }, options, callOptions);
   }
 }
@@ -6,6 +6,7 @@
  */
 
 import type { HttpClient } from '../utils/http';
+import type { CallOptions } from '../types';
 
 // =============================================================================
 // Types
@@ -166,8 +167,8 @@ export class UsageApi {
    * }
    * ```
    */
-  async get(): Promise<UsageInfo> {
-    return this.http.get<UsageInfo>('/usage');
+  async get(callOptions?: CallOptions): Promise<UsageInfo> {
+    return this.http.get<UsageInfo>('/usage', callOptions);
   }
 
   /**
@@ -181,8 +182,8 @@ export class UsageApi {
    * }
    * ```
    */
-  async hasCredits(required: number = 1): Promise<boolean> {
-    const usage = await this.get();
+  async hasCredits(required: number = 1, callOptions?: CallOptions): Promise<boolean> {
+    const usage = await this.get(callOptions);
     return usage.credits_remaining >= required;
   }
 
@@ -201,9 +202,10 @@ export class UsageApi {
    * ```
    */
   async hasFeature(
-    feature: 'pagination' | 'integrations' | 'api' | 'scheduling' | 'monitoring'
+    feature: 'pagination' | 'integrations' | 'api' | 'scheduling' | 'monitoring',
+    callOptions?: CallOptions
   ): Promise<boolean> {
-    const usage = await this.get();
+    const usage = await this.get(callOptions);
 
     switch (feature) {
       case 'pagination':
@@ -236,8 +238,8 @@ export class UsageApi {
    * }
    * ```
    */
-  async getApiRequestsRemaining(): Promise<number> {
-    const usage = await this.get();
+  async getApiRequestsRemaining(callOptions?: CallOptions): Promise<number> {
+    const usage = await this.get(callOptions);
 
     // null means unlimited
     if (usage.plan.api_rate_limit_per_day === null) {
@@ -0,0 +1,306 @@
+/**
+ * CLI commands - Each command calls the SDK and returns rows to print
+ */
+
+import type { Scrapebit } from '../client';
+import type {
+  CallOptions,
+  PdfFormat,
+  PdfOrientation,
+  ScreenshotFormat,
+  ScheduleFrequency,
+  ScheduleTaskType,
+  ScheduledTask,
+  MonitorStatus,
+  PdfResult,
+  ScreenshotResult,
+} from '../types';
+import { ValidationError } from '../utils/errors';
+import type { CommandOutput } from './format';
+import { research } from './research';
+
+/**
+ * Flags accepted by the CLI, in `node:util` `parseArgs` format
+ */
+export const CLI_OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  'api-key': { type: 'string' },
+  profile: { type: 'string' },
+  'base-url': { type: 'string' },
+  timeout: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  prompt: { type: 'string', short: 'p' },
+  columns: { type: 'string', short: 'c' },
+  format: { type: 'string' },
+  orientation: { type: 'string' },
+  'full-page': { type: 'boolean' },
+  width: { type: 'string' },
+  height: { type: 'string' },
+  quality: { type: 'string' },
+  status: { type: 'string' },
+  type: { type: 'string' },
+  at: { type: 'string' },
+  frequency: { type: 'string' },
+  cron: { type: 'string' },
+  timezone: { type: 'string' },
+  limit: { type: 'string' },
+  name: { type: 'string' },
+} as const;
+
+/**
+ * Parsed flag values
+ */
+export type CliFlags = {
+  [K in keyof typeof CLI_OPTIONS]?: (typeof CLI_OPTIONS)[K]['type'] extends 'boolean' ? boolean : string;
+};
+
+/**
+ * Streams and environment the CLI runs against
+ */
+export interface CliIo {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+  homedir: string;
+
+  /**
+   * Cancels the running command, e.g. on Ctrl+C
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything a command needs to run
+ */
+export interface CommandContext {
+  client: Scrapebit;
+  io: CliIo;
+  args: string[];
+  flags: CliFlags;
+  callOptions: CallOptions;
+
+  /**
+   * URLs from the arguments, or from stdin (one per line) when the only
+   * argument is `-` or no URL is given and stdin is not a terminal
+   */
+  readUrls(): Promise<string[]>;
+}
+
+/**
+ * A command returns output to print, or nothing if it wrote its own
+ */
+export type Command = (context: CommandContext) => Promise<CommandOutput | void>;
+
+const TASK_COLUMNS = ['id', 'type', 'url', 'status', 'frequency', 'nextRunAt', 'lastRunAt'];
+
+/**
+ * Top-level commands, and subcommands for resource groups
+ */
+export const COMMANDS: Record<string, Command | Record<string, Command>> = {
+  scrape: async ({ client, flags, callOptions, readUrls }) => {
+    const urls = await readUrls();
+    const options = { prompt: flags.prompt, columns: splitList(flags.columns) };
+
+    if (urls.length === 1) {
+      const result = await client.content.scrape({ url: urls[0], ...options }, callOptions);
+      return { rows: result.data, columns: result.headers, json: result };
+    }
+
+    const results = await client.content.batchScrape({ urls, ...options }, callOptions);
+    return {
+      rows: results.flatMap((result, i) => (result.data || []).map((row) => ({ url: urls[i], ...row }))),
+      columns: ['url', ...new Set(results.flatMap((result) => result.headers || []))],
+      json: results,
+    };
+  },
+
+  pdf: async ({ client, flags, callOptions, readUrls }) => {
+    const urls = await readUrls();
+    const options = {
+      format: flags.format as PdfFormat | undefined,
+      orientation: flags.orientation as PdfOrientation | undefined,
+    };
+
+    const results: PdfResult[] = urls.length === 1
+      ? [await client.pdf.generate({ url: urls[0], ...options }, callOptions)]
+      : await client.pdf.batchGenerate({ urls, ...options }, callOptions);
+
+    return {
+      rows: results.map((result, i) => ({
+        url: urls[i],
+        id: result.id,
+        pdfUrl: result.pdfUrl,
+        pageCount: result.pageCount,
+        fileSize: result.fileSize,
+        creditsUsed: result.creditsUsed,
+      })),
+      json: urls.length === 1 ? results[0] : results,
+    };
+  },
+
+  screenshot: async ({ client, flags, callOptions, readUrls }) => {
+    const urls = await readUrls();
+    const width = parseNumber(flags.width, 'width');
+    const height = parseNumber(flags.height, 'height');
+    if ((width === undefined) !== (height === undefined)) {
+      throw new ValidationError('--width and --height must be given together', 'viewport');
+    }
+
+    const options = {
+      format: flags.format as ScreenshotFormat | undefined,
+      quality: parseNumber(flags.quality, 'quality'),
+      fullPage: flags['full-page'],
+      viewport: width !== undefined && height !== undefined ? { width, height } : undefined,
+    };
+
+    const results: ScreenshotResult[] = urls.length === 1
+      ? [await client.screenshot.capture({ url: urls[0], ...options }, callOptions)]
+      : await client.screenshot.batchCapture({ urls, ...options }, callOptions);
+
+    return {
+      rows: results.map((result, i) => ({
+        url: urls[i],
+        id: result.id,
+        imageUrl: result.imageUrl,
+        dimensions: `${result.dimensions.width}x${result.dimensions.height}`,
+        fileSize: result.fileSize,
+        creditsUsed: result.creditsUsed,
+      })),
+      json: urls.length === 1 ? results[0] : results,
+    };
+  },
+
+  schedule: {
+    list: async ({ client, flags, callOptions }) => {
+      const tasks = await collect(client.schedule.listAll({
+        status: flags.status as ScheduledTask['status'] | undefined,
+        type: flags.type as ScheduleTaskType | undefined,
+        maxItems: parseNumber(flags.limit, 'limit'),
+        signal: callOptions.signal,
+      }));
+      return { rows: tasks as unknown as Record<string, unknown>[], columns: TASK_COLUMNS, json: tasks };
+    },
+
+    create: async ({ client, args, flags, callOptions }) => {
+      const url = requireArg(args, 'url');
+      if (!flags.type) {
+        throw new ValidationError('--type is required (scrape, pdf or screenshot)', 'type');
+      }
+
+      const task = await client.schedule.create({
+        url,
+        type: flags.type as ScheduleTaskType,
+        scheduledAt: flags.at || (flags.cron ? undefined : new Date().toISOString()),
+        frequency: flags.frequency as ScheduleFrequency | undefined,
+        cron: flags.cron,
+        timezone: flags.timezone,
+      }, callOptions);
+      return taskOutput(task);
+    },
+
+    pause: async ({ client, args, callOptions }) =>
+      taskOutput(await client.schedule.pause(requireArg(args, 'id'), callOptions)),
+
+    trigger: async ({ client, args, callOptions }) =>
+      taskOutput(await client.schedule.triggerNow(requireArg(args, 'id'), callOptions)),
+  },
+
+  monitor: {
+    list: async ({ client, flags, callOptions }) => {
+      const monitors = await collect(client.monitoring.listAll({
+        status: flags.status as MonitorStatus | undefined,
+        maxItems: parseNumber(flags.limit, 'limit'),
+        signal: callOptions.signal,
+      }));
+      return {
+        rows: monitors as unknown as Record<string, unknown>[],
+        columns: ['id', 'name', 'url', 'status', 'checkInterval', 'lastCheckAt'],
+        json: monitors,
+      };
+    },
+
+    'check-now': async ({ client, args, callOptions }) => {
+      const check = await client.monitoring.checkNow(requireArg(args, 'id'), callOptions);
+      return {
+        rows: [check as unknown as Record<string, unknown>],
+        columns: ['id', 'status', 'changeDetected', 'changeSummary', 'checkedAt', 'responseTimeMs'],
+        json: check,
+      };
+    },
+
+    alerts: async ({ client, args, flags, callOptions }) => {
+      const alerts = await collect(client.monitoring.getAllAlerts(requireArg(args, 'id'), {
+        maxItems: parseNumber(flags.limit, 'limit'),
+        signal: callOptions.signal,
+      }));
+      return {
+        rows: alerts as unknown as Record<string, unknown>[],
+        columns: ['id', 'channelType', 'success', 'sentAt', 'error'],
+        json: alerts,
+      };
+    },
+  },
+
+  credits: async ({ client, callOptions }) => {
+    const credits = await client.credits.getBalance(callOptions);
+    return {
+      rows: [credits as unknown as Record<string, unknown>],
+      columns: ['remaining', 'subscription', 'purchased', 'used', 'refreshAt'],
+      json: credits,
+    };
+  },
+
+  research,
+
+  usage: async ({ client, callOptions }) => {
+    const usage = await client.usage.get(callOptions);
+    return {
+      rows: [{
+        plan: usage.plan.name,
+        credits_remaining: usage.credits_remaining,
+        credits_used_this_month: usage.credits_used_this_month,
+        api_requests_today: usage.api_requests_today,
+        api_rate_limit_per_day: usage.plan.api_rate_limit_per_day ?? 'unlimited',
+      }],
+      json: usage,
+    };
+  },
+};
+
+function taskOutput(task: ScheduledTask): CommandOutput {
+  return { rows: [task as unknown as Record<string, unknown>], columns: TASK_COLUMNS, json: task };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+function requireArg(args: string[], name: string): string {
+  if (!args[0]) {
+    throw new ValidationError(`Missing <${name}> argument`, name);
+  }
+  return args[0];
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new ValidationError(`--${name} must be a number`, name);
+  }
+  return number;
+}
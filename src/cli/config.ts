@@ -0,0 +1,93 @@
+/**
+ * API key and profile resolution for the CLI
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+
+/**
+ * Connection settings stored under a profile name
+ */
+export interface CliProfile {
+  apiKey?: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * Settings the CLI connects with
+ */
+export interface ResolvedProfile extends CliProfile {
+  apiKey: string;
+}
+
+/**
+ * Location of the profile file, `$SCRAPEBIT_CONFIG_FILE` or `~/.scrapebit/config.json`
+ */
+export function profilePath(env: Record<string, string | undefined>, homedir: string): string {
+  return env.SCRAPEBIT_CONFIG_FILE || join(homedir, '.scrapebit', 'config.json');
+}
+
+/**
+ * Resolve connection settings from flags, the environment and the profile file
+ *
+ * The API key is taken from `--api-key`, then `SCRAPEBIT_API_KEY`, then the
+ * profile selected by `--profile` or `SCRAPEBIT_PROFILE` (default `default`).
+ * A profile selected by name takes precedence over `SCRAPEBIT_API_KEY` and
+ * `SCRAPEBIT_BASE_URL`, so its key is never sent to another host or the
+ * environment's key to its host.
+ *
+ * @throws {ValidationError} If an explicitly selected profile does not exist
+ * @throws {AuthenticationError} If no API key can be found
+ */
+export async function resolveProfile(
+  flags: { apiKey?: string; profile?: string; baseUrl?: string },
+  env: Record<string, string | undefined>,
+  homedir: string
+): Promise<ResolvedProfile> {
+  const path = profilePath(env, homedir);
+  const name = flags.profile || env.SCRAPEBIT_PROFILE;
+  const profiles = await readProfiles(path);
+  const profile = profiles[name || 'default'];
+
+  if (name && !profile) {
+    throw new ValidationError(`Profile "${name}" not found in ${path}`, 'profile');
+  }
+
+  const named = name ? profile : undefined;
+  const apiKey = flags.apiKey || named?.apiKey || env.SCRAPEBIT_API_KEY || profile?.apiKey;
+  if (!apiKey) {
+    throw new AuthenticationError(
+      `No API key found. Pass --api-key, set SCRAPEBIT_API_KEY or add a profile to ${path}`
+    );
+  }
+
+  return {
+    ...profile,
+    apiKey,
+    baseUrl: flags.baseUrl || named?.baseUrl || env.SCRAPEBIT_BASE_URL || profile?.baseUrl,
+  };
+}
+
+async function readProfiles(path: string): Promise<Record<string, CliProfile>> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of profiles');
+    }
+    return parsed;
+  } catch (error) {
+    throw new ValidationError(`Invalid profile file ${path}: ${(error as Error).message}`, 'profile');
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Process exit codes for the CLI, one per error class
+ */
+
+import {
+  ScrapebitError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  InsufficientCreditsError,
+  TimeoutError,
+  NetworkError,
+  AbortError,
+  ServerError,
+} from '../utils/errors';
+
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1,
+  USAGE: 2,
+  AUTHENTICATION: 3,
+  AUTHORIZATION: 4,
+  NOT_FOUND: 5,
+  INSUFFICIENT_CREDITS: 6,
+  RATE_LIMITED: 7,
+  TIMEOUT: 8,
+  NETWORK: 9,
+  SERVER: 10,
+  ABORTED: 130,
+} as const;
+
+/**
+ * Exit code for an error thrown by a command
+ */
+export function exitCodeFor(error: unknown): number {
+  if (!(error instanceof ScrapebitError)) {
+    return EXIT_CODES.ERROR;
+  }
+  if (error instanceof ValidationError) return EXIT_CODES.USAGE;
+  if (error instanceof AuthenticationError) return EXIT_CODES.AUTHENTICATION;
+  if (error instanceof AuthorizationError) return EXIT_CODES.AUTHORIZATION;
+  if (error instanceof NotFoundError) return EXIT_CODES.NOT_FOUND;
+  if (error instanceof InsufficientCreditsError) return EXIT_CODES.INSUFFICIENT_CREDITS;
+  if (error instanceof RateLimitError) return EXIT_CODES.RATE_LIMITED;
+  if (error instanceof TimeoutError) return EXIT_CODES.TIMEOUT;
+  if (error instanceof NetworkError) return EXIT_CODES.NETWORK;
+  if (error instanceof ServerError) return EXIT_CODES.SERVER;
+  if (error instanceof AbortError) return EXIT_CODES.ABORTED;
+  return EXIT_CODES.ERROR;
+}
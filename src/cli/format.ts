@@ -0,0 +1,86 @@
+/**
+ * Output formatting for the CLI
+ */
+
+/**
+ * Supported output formats
+ */
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'json', 'csv'];
+
+/**
+ * Result of a command, ready to be printed
+ */
+export interface CommandOutput {
+  /**
+   * Flat rows for table and CSV output
+   */
+  rows: Record<string, unknown>[];
+
+  /**
+   * Column order; defaults to the keys of every row in order of appearance
+   */
+  columns?: string[];
+
+  /**
+   * Value printed for JSON output; defaults to `rows`
+   */
+  json?: unknown;
+}
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Render command output in the requested format
+ */
+export function formatOutput(output: CommandOutput, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(output.json ?? output.rows, null, 2);
+  }
+
+  const columns = output.columns || collectColumns(output.rows);
+  return format === 'csv'
+    ? toCsv(output.rows, columns)
+    : toTable(output.rows, columns);
+}
+
+function collectColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return [...columns];
+}
+
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [
+    columns.map(escape).join(','),
+    ...rows.map((row) => columns.map((column) => escape(toCell(row[column]))).join(',')),
+  ].join('\n');
+}
+
+function toTable(rows: Record<string, unknown>[], columns: string[]): string {
+  if (rows.length === 0) {
+    return '(no results)';
+  }
+
+  const cells = rows.map((row) => columns.map((column) => {
+    const cell = toCell(row[column]).replace(/\s+/g, ' ');
+    return cell.length > MAX_CELL_WIDTH ? `${cell.slice(0, MAX_CELL_WIDTH - 1)}…` : cell;
+  }));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((row) => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    line(columns.map((column) => column.toUpperCase())),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...cells.map(line),
+  ].join('\n');
+}
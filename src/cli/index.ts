@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+/**
+ * `scrapebit` command-line entry point
+ */
+
+import { homedir } from 'node:os';
+import { runCli } from './main';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+  homedir: homedir(),
+  signal: controller.signal,
+}).then((code) => {
+  process.exitCode = code;
+});
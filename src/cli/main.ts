@@ -0,0 +1,166 @@
+/**
+ * CLI runner - Parse arguments, run a command and print its output
+ */
+
+import { parseArgs } from 'node:util';
+import { Scrapebit } from '../client';
+import { ScrapebitError, ValidationError } from '../utils/errors';
+import { CLI_OPTIONS, COMMANDS, type CliIo, type Command, type CliFlags } from './commands';
+import { resolveProfile } from './config';
+import { EXIT_CODES, exitCodeFor } from './exitCodes';
+import { formatOutput, OUTPUT_FORMATS, type OutputFormat } from './format';
+
+const VERSION = '1.0.0';
+
+export type { CliIo } from './commands';
+
+export const USAGE = `Usage: scrapebit <command> [options]
+
+Commands:
+  scrape <url...>                 Scrape URLs (--prompt, --columns a,b)
+  pdf <url...>                    Generate PDFs (--format, --orientation)
+  screenshot <url...>             Capture screenshots (--format, --full-page, --width, --height, --quality)
+  schedule list                   List scheduled tasks (--status, --type, --limit)
+  schedule create <url>           Schedule a task (--type, --at, --frequency, --cron, --timezone)
+  schedule pause <id>             Pause a scheduled task
+  schedule trigger <id>           Run a scheduled task now
+  monitor list                    List monitors (--status, --limit)
+  monitor check-now <id>          Check a monitor now
+  monitor alerts <id>             List alerts sent by a monitor (--limit)
+  credits                         Show the credit balance
+  usage                           Show plan and usage
+  research [session-id]           Chat with a Deep Research session (--name for a new session)
+
+Pass "-" instead of URLs, or pipe them in, to read one URL per line from stdin.
+
+Options:
+  -o, --output <format>           table, json or csv (default: table)
+      --api-key <key>             API key (default: $SCRAPEBIT_API_KEY or profile)
+      --profile <name>            Profile from ~/.scrapebit/config.json (default: $SCRAPEBIT_PROFILE or "default")
+      --base-url <url>            API base URL
+      --timeout <ms>              Request timeout
+  -h, --help                      Show this help
+  -v, --version                   Show the version
+`;
+
+/**
+ * Run the CLI and return the process exit code
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await runCli(process.argv.slice(2), {
+ *   stdin: process.stdin,
+ *   stdout: process.stdout,
+ *   stderr: process.stderr,
+ *   env: process.env,
+ *   homedir: os.homedir(),
+ * });
+ * ```
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: CLI_OPTIONS,
+      allowPositionals: true,
+      strict: true,
+    });
+    const flags = values as CliFlags;
+
+    if (flags.version) {
+      io.stdout.write(`${VERSION}\n`);
+      return EXIT_CODES.OK;
+    }
+    if (flags.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.OK;
+    }
+
+    const { command, args } = resolveCommand(positionals);
+    const format = (flags.output || 'table') as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new ValidationError(`--output must be one of ${OUTPUT_FORMATS.join(', ')}`, 'output');
+    }
+
+    const profile = await resolveProfile(
+      { apiKey: flags['api-key'], profile: flags.profile, baseUrl: flags['base-url'] },
+      io.env,
+      io.homedir
+    );
+    const timeout = flags.timeout !== undefined ? Number(flags.timeout) : profile.timeout;
+    if (timeout !== undefined && !(timeout > 0)) {
+      throw new ValidationError('--timeout must be a positive number', 'timeout');
+    }
+
+    const client = new Scrapebit(profile.apiKey, { baseUrl: profile.baseUrl, timeout });
+    const output = await command({
+      client,
+      io,
+      args,
+      flags,
+      callOptions: { signal: io.signal },
+      readUrls: () => readUrls(args, io),
+    });
+
+    if (output) {
+      io.stdout.write(`${formatOutput(output, format)}\n`);
+    }
+    return EXIT_CODES.OK;
+  } catch (error) {
+    io.stderr.write(`Error: ${describeError(error)}\n`);
+    if (isUsageError(error)) {
+      io.stderr.write(`\n${USAGE}`);
+      return EXIT_CODES.USAGE;
+    }
+    return exitCodeFor(error);
+  }
+}
+
+function resolveCommand(positionals: string[]): { command: Command; args: string[] } {
+  const [name, ...rest] = positionals;
+  const entry = name ? COMMANDS[name] : undefined;
+
+  if (typeof entry === 'function') {
+    return { command: entry, args: rest };
+  }
+
+  const subcommand = entry?.[rest[0]];
+  if (!entry || !subcommand) {
+    const known = entry ? ` (expected ${Object.keys(entry).join(', ')})` : '';
+    throw new ValidationError(
+      name ? `Unknown command "${[name, rest[0]].filter(Boolean).join(' ')}"${known}` : 'Missing command',
+      'command'
+    );
+  }
+
+  return { command: subcommand, args: rest.slice(1) };
+}
+
+async function readUrls(args: string[], io: CliIo): Promise<string[]> {
+  let urls = args;
+
+  if ((args.length === 1 && args[0] === '-') || (args.length === 0 && !io.stdin.isTTY)) {
+    let text = '';
+    for await (const chunk of io.stdin) {
+      text += chunk.toString();
+    }
+    urls = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+  }
+
+  if (urls.length === 0) {
+    throw new ValidationError('Provide at least one URL, or pipe URLs on stdin', 'url');
+  }
+  return urls;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ScrapebitError) {
+    return `${error.message} (${error.code})`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isUsageError(error: unknown): boolean {
+  return (error instanceof ValidationError && error.field === 'command')
+    || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS') === true;
+}
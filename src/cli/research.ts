@@ -0,0 +1,257 @@
+/**
+ * `scrapebit research` - Interactive chat with a Deep Research session
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { DeepResearchSession, AnalysisResult, ChatResponse } from '../api/deepResearch';
+import { AbortError, ScrapebitError, ValidationError } from '../utils/errors';
+import type { CommandContext } from './commands';
+
+const ANALYSIS_TYPES = ['summary', 'comparison', 'trends'] as const;
+
+type AnalysisType = (typeof ANALYSIS_TYPES)[number];
+
+/**
+ * One exchange recorded in the transcript
+ */
+export type TranscriptEntry =
+  | { kind: 'question'; content: string; timestamp: string }
+  | { kind: 'answer'; content: string; sources: NonNullable<ChatResponse['sources']>; timestamp: string }
+  | { kind: 'analysis'; type: AnalysisResult['type']; content: string; sources: AnalysisResult['sources']; timestamp: string };
+
+const HELP = `Type a question to chat with the session's sources.
+
+Commands:
+  /items                          List the session's items
+  /add scrape <scrape-id>         Add a saved scrape result
+  /add file <path>                Add a text file
+  /analyze summary|comparison|trends [prompt]
+  /export <file.md>               Save the transcript as Markdown
+  /help                           Show this help
+  /quit                           Leave the session
+`;
+
+/**
+ * Open a research session and run the REPL until `/quit` or end of input
+ */
+export async function research(context: CommandContext): Promise<void> {
+  const { io } = context;
+  const lines = createInterface({ input: io.stdin, crlfDelay: Infinity })[Symbol.asyncIterator]();
+  const readLine = async (prompt: string): Promise<string | undefined> => {
+    io.stdout.write(prompt);
+    const next = await lines.next();
+    return next.done ? undefined : next.value.trim();
+  };
+
+  const onAbort = () => lines.return?.();
+  io.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const session = await pickSession(context, readLine);
+    const transcript: TranscriptEntry[] = [];
+    io.stdout.write(`Session "${session.name}" (${session.id}). Type /help for commands.\n`);
+
+    for (;;) {
+      const line = await readLine('research> ');
+      if (line === undefined || line === '/quit' || line === '/exit') {
+        break;
+      }
+      if (!line) {
+        continue;
+      }
+
+      try {
+        await handleLine(context, session, transcript, line);
+      } catch (error) {
+        if (error instanceof AbortError || !(error instanceof ScrapebitError)) {
+          throw error;
+        }
+        io.stderr.write(`Error: ${error.message} (${error.code})\n`);
+      }
+    }
+
+    if (io.signal?.aborted) {
+      throw new AbortError();
+    }
+    io.stdout.write('\n');
+  } finally {
+    io.signal?.removeEventListener('abort', onAbort);
+    await lines.return?.();
+  }
+}
+
+async function pickSession(
+  { client, args, flags, io, callOptions }: CommandContext,
+  readLine: (prompt: string) => Promise<string | undefined>
+): Promise<DeepResearchSession> {
+  if (args[0]) {
+    return (await client.deepResearch.getSession(args[0], callOptions)).session;
+  }
+  if (flags.name) {
+    return client.deepResearch.createSession({ name: flags.name }, callOptions);
+  }
+
+  const { data: sessions } = await client.deepResearch.listSessions(callOptions);
+  if (sessions.length > 0) {
+    io.stdout.write('Research sessions:\n');
+    sessions.forEach((session, i) => {
+      io.stdout.write(`  ${i + 1}) ${session.name} (${session.itemCount} items)\n`);
+    });
+
+    const choice = await readLine(`Pick a session [1-${sessions.length}] or press Enter for a new one: `);
+    if (choice) {
+      const session = sessions[Number(choice) - 1];
+      if (!session) {
+        throw new ValidationError(`No session number ${choice}`, 'session');
+      }
+      return session;
+    }
+  }
+
+  const name = await readLine('Name for the new session: ');
+  return client.deepResearch.createSession({ name: name || undefined }, callOptions);
+}
+
+async function handleLine(
+  { client, io, callOptions }: CommandContext,
+  session: DeepResearchSession,
+  transcript: TranscriptEntry[],
+  line: string
+): Promise<void> {
+  const timestamp = () => new Date().toISOString();
+
+  if (!line.startsWith('/')) {
+    transcript.push({ kind: 'question', content: line, timestamp: timestamp() });
+    io.stdout.write('\n');
+
+    let response: ChatResponse | undefined;
+    for await (const event of client.deepResearch.chatStream(session.id, { message: line }, callOptions)) {
+      if (event.type === 'delta') {
+        io.stdout.write(event.text);
+      } else if (event.type === 'done') {
+        response = event.result;
+      }
+    }
+
+    const sources = response?.sources || [];
+    transcript.push({ kind: 'answer', content: response?.message || '', sources, timestamp: timestamp() });
+
+    io.stdout.write('\n');
+    sources.forEach((source, i) => {
+      io.stdout.write(`  [${i + 1}] ${source.title}: ${source.excerpt}\n`);
+    });
+    io.stdout.write('\n');
+    return;
+  }
+
+  const [command, ...rest] = line.split(/\s+/);
+  switch (command) {
+    case '/help':
+      io.stdout.write(HELP);
+      return;
+
+    case '/items': {
+      const { items } = await client.deepResearch.getSession(session.id, callOptions);
+      if (items.length === 0) {
+        io.stdout.write('No items yet. Add some with /add.\n');
+      }
+      items.forEach((item, i) => {
+        io.stdout.write(`  ${i + 1}) [${item.type}] ${item.title}${item.sourceUrl ? ` <${item.sourceUrl}>` : ''}\n`);
+      });
+      return;
+    }
+
+    case '/add': {
+      const [kind, ...target] = rest;
+      const value = target.join(' ');
+      if (kind === 'scrape' && value) {
+        const item = await client.deepResearch.addScrapeResult(session.id, value, callOptions);
+        io.stdout.write(`Added "${item.title}"\n`);
+        return;
+      }
+      if (kind === 'file' && value) {
+        const item = await client.deepResearch.addText(session.id, {
+          title: basename(value),
+          content: await readTextFile(value),
+        }, callOptions);
+        io.stdout.write(`Added "${item.title}"\n`);
+        return;
+      }
+      throw new ValidationError('Usage: /add scrape <scrape-id> or /add file <path>', 'add');
+    }
+
+    case '/analyze': {
+      const [type, ...prompt] = rest;
+      if (!ANALYSIS_TYPES.includes(type as AnalysisType)) {
+        throw new ValidationError(`Usage: /analyze ${ANALYSIS_TYPES.join('|')} [prompt]`, 'analyze');
+      }
+
+      const result = await client.deepResearch.analyze(session.id, {
+        type: type as AnalysisType,
+        prompt: prompt.join(' ') || undefined,
+      }, callOptions);
+      transcript.push({
+        kind: 'analysis',
+        type: result.type,
+        content: result.analysis,
+        sources: result.sources,
+        timestamp: timestamp(),
+      });
+
+      io.stdout.write(`\n${result.analysis}\n`);
+      result.sources.forEach((source, i) => io.stdout.write(`  [${i + 1}] ${source.title}\n`));
+      io.stdout.write('\n');
+      return;
+    }
+
+    case '/export': {
+      const path = rest.join(' ');
+      if (!path) {
+        throw new ValidationError('Usage: /export <file.md>', 'export');
+      }
+      await writeFile(path, renderTranscript(session, transcript), 'utf8');
+      io.stdout.write(`Transcript saved to ${path}\n`);
+      return;
+    }
+
+    default:
+      throw new ValidationError(`Unknown command ${command}. Type /help for commands.`, 'command');
+  }
+}
+
+/**
+ * Render a research transcript as Markdown with numbered citations
+ */
+export function renderTranscript(session: DeepResearchSession, transcript: TranscriptEntry[]): string {
+  const parts = [`# ${session.name}`];
+  if (session.description) {
+    parts.push(session.description);
+  }
+
+  for (const entry of transcript) {
+    if (entry.kind === 'question') {
+      parts.push(`## Question\n\n${entry.content}`);
+      continue;
+    }
+
+    const heading = entry.kind === 'answer' ? '## Answer' : `## Analysis: ${entry.type}`;
+    const citations = entry.sources.map((source, i) =>
+      'excerpt' in source ? `${i + 1}. **${source.title}**: ${source.excerpt}` : `${i + 1}. **${source.title}**`);
+
+    parts.push(citations.length > 0
+      ? `${heading}\n\n${entry.content}\n\n**Sources**\n\n${citations.join('\n')}`
+      : `${heading}\n\n${entry.content}`);
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+async function readTextFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ValidationError(`Cannot read ${path}: ${(error as Error).message}`, 'file');
+  }
+}
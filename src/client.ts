@@ -19,7 +19,7 @@
  * @packageDocumentation
  */
 
-import type { ScrapebitConfig } from './types';
+import type { ScrapebitConfig, CallOptions, Middleware } from './types';
 import { HttpClient } from './utils/http';
 import { ContentApi } from './api/content';
 import { PdfApi } from './api/pdf';
@@ -30,6 +30,8 @@ import { MonitoringApi } from './api/monitoring';
 import { DeepResearchApi } from './api/deepResearch';
 import { UsageApi } from './api/usage';
 import { ValidationError } from './utils/errors';
+import type { RateLimiter } from './utils/rateLimiter';
+import type { ResponseCache } from './utils/cache';
 
 /**
  * The main Scrapebit SDK client
@@ -93,6 +95,16 @@ export class Scrapebit {
    */
   public readonly usage: UsageApi;
 
+  /**
+   * Client-side rate limiter, if one was configured
+   */
+  public readonly rateLimiter?: RateLimiter;
+
+  /**
+   * Response cache, if one was configured
+   */
+  public readonly cache?: ResponseCache;
+
   private readonly http: HttpClient;
 
   /**
@@ -120,6 +132,8 @@ export class Scrapebit {
     }
 
     this.http = new HttpClient(apiKey, config);
+    this.rateLimiter = this.http.rateLimiter;
+    this.cache = this.http.cache;
 
     // Initialize API modules
     this.content = new ContentApi(this.http);
@@ -132,6 +146,23 @@ export class Scrapebit {
     this.usage = new UsageApi(this.http);
   }
 
+  /**
+   * Add a middleware to every request made by this client
+   *
+   * @example
+   * ```typescript
+   * scrapebit.use({
+   *   beforeRequest: (request) => {
+   *     request.headers['traceparent'] = currentTraceparent();
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.http.use(middleware);
+    return this;
+  }
+
   /**
    * Quick scrape helper - scrape a URL with minimal configuration
    *
@@ -140,8 +171,8 @@ export class Scrapebit {
    * const data = await scrapebit.scrape('https://example.com/products');
    * ```
    */
-  async scrape(url: string, prompt?: string) {
-    return this.content.scrape({ url, prompt });
+  async scrape(url: string, prompt?: string, callOptions?: CallOptions) {
+    return this.content.scrape({ url, prompt }, callOptions);
   }
 
   /**
@@ -152,8 +183,8 @@ export class Scrapebit {
    * const pdf = await scrapebit.toPdf('https://example.com/report');
    * ```
    */
-  async toPdf(url: string) {
-    return this.pdf.generate({ url });
+  async toPdf(url: string, callOptions?: CallOptions) {
+    return this.pdf.generate({ url }, callOptions);
   }
 
   /**
@@ -164,8 +195,8 @@ export class Scrapebit {
    * const screenshot = await scrapebit.toScreenshot('https://example.com');
    * ```
    */
-  async toScreenshot(url: string) {
-    return this.screenshot.capture({ url });
+  async toScreenshot(url: string, callOptions?: CallOptions) {
+    return this.screenshot.capture({ url }, callOptions);
   }
 }
 
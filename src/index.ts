@@ -31,17 +31,161 @@ export { ScreenshotApi, type SavedScreenshot } from './api/screenshot';
 export { ScheduleApi } from './api/schedule';
 export { CreditsApi, type CreditUsage } from './api/credits';
 export { MonitoringApi } from './api/monitoring';
-export { DeepResearchApi, type DeepResearchSession, type DeepResearchItem, type ChatMessage, type ChatResponse, type AnalysisResult } from './api/deepResearch';
+export {
+  DeepResearchApi,
+  MAX_DOCUMENT_SIZE,
+  RESEARCH_BUNDLE_FORMAT,
+  type AddDocumentOptions,
+  type DeepResearchItemWithContent,
+  type ResearchSessionBundle,
+  type ExportSessionOptions,
+  type ImportSessionOptions,
+  type ImportedSession,
+  type DeepResearchSession,
+  type DeepResearchItem,
+  type ChatMessage,
+  type ChatResponse,
+  type ChatSource,
+  type AnalysisResult,
+  type AnalysisSource,
+  type AnalyzeOptions,
+  type ResearchStreamEvent,
+  type ChatStreamEvent,
+  type AnalysisStreamEvent,
+} from './api/deepResearch';
 export { UsageApi, type UsageInfo, type PlanInfo, type SubscriptionInfo } from './api/usage';
 
+// Schema
+export {
+  field,
+  schemaToExtract,
+  validateRow,
+  type SchemaValidationOptions,
+} from './utils/schema';
+
+// Middleware
+export { createLoggerMiddleware, type LoggerMiddlewareOptions } from './utils/middleware';
+
+// Rate limiting
+export { RateLimiter } from './utils/rateLimiter';
+
+// Response cache
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  normalizeUrl,
+  cacheScope,
+  type CacheStore,
+} from './utils/cache';
+
+// Bulk jobs
+export { runBulk, type BulkHandlers } from './utils/bulk';
+
+// Research reports
+export { renderResearchMarkdown, renderResearchHtml } from './utils/researchReport';
+
+// Uploads
+export type { UploadInput, UploadProgress } from './utils/multipart';
+
+// Cron schedules
+export { parseCron, nextCronRuns, scheduleRuns, validateTimezone, type CronExpression } from './utils/cron';
+
+// Serializers
+export {
+  toRows,
+  toCsv,
+  toJson,
+  toNdjson,
+  toMarkdownTable,
+  serializeResults,
+  writeResults,
+  type SerializeFormat,
+  type SerializeOptions,
+  type SerializedRow,
+  type WriteResultsOptions,
+} from './utils/serialize';
+
+// Downloads
+export type { DownloadTarget, DownloadOptions, DownloadProgress, DownloadResult } from './utils/download';
+
+// Streaming
+export { readEventStream, type StreamEvent, type StreamFormat, type ReadStreamOptions } from './utils/stream';
+
+// Pagination
+export { paginate, type PageRequest } from './utils/pagination';
+
+// Polling
+export { pollUntil } from './utils/poll';
+
+// Check diffs
+export {
+  diffLines,
+  diffJson,
+  compareSnapshots,
+  formatUnifiedDiff,
+  renderDiffHtml,
+  type LineChange,
+  type JsonChange,
+  type SnapshotDiff,
+  type UnifiedDiffOptions,
+} from './utils/diff';
+
+// Alert rules
+export {
+  validateAlertRules,
+  validateAlertChannel,
+  evaluateAlertRules,
+  evaluateAlertRule,
+  isQuietTime,
+  queryJsonPath,
+  type AlertRuleSample,
+  type AlertRuleResult,
+  type AlertEvaluation,
+} from './utils/alertRules';
+
+// Declarative sync
+export type { SyncOptions, SyncPlan, SyncChange, SyncAction, FieldChange } from './utils/sync';
+
+// Webhooks
+export {
+  Webhooks,
+  MemoryReplayStore,
+  parseWebhookEvent,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENT_TYPES,
+  type ReplayStore,
+  type WebhookVerifierOptions,
+  type WebhookBody,
+  type WebhookSignatureHeader,
+  WebhookReceiver,
+  type WebhookReceiverOptions,
+  type WebhookHandler,
+  type WebhookEventOf,
+  type WebhookRequest,
+  type WebhookResponse,
+} from './webhooks';
+
 // Types
 export type {
   // Configuration
   ScrapebitConfig,
+  RetryPolicy,
+  RetryContext,
+  RateLimiterOptions,
+  CacheOptions,
+  CacheControl,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
 
   // Common
+  CallOptions,
+  CacheableCallOptions,
   PaginationOptions,
+  PaginateOptions,
   PaginatedResponse,
+  PollOptions,
   ApiResponse,
   ApiError,
 
@@ -50,6 +194,25 @@ export type {
   ScrapeResult,
   SavedScrape,
 
+  // Schema
+  SchemaField,
+  SchemaShape,
+  SchemaIssue,
+  SchemaScrapeResult,
+  StringSchemaField,
+  NumberSchemaField,
+  BooleanSchemaField,
+  ArraySchemaField,
+  ObjectSchemaField,
+  InferSchema,
+  InferSchemaField,
+
+  // Bulk
+  BulkOptions,
+  BulkOutcome,
+  BulkProgress,
+  BulkResult,
+
   // PDF
   PdfFormat,
   PdfOrientation,
@@ -66,6 +229,8 @@ export type {
   ScheduleTaskType,
   ScheduleOptions,
   ScheduledTask,
+  ScheduleRun,
+  CompletedScheduleRun,
 
   // Credits
   Credits,
@@ -77,9 +242,16 @@ export type {
   AlertChannelType,
   AlertChannelOptions,
   AlertChannel,
+  QuietHours,
+  ThresholdAlertRule,
+  RegexAlertRule,
+  JsonPathAlertRule,
+  AlertRule,
   MonitorOptions,
   Monitor,
   MonitorCheck,
+  MonitorSnapshot,
+  MonitorCheckDiff,
   MonitorAlert,
 
   // Webhooks
@@ -87,6 +259,8 @@ export type {
   WebhookPdfPayload,
   WebhookScreenshotPayload,
   WebhookMonitorPayload,
+  WebhookEvent,
+  WebhookEventType,
 } from './types';
 
 // Errors
@@ -99,8 +273,12 @@ export {
   RateLimitError,
   InsufficientCreditsError,
   TimeoutError,
+  AbortError,
   NetworkError,
   ServerError,
+  ScheduleRunError,
+  WebhookVerificationError,
+  type WebhookVerificationFailure,
 } from './utils/errors';
 
 // Default export
@@ -0,0 +1,22 @@
+/**
+ * Testing utilities - Run SDK code against an in-process fake API
+ *
+ * @example
+ * ```typescript
+ * import { Scrapebit } from '@scrapebit/sdk';
+ * import { FakeScrapebitServer } from '@scrapebit/sdk/testing';
+ *
+ * const server = new FakeScrapebitServer();
+ * const scrapebit = new Scrapebit(server.apiKey, server.config());
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export {
+  FakeScrapebitServer,
+  type FakeServerOptions,
+  type FakeFault,
+  type FakeRequest,
+  type FakeJobType,
+} from './server';
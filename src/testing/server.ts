@@ -0,0 +1,1434 @@
+/**
+ * Fake Scrapebit server - An in-process stand-in for the API in tests
+ *
+ * The server implements the endpoints the SDK calls on top of in-memory
+ * state. Jobs are charged against a credit balance that `/credits` and
+ * `/usage` report consistently, list endpoints return real
+ * `PaginatedResponse` shapes, and faults or latency can be injected per
+ * endpoint.
+ */
+
+import type {
+  ScrapebitConfig,
+  ScrapeOptions,
+  ScrapeResult,
+  SavedScrape,
+  PdfOptions,
+  PdfResult,
+  ScreenshotOptions,
+  ScreenshotResult,
+  ScheduleOptions,
+  ScheduledTask,
+  ScheduleRun,
+  ScheduleTaskType,
+  Credits,
+  Monitor,
+  MonitorOptions,
+  MonitorCheck,
+  MonitorCheckDiff,
+  MonitorSnapshot,
+  MonitorAlert,
+  AlertChannel,
+  AlertChannelOptions,
+  PaginatedResponse,
+} from '../types';
+import type { SavedPdf } from '../api/pdf';
+import type { SavedScreenshot } from '../api/screenshot';
+import type { CreditUsage } from '../api/credits';
+import type { UsageInfo, PlanInfo } from '../api/usage';
+import type {
+  DeepResearchSession,
+  DeepResearchItem,
+  ChatMessage,
+  ChatResponse,
+  AnalysisResult,
+} from '../api/deepResearch';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Kind of job that consumes credits
+ */
+export type FakeJobType = ScheduleTaskType;
+
+/**
+ * Options for the fake server
+ */
+export interface FakeServerOptions {
+  /**
+   * API key the server accepts
+   * @default 'sb_live_test000000000000000000000000'
+   */
+  apiKey?: string;
+
+  /**
+   * Base URL the server answers on
+   * @default 'https://api.scrapebit.test/v1'
+   */
+  baseUrl?: string;
+
+  /**
+   * Starting balance. Subscription credits are spent before purchased ones.
+   * @default { subscription: 1000, purchased: 0 }
+   */
+  credits?: {
+    subscription?: number;
+    purchased?: number;
+  };
+
+  /**
+   * Plan reported by `/usage`. `api_rate_limit_per_day` is enforced.
+   */
+  plan?: Partial<PlanInfo>;
+
+  /**
+   * Credits charged per job (scrapes are charged per page)
+   * @default { scrape: 1, pdf: 1, screenshot: 1 }
+   */
+  costs?: Partial<Record<FakeJobType, number>>;
+
+  /**
+   * Delay in milliseconds before every response
+   * @default 0
+   */
+  latencyMs?: number;
+
+  /**
+   * Rows returned for a scrape or extraction. Defaults to one row with a
+   * placeholder value for each requested field.
+   */
+  scrapeData?: (request: ScrapeOptions) => Record<string, unknown>[];
+
+  /**
+   * Number of `GET /schedule/:id` or `/schedule/:id/history` requests a
+   * triggered task answers as `running` before its run executes. With 0,
+   * runs complete within the trigger request.
+   * @default 0
+   */
+  scheduleRunPolls?: number;
+
+  /**
+   * Content a monitor sees on its nth check (starting at 1). A check
+   * detects a change when the content differs from the previous check.
+   * Defaults to content that never changes.
+   */
+  monitorContent?: (monitor: Monitor, check: number) => string;
+}
+
+/**
+ * A failure the server returns instead of handling a request
+ */
+export interface FakeFault {
+  /**
+   * HTTP status to respond with, or `'network'` to fail the fetch itself
+   */
+  status: number | 'network';
+
+  /**
+   * Only fail requests with this method
+   */
+  method?: string;
+
+  /**
+   * Only fail requests to this path (without base URL or query).
+   * A string must match exactly.
+   */
+  path?: string | RegExp;
+
+  /**
+   * Number of requests to fail before the fault is used up
+   * @default 1
+   */
+  times?: number;
+
+  /**
+   * `Retry-After` header value in seconds, for 429 faults
+   */
+  retryAfter?: number;
+
+  /**
+   * Error message in the response body
+   */
+  message?: string;
+
+  /**
+   * Extra delay in milliseconds before the fault is returned
+   */
+  delayMs?: number;
+}
+
+/**
+ * A request received by the fake server
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (context: RouteContext) => unknown;
+}
+
+interface UploadedFile {
+  name: string;
+  type: string;
+  bytes: Uint8Array;
+}
+
+interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+interface ScheduleRecord {
+  task: ScheduledTask;
+  options?: ScheduleOptions['options'];
+  webhookUrl?: string;
+  paused: boolean;
+  runs: ScheduleRun[];
+  pendingPolls?: number;
+}
+
+interface MonitorRecord {
+  monitor: Monitor;
+  checks: MonitorCheck[];
+  snapshots: MonitorSnapshot[];
+  alerts: MonitorAlert[];
+}
+
+interface SessionRecord {
+  session: DeepResearchSession;
+  items: Array<{ item: DeepResearchItem; content: string }>;
+  history: ChatMessage[];
+}
+
+/**
+ * Error response raised by a route handler
+ */
+class FakeHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code: string,
+    public readonly extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_PLAN: PlanInfo = {
+  name: 'Pro',
+  slug: 'pro',
+  credits_per_month: 1000,
+  api_rate_limit_per_day: null,
+  max_scheduled_jobs: null,
+  max_monitors: null,
+  has_integrations: true,
+  has_pagination: true,
+};
+
+const FILES_URL = 'https://files.scrapebit.test';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STREAMING_PATH = /^\/deep-research\/sessions\/[^/]+\/(chat|analyze)$/;
+
+// =============================================================================
+// Fake Server
+// =============================================================================
+
+/**
+ * In-process fake of the Scrapebit API
+ *
+ * @example
+ * ```typescript
+ * import { FakeScrapebitServer } from '@scrapebit/sdk/testing';
+ *
+ * const server = new FakeScrapebitServer({ credits: { subscription: 10 } });
+ * const scrapebit = new Scrapebit(server.apiKey, server.config({ retries: 0 }));
+ *
+ * server.fail({ status: 503, path: '/scrape' });
+ * await scrapebit.content.scrape({ url: 'https://example.com' }); // ServerError
+ *
+ * expect(server.requests).toHaveLength(1);
+ * ```
+ */
+export class FakeScrapebitServer {
+  /**
+   * API key the server accepts
+   */
+  readonly apiKey: string;
+
+  /**
+   * Base URL the server answers on
+   */
+  readonly baseUrl: string;
+
+  /**
+   * Every request received, in order
+   */
+  readonly requests: FakeRequest[] = [];
+
+  private latencyMs: number;
+  private readonly plan: PlanInfo;
+  private readonly costs: Record<FakeJobType, number>;
+  private readonly scrapeData: (request: ScrapeOptions) => Record<string, unknown>[];
+  private readonly scheduleRunPolls: number;
+  private readonly monitorContent: (monitor: Monitor, check: number) => string;
+  private readonly routes: Route[] = [];
+  private readonly faults: Array<FakeFault & { remaining: number }> = [];
+  private readonly idempotent = new Map<string, StoredResponse>();
+  private readonly counters = new Map<string, number>();
+
+  private subscriptionCredits: number;
+  private purchasedCredits: number;
+  private creditsUsed = 0;
+  private apiRequestsToday = 0;
+  private readonly periodEnd = new Date(Date.now() + 30 * DAY_MS).toISOString();
+
+  private readonly usage: CreditUsage[] = [];
+  private readonly scrapes = new Map<string, { saved: SavedScrape; result: ScrapeResult }>();
+  private readonly pdfs = new Map<string, SavedPdf>();
+  private readonly screenshots = new Map<string, SavedScreenshot>();
+  private readonly schedules = new Map<string, ScheduleRecord>();
+  private readonly monitors = new Map<string, MonitorRecord>();
+  private readonly sessions = new Map<string, SessionRecord>();
+
+  constructor(options: FakeServerOptions = {}) {
+    this.apiKey = options.apiKey || 'sb_live_test000000000000000000000000';
+    this.baseUrl = (options.baseUrl || 'https://api.scrapebit.test/v1').replace(/\/$/, '');
+    this.latencyMs = options.latencyMs ?? 0;
+    this.plan = { ...DEFAULT_PLAN, ...options.plan };
+    this.costs = { scrape: 1, pdf: 1, screenshot: 1, ...options.costs };
+    this.scrapeData = options.scrapeData || defaultScrapeData;
+    this.scheduleRunPolls = options.scheduleRunPolls ?? 0;
+    this.monitorContent = options.monitorContent || defaultMonitorContent;
+    this.subscriptionCredits = options.credits?.subscription ?? 1000;
+    this.purchasedCredits = options.credits?.purchased ?? 0;
+
+    this.registerRoutes();
+  }
+
+  /**
+   * `fetch` implementation that routes requests to this server
+   */
+  readonly fetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    return this.handle(url, init || {});
+  };
+
+  /**
+   * Client configuration pointing at this server
+   *
+   * @example
+   * ```typescript
+   * const scrapebit = new Scrapebit(server.apiKey, server.config({ timeout: 500 }));
+   * ```
+   */
+  config(config: ScrapebitConfig = {}): ScrapebitConfig {
+    return { ...config, baseUrl: this.baseUrl, fetch: this.fetch };
+  }
+
+  /**
+   * Route the global `fetch` to this server for code that builds its own
+   * clients. Requests to other URLs go to the original `fetch`.
+   *
+   * @returns A function that restores the original `fetch`
+   */
+  install(): () => void {
+    const original = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      return url.startsWith(this.baseUrl) || url.startsWith(FILES_URL) ? this.fetch(input, init) : original(input, init);
+    }) as typeof fetch;
+
+    return () => {
+      globalThis.fetch = original;
+    };
+  }
+
+  /**
+   * Fail upcoming requests matching the fault
+   *
+   * @example
+   * ```typescript
+   * server.fail({ status: 429, retryAfter: 0, times: 2 });
+   * server.fail({ status: 402, method: 'POST', path: '/pdf' });
+   * server.fail({ status: 'network', path: /^\/monitoring/ });
+   * ```
+   */
+  fail(fault: FakeFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Change the delay before every response
+   */
+  setLatency(ms: number): this {
+    this.latencyMs = ms;
+    return this;
+  }
+
+  /**
+   * Add purchased credits to the balance
+   */
+  addCredits(amount: number): this {
+    this.purchasedCredits += amount;
+    return this;
+  }
+
+  // ===========================================================================
+  // Request handling
+  // ===========================================================================
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = Object.fromEntries(new Headers(init.headers).entries());
+    const body = await parseBody(init, headers['content-type']);
+
+    await delay(this.latencyMs, init.signal);
+
+    if (url.startsWith(FILES_URL)) {
+      return this.serveFile(new URL(url));
+    }
+    if (!url.startsWith(this.baseUrl)) {
+      throw new TypeError(`fetch failed: ${url} is not served by the fake Scrapebit server`);
+    }
+
+    const parsed = new URL(url);
+    const path = parsed.pathname.slice(new URL(this.baseUrl).pathname.replace(/\/$/, '').length) || '/';
+    this.requests.push({ method, path, query: Object.fromEntries(parsed.searchParams), headers, body });
+
+    const fault = this.takeFault(method, path);
+    if (fault) {
+      await delay(fault.delayMs ?? 0, init.signal);
+      if (fault.status === 'network') {
+        throw new TypeError('fetch failed');
+      }
+      return this.faultResponse(fault as FakeFault & { status: number });
+    }
+
+    if (headers['authorization'] !== `Bearer ${this.apiKey}`) {
+      return json(401, { success: false, error: 'Invalid or missing API key', code: 'UNAUTHORIZED' });
+    }
+
+    this.apiRequestsToday++;
+    const dailyLimit = this.plan.api_rate_limit_per_day;
+    if (dailyLimit !== null && this.apiRequestsToday > dailyLimit) {
+      const midnight = new Date();
+      midnight.setUTCHours(24, 0, 0, 0);
+      return json(429, { success: false, error: 'Daily API limit reached', code: 'RATE_LIMITED' }, {
+        'Retry-After': String(Math.ceil((midnight.getTime() - Date.now()) / 1000)),
+      });
+    }
+
+    const idempotencyKey = method !== 'GET' ? headers['idempotency-key'] : undefined;
+    const storeKey = `${method} ${path} ${idempotencyKey}`;
+    const stored = idempotencyKey ? this.idempotent.get(storeKey) : undefined;
+    if (stored) {
+      return json(stored.status, stored.body, { 'Idempotency-Replayed': 'true' });
+    }
+
+    const response = this.route(method, path, parsed.searchParams, body);
+    if (idempotencyKey && response.status < 300) {
+      this.idempotent.set(storeKey, response);
+    }
+
+    const format = streamingFormat(headers['accept']);
+    if (format && response.status === 200 && STREAMING_PATH.test(path)) {
+      return eventStream(format, (response.body as { data: { data: Record<string, unknown> } }).data.data);
+    }
+    return json(response.status, response.body);
+  }
+
+  /**
+   * Serve generated PDFs and screenshots. Like the real file host, only
+   * signed URLs that have not expired are accepted.
+   */
+  private serveFile(url: URL): Response {
+    const expires = Date.parse(url.searchParams.get('expires') || '');
+    if (!(expires > Date.now())) {
+      return new Response('Request signature is missing or has expired', { status: 403 });
+    }
+
+    const location = `${url.origin}${url.pathname}`;
+    const pdf = [...this.pdfs.values()].find((candidate) => candidate.pdfUrl === location);
+    const screenshot = [...this.screenshots.values()].find((candidate) => candidate.imageUrl === location);
+    const file = pdf
+      ? { size: pdf.fileSize, type: 'application/pdf', magic: '%PDF-1.7\n' }
+      : screenshot && { size: screenshot.fileSize, type: `image/${screenshot.format}`, magic: 'IMAGE\n' };
+    if (!file) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const bytes = new Uint8Array(file.size);
+    bytes.set(new TextEncoder().encode(file.magic));
+
+    return new Response(bytes, {
+      status: 200,
+      headers: { 'Content-Type': file.type, 'Content-Length': String(file.size) },
+    });
+  }
+
+  private takeFault(method: string, path: string): FakeFault | undefined {
+    const fault = this.faults.find((candidate) =>
+      candidate.remaining > 0
+      && (!candidate.method || candidate.method.toUpperCase() === method)
+      && (!candidate.path || (typeof candidate.path === 'string' ? candidate.path === path : candidate.path.test(path)))
+    );
+
+    if (fault) {
+      fault.remaining--;
+    }
+    return fault;
+  }
+
+  private faultResponse(fault: FakeFault & { status: number }): Response {
+    const headers: Record<string, string> = {};
+    if (fault.retryAfter !== undefined) {
+      headers['Retry-After'] = String(fault.retryAfter);
+    }
+
+    const body: Record<string, unknown> = {
+      success: false,
+      error: fault.message || `Injected ${fault.status} fault`,
+      code: fault.status === 402 ? 'INSUFFICIENT_CREDITS' : fault.status === 429 ? 'RATE_LIMITED' : 'INJECTED_FAULT',
+    };
+    if (fault.status === 402) {
+      body.creditsRequired = 1;
+      body.creditsRemaining = this.remainingCredits();
+    }
+
+    return json(fault.status, body, headers);
+  }
+
+  private route(method: string, path: string, query: URLSearchParams, body: unknown): StoredResponse {
+    const matches = this.routes.filter((route) => route.pattern.test(path));
+    const route = matches.find((candidate) => candidate.method === method);
+
+    if (!route) {
+      return matches.length > 0
+        ? { status: 405, body: { success: false, error: `Method ${method} not allowed`, code: 'METHOD_NOT_ALLOWED' } }
+        : { status: 404, body: { success: false, error: `No route for ${path}`, code: 'NOT_FOUND' } };
+    }
+
+    const values = route.pattern.exec(path)!.slice(1);
+    const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(values[i])]));
+
+    try {
+      return { status: 200, body: { success: true, data: route.handler({ params, query, body }) ?? null } };
+    } catch (error) {
+      if (error instanceof FakeHttpError) {
+        return {
+          status: error.status,
+          body: { success: false, error: error.message, code: error.code, ...error.extra },
+        };
+      }
+      return { status: 500, body: { success: false, error: (error as Error).message, code: 'INTERNAL_ERROR' } };
+    }
+  }
+
+  private on(method: string, template: string, handler: (context: RouteContext) => unknown): void {
+    const keys: string[] = [];
+    const source = template.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+  }
+
+  // ===========================================================================
+  // Routes
+  // ===========================================================================
+
+  private registerRoutes(): void {
+    // Content
+    this.on('POST', '/scrape', ({ body }) => this.runScrape(body as ScrapeOptions));
+    this.on('POST', '/extract', ({ body }) => this.runScrape(body as ScrapeOptions));
+    this.on('POST', '/scrape/batch', ({ body }) => {
+      const { urls, ...options } = body as ScrapeOptions & { urls: string[] };
+      requireUrls(urls);
+      this.requireCredits(this.costs.scrape * urls.length);
+      return urls.map((url) => this.runScrape({ ...options, url }));
+    });
+    this.on('GET', '/scrape', ({ query }) =>
+      paginated([...this.scrapes.values()].map((scrape) => scrape.saved).reverse(), query));
+    this.on('GET', '/scrape/:id', ({ params }) => find(this.scrapes, params.id, 'Scrape').result);
+    this.on('DELETE', '/scrape/:id', ({ params }) => remove(this.scrapes, params.id, 'Scrape'));
+    this.on('GET', '/scrape/:id/export/:format', ({ params }) => {
+      find(this.scrapes, params.id, 'Scrape');
+      return { url: `${FILES_URL}/scrape/${params.id}.${params.format}` };
+    });
+
+    // PDF
+    this.on('POST', '/pdf', ({ body }) => this.runPdf(body as PdfOptions));
+    this.on('POST', '/pdf/batch', ({ body }) => {
+      const { urls, ...options } = body as PdfOptions & { urls: string[] };
+      requireUrls(urls);
+      this.requireCredits(this.costs.pdf * urls.length);
+      return urls.map((url) => this.runPdf({ ...options, url }));
+    });
+    this.on('GET', '/pdf', ({ query }) => paginated([...this.pdfs.values()].reverse(), query));
+    this.on('GET', '/pdf/:id', ({ params }) => {
+      const pdf = find(this.pdfs, params.id, 'PDF');
+      return toPdfResult(pdf, 0);
+    });
+    this.on('DELETE', '/pdf/:id', ({ params }) => remove(this.pdfs, params.id, 'PDF'));
+    this.on('GET', '/pdf/:id/download', ({ params }) => downloadUrl(find(this.pdfs, params.id, 'PDF').pdfUrl));
+
+    // Screenshot
+    this.on('POST', '/screenshot', ({ body }) => this.runScreenshot(body as ScreenshotOptions));
+    this.on('POST', '/screenshot/element', ({ body }) => {
+      const options = body as ScreenshotOptions;
+      if (!options?.selector) {
+        throw validationError('selector is required');
+      }
+      return this.runScreenshot(options);
+    });
+    this.on('POST', '/screenshot/batch', ({ body }) => {
+      const { urls, ...options } = body as ScreenshotOptions & { urls: string[] };
+      requireUrls(urls);
+      this.requireCredits(this.costs.screenshot * urls.length);
+      return urls.map((url) => this.runScreenshot({ ...options, url }));
+    });
+    this.on('GET', '/screenshot', ({ query }) => paginated([...this.screenshots.values()].reverse(), query));
+    this.on('GET', '/screenshot/:id', ({ params }) => toScreenshotResult(find(this.screenshots, params.id, 'Screenshot'), 0));
+    this.on('DELETE', '/screenshot/:id', ({ params }) => remove(this.screenshots, params.id, 'Screenshot'));
+    this.on('GET', '/screenshot/:id/download', ({ params }) =>
+      downloadUrl(find(this.screenshots, params.id, 'Screenshot').imageUrl));
+
+    // Schedule
+    this.on('POST', '/schedule', ({ body }) => this.createSchedule(body as ScheduleOptions));
+    this.on('GET', '/schedule', ({ query }) => {
+      const tasks = [...this.schedules.values()]
+        .map((record) => record.task)
+        .filter((task) => !query.get('status') || task.status === query.get('status'))
+        .filter((task) => !query.get('type') || task.type === query.get('type'));
+      return paginated(tasks.reverse(), query);
+    });
+    this.on('GET', '/schedule/:id', ({ params }) => this.pollSchedule(find(this.schedules, params.id, 'Scheduled task')).task);
+    this.on('PATCH', '/schedule/:id', ({ params, body }) => {
+      const record = find(this.schedules, params.id, 'Scheduled task');
+      const update = body as Partial<ScheduleOptions>;
+      if (update.name !== undefined) record.task.name = update.name;
+      if (update.url !== undefined) record.task.url = update.url;
+      if (update.scheduledAt !== undefined) record.task.scheduledAt = record.task.nextRunAt = update.scheduledAt;
+      if (update.frequency !== undefined) record.task.frequency = update.frequency;
+      if (update.cron !== undefined) record.task.cron = update.cron;
+      if (update.timezone !== undefined) record.task.timezone = update.timezone;
+      if (update.options !== undefined) record.options = record.task.options = update.options;
+      if (update.webhookUrl !== undefined) record.webhookUrl = record.task.webhookUrl = update.webhookUrl;
+      if (update.tags !== undefined) record.task.tags = update.tags;
+      return record.task;
+    });
+    this.on('DELETE', '/schedule/:id', ({ params }) => remove(this.schedules, params.id, 'Scheduled task'));
+    this.on('POST', '/schedule/:id/pause', ({ params }) => {
+      const record = find(this.schedules, params.id, 'Scheduled task');
+      record.paused = true;
+      record.task.nextRunAt = undefined;
+      return record.task;
+    });
+    this.on('POST', '/schedule/:id/resume', ({ params }) => {
+      const record = find(this.schedules, params.id, 'Scheduled task');
+      record.paused = false;
+      record.task.nextRunAt = record.task.scheduledAt;
+      return record.task;
+    });
+    this.on('POST', '/schedule/:id/trigger', ({ params }) => {
+      const record = find(this.schedules, params.id, 'Scheduled task');
+      if (this.scheduleRunPolls === 0) {
+        return this.runSchedule(record);
+      }
+      record.pendingPolls = this.scheduleRunPolls;
+      record.task.status = 'running';
+      return record.task;
+    });
+    this.on('GET', '/schedule/:id/history', ({ params, query }) =>
+      paginated([...this.pollSchedule(find(this.schedules, params.id, 'Scheduled task')).runs].reverse(), query));
+
+    // Credits and usage
+    this.on('GET', '/credits', () => this.credits());
+    this.on('GET', '/credits/usage', ({ query }) => {
+      const records = this.usageBetween(query.get('startDate'), query.get('endDate'))
+        .filter((record) => !query.get('type') || record.type === query.get('type'));
+      return paginated(records.reverse(), query);
+    });
+    this.on('GET', '/credits/summary', ({ query }) => this.summary(query));
+    this.on('GET', '/usage', () => this.usageInfo());
+
+    // Monitoring
+    this.on('POST', '/monitoring', ({ body }) => ({ data: this.createMonitor(body as MonitorOptions) }));
+    this.on('GET', '/monitoring', ({ query }) => {
+      const monitors = [...this.monitors.values()]
+        .map((record) => record.monitor)
+        .filter((monitor) => !query.get('status') || monitor.status === query.get('status'));
+      return paginated(monitors.reverse(), query);
+    });
+    this.on('GET', '/monitoring/:id', ({ params }) => ({ data: find(this.monitors, params.id, 'Monitor').monitor }));
+    this.on('PATCH', '/monitoring/:id', ({ params, body }) => {
+      const { monitor } = find(this.monitors, params.id, 'Monitor');
+      const { alertChannels, ...update } = body as Partial<MonitorOptions>;
+      Object.assign(monitor, pick(update, [
+        'name', 'url', 'monitorType', 'selector', 'prompt', 'checkInterval',
+        'notifyOnlyOnChanges', 'includeScreenshot', 'alertRules', 'alertRuleMode', 'tags',
+      ]));
+      if (alertChannels) {
+        monitor.alertChannels = alertChannels.map((channel) => this.createChannel(channel));
+      }
+      return { data: monitor };
+    });
+    this.on('DELETE', '/monitoring/:id', ({ params }) => remove(this.monitors, params.id, 'Monitor'));
+    this.on('POST', '/monitoring/:id/pause', ({ params }) => {
+      const { monitor } = find(this.monitors, params.id, 'Monitor');
+      monitor.status = 'paused';
+      monitor.nextCheckAt = undefined;
+      return { data: monitor };
+    });
+    this.on('POST', '/monitoring/:id/resume', ({ params }) => {
+      const { monitor } = find(this.monitors, params.id, 'Monitor');
+      monitor.status = 'active';
+      monitor.nextCheckAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      return { data: monitor };
+    });
+    this.on('POST', '/monitoring/:id/check-now', ({ params }) => ({ data: this.runCheck(find(this.monitors, params.id, 'Monitor')) }));
+    this.on('GET', '/monitoring/:id/checks', ({ params, query }) =>
+      paginated([...find(this.monitors, params.id, 'Monitor').checks].reverse(), query));
+    this.on('GET', '/monitoring/:id/checks/:checkId/diff', ({ params }) => ({
+      data: this.checkDiff(find(this.monitors, params.id, 'Monitor'), params.checkId),
+    }));
+    this.on('GET', '/monitoring/:id/alerts', ({ params, query }) =>
+      paginated([...find(this.monitors, params.id, 'Monitor').alerts].reverse(), query));
+    this.on('POST', '/monitoring/:id/channels', ({ params, body }) => {
+      const { monitor } = find(this.monitors, params.id, 'Monitor');
+      const channel = this.createChannel(body as AlertChannelOptions);
+      monitor.alertChannels.push(channel);
+      return { data: channel };
+    });
+    this.on('PATCH', '/monitoring/:id/channels/:channelId', ({ params, body }) => {
+      const channel = this.findChannel(params.id, params.channelId);
+      Object.assign(channel, body, { id: channel.id });
+      return { data: channel };
+    });
+    this.on('DELETE', '/monitoring/:id/channels/:channelId', ({ params }) => {
+      const { monitor } = find(this.monitors, params.id, 'Monitor');
+      const channel = this.findChannel(params.id, params.channelId);
+      monitor.alertChannels = monitor.alertChannels.filter((candidate) => candidate !== channel);
+    });
+
+    // Deep research
+    this.on('GET', '/deep-research/sessions', () => ({
+      data: [...this.sessions.values()].map((record) => record.session),
+      sessionLimitReached: false,
+      currentSessionCount: this.sessions.size,
+      maxSessionsAllowed: null,
+    }));
+    this.on('POST', '/deep-research/sessions', ({ body }) => {
+      const options = (body || {}) as { name?: string; description?: string };
+      const now = new Date().toISOString();
+      const session: DeepResearchSession = {
+        id: this.nextId('session'),
+        name: options.name || 'Untitled research',
+        description: options.description,
+        itemCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.sessions.set(session.id, { session, items: [], history: [] });
+      return { data: session };
+    });
+    this.on('GET', '/deep-research/sessions/:id', ({ params }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      return { data: { session: record.session, items: record.items.map(({ item }) => item) } };
+    });
+    this.on('DELETE', '/deep-research/sessions/:id', ({ params }) => remove(this.sessions, params.id, 'Session'));
+    this.on('POST', '/deep-research/sessions/:id/items/scrape', ({ params, body }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const { scrapeResultId } = body as { scrapeResultId: string };
+      const { saved, result } = find(this.scrapes, scrapeResultId, 'Scrape');
+      return { data: this.addItem(record, 'scrape_result', saved.url, JSON.stringify(result.data), saved.url) };
+    });
+    this.on('POST', '/deep-research/sessions/:id/items/text', ({ params, body }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const { title, content } = (body || {}) as { title?: string; content?: string };
+      if (!title || !content) {
+        throw validationError('title and content are required');
+      }
+      return { data: this.addItem(record, 'custom_text', title, content) };
+    });
+    this.on('POST', '/deep-research/sessions/:id/items/document', ({ params, body }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const { file, title } = (body || {}) as { file?: UploadedFile; title?: string };
+      if (!file || typeof file !== 'object') {
+        throw validationError('file is required');
+      }
+
+      const text = /^text\/|json/.test(file.type);
+      const content = text
+        ? new TextDecoder().decode(file.bytes)
+        : `${file.name} (${file.type}, ${file.bytes.byteLength} bytes)`;
+      return { data: this.addItem(record, 'document', title || file.name, content) };
+    });
+    this.on('POST', '/deep-research/sessions/:id/items/pdf', ({ params, body }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const pdf = find(this.pdfs, (body as { pdfId: string }).pdfId, 'PDF');
+      return { data: this.addItem(record, 'pdf_result', pdf.url, `PDF of ${pdf.url}, ${pdf.pageCount} page(s)`, pdf.url) };
+    });
+    this.on('POST', '/deep-research/sessions/:id/items/screenshot', ({ params, body }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const screenshot = find(this.screenshots, (body as { screenshotId: string }).screenshotId, 'Screenshot');
+      const { width, height } = screenshot.dimensions;
+      return {
+        data: this.addItem(record, 'screenshot_result', screenshot.url, `Screenshot of ${screenshot.url}, ${width}x${height}`, screenshot.url),
+      };
+    });
+    this.on('GET', '/deep-research/sessions/:id/items/:itemId', ({ params }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const entry = record.items.find(({ item }) => item.id === params.itemId);
+      if (!entry) {
+        throw notFound('Item');
+      }
+      return { data: { ...entry.item, content: entry.content } };
+    });
+    this.on('DELETE', '/deep-research/sessions/:id/items/:itemId', ({ params }) => {
+      const record = find(this.sessions, params.id, 'Session');
+      const index = record.items.findIndex(({ item }) => item.id === params.itemId);
+      if (index === -1) {
+        throw notFound('Item');
+      }
+      record.items.splice(index, 1);
+      record.session.itemCount = record.items.length;
+    });
+    this.on('POST', '/deep-research/sessions/:id/chat', ({ params, body }) =>
+      ({ data: this.chat(find(this.sessions, params.id, 'Session'), (body as { message?: string })?.message) }));
+    this.on('POST', '/deep-research/sessions/:id/analyze', ({ params, body }) =>
+      ({ data: this.analyze(find(this.sessions, params.id, 'Session'), (body || {}) as { type?: AnalysisResult['type'] }) }));
+    this.on('GET', '/deep-research/sessions/:id/chat/history', ({ params }) =>
+      ({ data: find(this.sessions, params.id, 'Session').history }));
+  }
+
+  // ===========================================================================
+  // Jobs
+  // ===========================================================================
+
+  private runScrape(options: ScrapeOptions): ScrapeResult {
+    return this.scrapeJob(options, 'scrape').result;
+  }
+
+  private scrapeJob(options: ScrapeOptions, usageType: CreditUsage['type']): { id: string; result: ScrapeResult } {
+    requireUrl(options?.url);
+    if (options.extract && options.columns) {
+      throw validationError('extract cannot be combined with columns');
+    }
+
+    const pages = Math.max(1, options.pagination?.maxPages ?? 1);
+    const id = this.nextId('scrape');
+    const credits = this.charge(usageType, this.costs.scrape * pages, id, options.url);
+    const data = this.scrapeData(options);
+    const headers = options.extract
+      ? Object.keys(options.extract)
+      : options.columns || Object.keys(data[0] || {});
+
+    const result: ScrapeResult = {
+      success: true,
+      data,
+      headers,
+      row_count: data.length,
+      credits_used: credits,
+      credits_remaining: this.remainingCredits(),
+    };
+    const saved: SavedScrape = {
+      id,
+      url: options.url,
+      headers,
+      rowCount: data.length,
+      createdAt: new Date().toISOString(),
+      status: 'completed',
+    };
+
+    this.scrapes.set(id, { saved, result });
+    return { id, result };
+  }
+
+  private runPdf(options: PdfOptions, usageType: CreditUsage['type'] = 'pdf'): PdfResult {
+    requireUrl(options?.url);
+
+    const id = this.nextId('pdf');
+    const credits = this.charge(usageType, this.costs.pdf, id, options.url);
+    const pdf: SavedPdf = {
+      id,
+      url: options.url,
+      pdfUrl: `${FILES_URL}/pdf/${id}.pdf`,
+      fileSize: 48_213,
+      pageCount: 1,
+      format: options.format || 'a4',
+      createdAt: new Date().toISOString(),
+    };
+
+    this.pdfs.set(id, pdf);
+    return toPdfResult(pdf, credits);
+  }
+
+  private runScreenshot(options: ScreenshotOptions, usageType: CreditUsage['type'] = 'screenshot'): ScreenshotResult {
+    requireUrl(options?.url);
+    if (options.quality !== undefined && (options.quality < 1 || options.quality > 100)) {
+      throw validationError('quality must be between 1 and 100');
+    }
+
+    const id = this.nextId('screenshot');
+    const credits = this.charge(usageType, this.costs.screenshot, id, options.url);
+    const format = options.format || 'png';
+    const viewport = options.viewport || { width: 1280, height: 720 };
+    const screenshot: SavedScreenshot = {
+      id,
+      url: options.url,
+      imageUrl: `${FILES_URL}/screenshots/${id}.${format}`,
+      fileSize: 182_440,
+      dimensions: { width: viewport.width, height: options.fullPage ? viewport.height * 4 : viewport.height },
+      format,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.screenshots.set(id, screenshot);
+    return toScreenshotResult(screenshot, credits);
+  }
+
+  private createSchedule(options: ScheduleOptions): ScheduledTask {
+    requireUrl(options?.url);
+    if (!['scrape', 'pdf', 'screenshot'].includes(options.type)) {
+      throw validationError('type must be scrape, pdf or screenshot');
+    }
+    if (options.cron !== undefined && !/^(@\w+|\S+( \S+){4})$/.test(options.cron.trim())) {
+      throw validationError('cron must be a five-field cron expression');
+    }
+    if (options.cron === undefined || options.scheduledAt !== undefined) {
+      if (!options.scheduledAt || Number.isNaN(Date.parse(options.scheduledAt))) {
+        throw validationError('scheduledAt must be an ISO 8601 date');
+      }
+    }
+
+    const createdAt = new Date().toISOString();
+    const task: ScheduledTask = {
+      id: this.nextId('task'),
+      name: options.name,
+      url: options.url,
+      type: options.type,
+      status: 'pending',
+      scheduledAt: options.scheduledAt || createdAt,
+      frequency: options.frequency || (options.cron ? 'cron' : 'once'),
+      cron: options.cron,
+      timezone: options.timezone,
+      options: options.options,
+      webhookUrl: options.webhookUrl,
+      tags: options.tags,
+      nextRunAt: options.scheduledAt,
+      createdAt,
+    };
+
+    this.schedules.set(task.id, {
+      task,
+      options: options.options,
+      webhookUrl: options.webhookUrl,
+      paused: false,
+      runs: [],
+    });
+    return task;
+  }
+
+  /**
+   * Count down a triggered run and execute it once its polls are used up
+   */
+  private pollSchedule(record: ScheduleRecord): ScheduleRecord {
+    if (record.pendingPolls !== undefined && --record.pendingPolls <= 0) {
+      record.pendingPolls = undefined;
+      this.runSchedule(record);
+    }
+    return record;
+  }
+
+  private runSchedule(record: ScheduleRecord): ScheduledTask {
+    const { task } = record;
+    const startedAt = new Date().toISOString();
+    const run: ScheduleRun = { id: this.nextId('run'), status: 'completed', startedAt, completedAt: startedAt };
+
+    try {
+      const options = { ...record.options, url: task.url };
+      run.resultId = task.type === 'scrape'
+        ? this.scrapeJob(options as ScrapeOptions, 'schedule').id
+        : task.type === 'pdf'
+          ? this.runPdf(options as PdfOptions, 'schedule').id
+          : this.runScreenshot(options as ScreenshotOptions, 'schedule').id;
+      task.status = 'completed';
+      task.resultId = run.resultId;
+      task.error = undefined;
+    } catch (error) {
+      run.status = 'failed';
+      run.error = (error as Error).message;
+      task.status = 'failed';
+      task.error = run.error;
+    }
+
+    run.completedAt = new Date().toISOString();
+    record.runs.push(run);
+    task.lastRunAt = run.completedAt;
+    return task;
+  }
+
+  private createMonitor(options: MonitorOptions): Monitor {
+    if (!options?.name) {
+      throw validationError('name is required');
+    }
+    requireUrl(options.url);
+
+    const monitor: Monitor = {
+      id: this.nextId('monitor'),
+      name: options.name,
+      url: options.url,
+      monitorType: options.monitorType || 'full_page',
+      selector: options.selector,
+      prompt: options.prompt,
+      checkInterval: options.checkInterval || 'hourly',
+      status: 'active',
+      nextCheckAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      consecutiveErrors: 0,
+      notifyOnlyOnChanges: options.notifyOnlyOnChanges ?? true,
+      includeScreenshot: options.includeScreenshot ?? false,
+      alertChannels: (options.alertChannels || []).map((channel) => this.createChannel(channel)),
+      alertRules: options.alertRules,
+      alertRuleMode: options.alertRules ? options.alertRuleMode || 'any' : undefined,
+      tags: options.tags,
+      _count: { checks: 0, alerts: 0 },
+      createdAt: new Date().toISOString(),
+    };
+
+    this.monitors.set(monitor.id, { monitor, checks: [], snapshots: [], alerts: [] });
+    return monitor;
+  }
+
+  private createChannel(options: AlertChannelOptions): AlertChannel {
+    const required = { email: 'email', slack: 'slackWebhookUrl', webhook: 'webhookUrl' } as const;
+    const field = required[options?.type];
+    if (!field) {
+      throw validationError('type must be email, slack or webhook');
+    }
+    if (!options[field]) {
+      throw validationError(`${field} is required for ${options.type} channels`);
+    }
+    return { ...options, id: this.nextId('channel'), isEnabled: options.isEnabled ?? true };
+  }
+
+  private findChannel(monitorId: string, channelId: string): AlertChannel {
+    const channel = find(this.monitors, monitorId, 'Monitor').monitor.alertChannels
+      .find((candidate) => candidate.id === channelId);
+    if (!channel) {
+      throw notFound('Alert channel');
+    }
+    return channel;
+  }
+
+  private runCheck(record: MonitorRecord): MonitorCheck {
+    const { monitor } = record;
+    const content = this.monitorContent(monitor, record.checks.length + 1);
+    const previous = record.snapshots[record.snapshots.length - 1];
+    const check: MonitorCheck = {
+      id: this.nextId('check'),
+      status: 'success',
+      changeDetected: previous !== undefined && previous.content !== content,
+      checkedAt: new Date().toISOString(),
+      responseTimeMs: 120,
+    };
+    if (check.changeDetected) {
+      check.changeSummary = 'Content changed';
+    }
+
+    record.checks.push(check);
+    record.snapshots.push({
+      checkId: check.id,
+      checkedAt: check.checkedAt,
+      content,
+      screenshotUrl: monitor.includeScreenshot ? `${FILES_URL}/monitors/${monitor.id}/${check.id}.png` : undefined,
+    });
+    monitor.lastCheckAt = check.checkedAt;
+
+    if (check.changeDetected || !monitor.notifyOnlyOnChanges) {
+      for (const channel of monitor.alertChannels.filter((candidate) => candidate.isEnabled)) {
+        record.alerts.push({
+          id: this.nextId('alert'),
+          channelType: channel.type,
+          success: true,
+          sentAt: check.checkedAt,
+          check: { checkedAt: check.checkedAt, changeSummary: check.changeSummary },
+        });
+      }
+    }
+
+    monitor._count = { checks: record.checks.length, alerts: record.alerts.length };
+    return check;
+  }
+
+  private checkDiff(record: MonitorRecord, checkId: string): MonitorCheckDiff {
+    const index = record.snapshots.findIndex((snapshot) => snapshot.checkId === checkId);
+    if (index === -1) {
+      throw notFound('Check');
+    }
+    const { monitor } = record;
+    const check = record.checks[index];
+
+    return {
+      monitorId: monitor.id,
+      monitorName: monitor.name,
+      url: monitor.url,
+      monitorType: monitor.monitorType,
+      checkId,
+      changeDetected: check.changeDetected,
+      changeSummary: check.changeSummary,
+      previous: record.snapshots[index - 1],
+      current: record.snapshots[index],
+    };
+  }
+
+  private addItem(
+    record: SessionRecord,
+    type: DeepResearchItem['type'],
+    title: string,
+    content: string,
+    sourceUrl?: string
+  ): DeepResearchItem {
+    const item: DeepResearchItem = {
+      id: this.nextId('item'),
+      type,
+      title,
+      sourceUrl,
+      preview: content.slice(0, 200),
+      addedAt: new Date().toISOString(),
+    };
+
+    record.items.push({ item, content });
+    record.session.itemCount = record.items.length;
+    record.session.updatedAt = item.addedAt;
+    return item;
+  }
+
+  private chat(record: SessionRecord, message: string | undefined): ChatResponse {
+    if (!message) {
+      throw validationError('message is required');
+    }
+
+    const sources = record.items.slice(0, 3).map(({ item, content }) => ({
+      itemId: item.id,
+      title: item.title,
+      excerpt: content.slice(0, 120),
+    }));
+    const response: ChatResponse = {
+      message: sources.length === 0
+        ? 'This session has no sources yet. Add scrape results or text to get answers.'
+        : `Based on ${sources.map((_, i) => `[${i + 1}]`).join(' ')}: ${sources[0].excerpt}`,
+      sources,
+    };
+
+    const timestamp = new Date().toISOString();
+    record.history.push(
+      { role: 'user', content: message, timestamp },
+      { role: 'assistant', content: response.message, timestamp, sources }
+    );
+    return response;
+  }
+
+  private analyze(record: SessionRecord, options: { type?: AnalysisResult['type'] }): AnalysisResult {
+    const type = options.type || 'summary';
+    const titles = record.items.map(({ item }) => `- ${item.title}`).join('\n');
+
+    return {
+      analysis: `# ${type[0].toUpperCase()}${type.slice(1)}\n\n${record.items.length} sources analysed.\n\n${titles}`,
+      type,
+      sources: record.items.map(({ item }) => ({ itemId: item.id, title: item.title })),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  // ===========================================================================
+  // Credits
+  // ===========================================================================
+
+  private remainingCredits(): number {
+    return this.subscriptionCredits + this.purchasedCredits;
+  }
+
+  private requireCredits(amount: number): void {
+    if (this.remainingCredits() < amount) {
+      throw new FakeHttpError(402, 'Insufficient credits', 'INSUFFICIENT_CREDITS', {
+        creditsRequired: amount,
+        creditsRemaining: this.remainingCredits(),
+      });
+    }
+  }
+
+  private charge(type: CreditUsage['type'], amount: number, resourceId: string, url: string): number {
+    this.requireCredits(amount);
+
+    const fromSubscription = Math.min(amount, this.subscriptionCredits);
+    this.subscriptionCredits -= fromSubscription;
+    this.purchasedCredits -= amount - fromSubscription;
+    this.creditsUsed += amount;
+
+    this.usage.push({
+      id: this.nextId('usage'),
+      type,
+      amount,
+      resourceId,
+      url,
+      createdAt: new Date().toISOString(),
+    });
+    return amount;
+  }
+
+  private credits(): Credits {
+    return {
+      remaining: this.remainingCredits(),
+      subscription: this.subscriptionCredits,
+      purchased: this.purchasedCredits,
+      used: this.creditsUsed,
+      refreshAt: this.periodEnd,
+    };
+  }
+
+  private usageBetween(start?: string | null, end?: string | null): CreditUsage[] {
+    return this.usage.filter((record) =>
+      (!start || record.createdAt >= new Date(start).toISOString())
+      && (!end || record.createdAt <= new Date(end).toISOString()));
+  }
+
+  private summary(query: URLSearchParams) {
+    const periods: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+    const end = query.get('endDate') || new Date().toISOString();
+    const start = query.get('startDate')
+      || new Date(Date.parse(end) - (periods[query.get('period') || 'month'] ?? 30) * DAY_MS).toISOString();
+
+    const byType = { scrape: 0, pdf: 0, screenshot: 0, schedule: 0 };
+    for (const record of this.usageBetween(start, end)) {
+      byType[record.type] += record.amount;
+    }
+
+    return {
+      totalUsed: Object.values(byType).reduce((sum, amount) => sum + amount, 0),
+      byType,
+      period: { start, end },
+    };
+  }
+
+  private usageInfo(): UsageInfo {
+    return {
+      credits_remaining: this.remainingCredits(),
+      credits_used_this_month: this.creditsUsed,
+      subscription_credits: this.subscriptionCredits,
+      purchased_credits: this.purchasedCredits,
+      plan: this.plan,
+      subscription: { status: 'active', current_period_end: this.periodEnd },
+      api_requests_today: this.apiRequestsToday,
+    };
+  }
+
+  private nextId(prefix: string): string {
+    const next = (this.counters.get(prefix) || 0) + 1;
+    this.counters.set(prefix, next);
+    return `${prefix}_${next}`;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse a JSON or multipart request body. Uploaded files become
+ * `UploadedFile` values.
+ */
+async function parseBody(init: RequestInit, contentType: string | undefined): Promise<unknown> {
+  if (!init.body) {
+    return undefined;
+  }
+  if (typeof init.body === 'string') {
+    return JSON.parse(init.body);
+  }
+
+  const form = await new Response(init.body, { headers: { 'Content-Type': contentType || '' } }).formData();
+  const fields: Record<string, string | UploadedFile> = {};
+  for (const [name, value] of form.entries()) {
+    fields[name] = typeof value === 'string'
+      ? value
+      : { name: value.name, type: value.type, bytes: new Uint8Array(await value.arrayBuffer()) };
+  }
+  return fields;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Preferred streaming format in an `Accept` header, if any
+ */
+function streamingFormat(accept: string | undefined): 'sse' | 'ndjson' | undefined {
+  const types = (accept || '').split(',').map((type) => type.split(';')[0].trim());
+  const type = types.find((candidate) => candidate === 'text/event-stream' || candidate === 'application/x-ndjson');
+  return type === undefined ? undefined : type === 'text/event-stream' ? 'sse' : 'ndjson';
+}
+
+/**
+ * Stream a chat or analysis payload word by word, then its sources and the
+ * complete payload. Each event is produced only when the client reads it.
+ */
+function eventStream(format: 'sse' | 'ndjson', payload: Record<string, unknown>): Response {
+  const text = String(payload.message ?? payload.analysis ?? '');
+  const events = [
+    ...(text.match(/\S+\s*|\s+/g) || []).map((word) => ({ event: 'delta', data: { text: word } })),
+    ...((payload.sources as unknown[]) || []).map((source) => ({ event: 'source', data: source })),
+    { event: 'done', data: payload },
+  ];
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = events.shift();
+      if (!next) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(format === 'sse'
+        ? `event: ${next.event}\ndata: ${JSON.stringify(next.data)}\n\n`
+        : `${JSON.stringify(next)}\n`));
+    },
+  }, { highWaterMark: 0 });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson' },
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0 && !signal?.aborted) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function paginated<T>(items: T[], query: URLSearchParams): PaginatedResponse<T> {
+  const page = Math.max(1, parseInt(query.get('page') || '1', 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(query.get('limit') || '20', 10) || 20));
+  const totalPages = Math.ceil(items.length / limit);
+
+  return {
+    data: items.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total: items.length, totalPages, hasMore: page < totalPages },
+  };
+}
+
+function find<T>(map: Map<string, T>, id: string, resource: string): T {
+  const value = map.get(id);
+  if (!value) {
+    throw notFound(resource);
+  }
+  return value;
+}
+
+function remove<T>(map: Map<string, T>, id: string, resource: string): void {
+  find(map, id, resource);
+  map.delete(id);
+}
+
+function pick<T extends object, K extends keyof T>(value: T, keys: K[]): Partial<Pick<T, K>> {
+  return Object.fromEntries(keys.filter((key) => value[key] !== undefined).map((key) => [key, value[key]])) as Partial<Pick<T, K>>;
+}
+
+function notFound(resource: string): FakeHttpError {
+  return new FakeHttpError(404, `${resource} not found`, 'NOT_FOUND');
+}
+
+function validationError(message: string): FakeHttpError {
+  return new FakeHttpError(400, message, 'VALIDATION_ERROR');
+}
+
+function requireUrl(url: unknown): void {
+  if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+    throw validationError('url must be an absolute http(s) URL');
+  }
+}
+
+function requireUrls(urls: unknown): asserts urls is string[] {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    throw validationError('urls must be a non-empty array');
+  }
+  urls.forEach(requireUrl);
+}
+
+function downloadUrl(url: string): { url: string; expiresAt: string } {
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  return { url: `${url}?expires=${encodeURIComponent(expiresAt)}`, expiresAt };
+}
+
+function toPdfResult(pdf: SavedPdf, creditsUsed: number): PdfResult {
+  return {
+    id: pdf.id,
+    pdfUrl: pdf.pdfUrl,
+    fileSize: pdf.fileSize,
+    pageCount: pdf.pageCount,
+    generatedAt: pdf.createdAt,
+    creditsUsed,
+  };
+}
+
+function toScreenshotResult(screenshot: SavedScreenshot, creditsUsed: number): ScreenshotResult {
+  return {
+    id: screenshot.id,
+    imageUrl: screenshot.imageUrl,
+    fileSize: screenshot.fileSize,
+    dimensions: screenshot.dimensions,
+    capturedAt: screenshot.createdAt,
+    creditsUsed,
+  };
+}
+
+function defaultMonitorContent(monitor: Monitor): string {
+  if (monitor.monitorType === 'api_response') {
+    return JSON.stringify({ url: monitor.url, status: 'ok' });
+  }
+  return monitor.monitorType === 'selector' ? `Content of ${monitor.selector}` : `Example page at ${monitor.url}`;
+}
+
+function defaultScrapeData(request: ScrapeOptions): Record<string, unknown>[] {
+  const fields = request.extract ? Object.keys(request.extract) : request.columns || ['title', 'url'];
+  return [Object.fromEntries(fields.map((field) => [field, field === 'url' ? request.url : `${field} 1`]))];
+}
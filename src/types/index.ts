@@ -3,6 +3,10 @@
  * @packageDocumentation
  */
 
+import type { ScrapebitError } from '../utils/errors';
+import type { RateLimiter } from '../utils/rateLimiter';
+import type { ResponseCache, CacheStore } from '../utils/cache';
+
 // =============================================================================
 // Configuration Types
 // =============================================================================
@@ -24,21 +28,365 @@ export interface ScrapebitConfig {
   timeout?: number;
 
   /**
-   * Number of retry attempts on failure
+   * Number of retry attempts on failure.
+   * Ignored when `retryPolicy.maxAttempts` is set.
    * @default 3
    */
   retries?: number;
 
+  /**
+   * Fine-grained control over which failures are retried and how long to wait
+   */
+  retryPolicy?: RetryPolicy;
+
   /**
    * Custom headers to include in all requests
    */
   headers?: Record<string, string>;
+
+  /**
+   * Client-side rate limiter. Requests wait for a token instead of
+   * failing with a 429. Pass a `RateLimiter` instance to share one budget
+   * between several clients.
+   */
+  rateLimiter?: RateLimiter | RateLimiterOptions;
+
+  /**
+   * Middleware run around every request, in order
+   */
+  middleware?: Middleware[];
+
+  /**
+   * `fetch` implementation used for requests, e.g. a fake server in tests
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Opt-in cache for scrape, extract, PDF and screenshot results. Pass a
+   * `ResponseCache` instance to share one cache between several clients.
+   */
+  cache?: ResponseCache | CacheOptions;
+}
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /**
+   * HTTP method
+   */
+  method: string;
+
+  /**
+   * API endpoint, e.g. `/scrape`
+   */
+  endpoint: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * Request headers, including `Authorization`
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request body before JSON serialization
+   */
+  body?: unknown;
+
+  /**
+   * Attempt number, starting at 1
+   */
+  attempt: number;
+}
+
+/**
+ * Received response as seen by middleware
+ */
+export interface MiddlewareResponse {
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * Response headers
+   */
+  headers: Headers;
+
+  /**
+   * Parsed JSON body, or `undefined` if the body was not JSON
+   */
+  data: unknown;
+
+  /**
+   * Time between sending the request and parsing the body
+   */
+  durationMs: number;
+}
+
+/**
+ * Hooks run around every HTTP request
+ *
+ * `beforeRequest` hooks run in registration order; `afterResponse` and
+ * `onError` hooks run in reverse order, so the first middleware wraps all
+ * the others. Hooks run once per attempt, including retries.
+ */
+export interface Middleware {
+  /**
+   * Name used in debugging output
+   */
+  name?: string;
+
+  /**
+   * Inspect or modify a request before it is sent.
+   * Return a new request to replace it.
+   */
+  beforeRequest?: (
+    request: MiddlewareRequest
+  ) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+
+  /**
+   * Inspect or modify any HTTP response, including error statuses.
+   * Return a new response to replace it.
+   */
+  afterResponse?: (
+    response: MiddlewareResponse,
+    request: MiddlewareRequest
+  ) => MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+
+  /**
+   * Inspect or rewrite an error. Return a new error to replace it; the
+   * replacement also decides whether the request is retried.
+   */
+  onError?: (
+    error: ScrapebitError,
+    request: MiddlewareRequest
+  ) => ScrapebitError | void | Promise<ScrapebitError | void>;
+}
+
+/**
+ * Retry behaviour for failed requests
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one
+   * @default retries + 1
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds; doubles on every retry
+   * @default 1000
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the backoff delay in milliseconds
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomisation applied to the backoff delay.
+   * `full` picks a delay between 0 and the backoff, `equal` between half
+   * the backoff and the backoff, `none` uses the backoff as is.
+   * @default 'full'
+   */
+  jitter?: 'none' | 'full' | 'equal';
+
+  /**
+   * Error classes that are retried
+   * @default [NetworkError, TimeoutError, ServerError, RateLimitError]
+   */
+  retryableErrors?: Array<new (...args: never[]) => ScrapebitError>;
+
+  /**
+   * HTTP status codes that are retried, in addition to `retryableErrors`
+   * @default []
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Wait for the duration given by the `Retry-After` header of a 429 response
+   * instead of the backoff delay
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Give up instead of waiting when `Retry-After` asks for longer than this
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * Called before each retry, e.g. for logging
+   */
+  onRetry?: (context: RetryContext) => void;
+}
+
+/**
+ * Information passed to `RetryPolicy.onRetry`
+ */
+export interface RetryContext {
+  /**
+   * Number of the attempt about to be made (2 for the first retry)
+   */
+  attempt: number;
+
+  /**
+   * Error that caused the retry
+   */
+  error: ScrapebitError;
+
+  /**
+   * Milliseconds to wait before the next attempt
+   */
+  delayMs: number;
+
+  /**
+   * HTTP method of the request
+   */
+  method: string;
+
+  /**
+   * API endpoint of the request
+   */
+  endpoint: string;
+}
+
+/**
+ * Token bucket configuration for the client-side rate limiter
+ */
+export interface RateLimiterOptions {
+  /**
+   * Maximum number of tokens the bucket holds (burst size)
+   */
+  capacity: number;
+
+  /**
+   * Tokens added every `intervalMs`
+   * @default capacity
+   */
+  refillAmount?: number;
+
+  /**
+   * Refill interval in milliseconds
+   * @default 1000
+   */
+  intervalMs?: number;
+
+  /**
+   * Tokens available when the limiter is created
+   * @default capacity
+   */
+  initialTokens?: number;
+}
+
+/**
+ * Configuration for the response cache
+ */
+export interface CacheOptions {
+  /**
+   * Where entries are kept
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+
+  /**
+   * How long entries stay fresh, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  ttlMs?: number;
+
+  /**
+   * Prefix for every key, to keep several caches apart in one store
+   * @default 'scrapebit'
+   */
+  namespace?: string;
+
+  /**
+   * Called when the store fails. The call then goes to the API as if the
+   * entry was missing.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Per-call cache control
+ */
+export interface CacheControl {
+  /**
+   * How long to keep the result of this call, in milliseconds
+   * @default cache `ttlMs`
+   */
+  ttlMs?: number;
+
+  /**
+   * Neither read nor write the cache for this call
+   */
+  bypass?: boolean;
+
+  /**
+   * Skip the cached entry, call the API and store the new result
+   */
+  refresh?: boolean;
 }
 
 // =============================================================================
 // Common Types
 // =============================================================================
 
+/**
+ * Per-call options accepted by every API method
+ */
+export interface CallOptions {
+  /**
+   * Cancel the request, including pending retries.
+   * A cancelled call rejects with an `AbortError`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Request timeout in milliseconds for this call, per attempt
+   * @default client `timeout`
+   */
+  timeout?: number;
+
+  /**
+   * Idempotency key sent with mutating requests. The same key is reused
+   * for every retry of the call; a random key is generated if omitted.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Number of retry attempts for this call
+   * @default client `retries` or `retryPolicy.maxAttempts`
+   */
+  retries?: number;
+
+  /**
+   * Called before each retry of this call, after `retryPolicy.onRetry`
+   */
+  onRetry?: (context: RetryContext) => void;
+}
+
+/**
+ * Per-call options for methods that can be served from the response cache
+ */
+export interface CacheableCallOptions extends CallOptions {
+  /**
+   * Cache control for this call. Has no effect unless the client has a
+   * `cache` configured.
+   */
+  cache?: CacheControl;
+}
+
 /**
  * Pagination options for list requests
  */
@@ -56,6 +404,61 @@ export interface PaginationOptions {
   limit?: number;
 }
 
+/**
+ * Options for iterating over every item of a paginated endpoint
+ */
+export interface PaginateOptions {
+  /**
+   * Number of items to request per page
+   * @default API default (20)
+   */
+  pageSize?: number;
+
+  /**
+   * Stop after yielding this many items
+   */
+  maxItems?: number;
+
+  /**
+   * Stop iterating when this signal is aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for waiting on an asynchronous job
+ */
+export interface PollOptions {
+  /**
+   * Give up with a `TimeoutError` after this many milliseconds in total
+   * @default 300000
+   */
+  timeout?: number;
+
+  /**
+   * Delay before the second check in milliseconds
+   * @default 1000
+   */
+  pollInterval?: number;
+
+  /**
+   * Longest delay between checks in milliseconds
+   * @default 30000
+   */
+  maxPollInterval?: number;
+
+  /**
+   * Factor the delay grows by after each check
+   * @default 1.5
+   */
+  backoff?: number;
+
+  /**
+   * Stop waiting when this signal is aborted
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Paginated response wrapper
  */
@@ -107,12 +510,13 @@ export interface ScrapeOptions {
   prompt?: string;
 
   /**
-   * Structured extraction schema
+   * Structured extraction schema mapping field names to descriptions.
+   * Cannot be combined with `columns`.
    */
   extract?: Record<string, string>;
 
   /**
-   * Specific column names to extract
+   * Specific column names to extract. Cannot be combined with `extract`.
    */
   columns?: string[];
 
@@ -166,7 +570,7 @@ export interface ScrapeOptions {
 /**
  * Result of a scrape operation
  */
-export interface ScrapeResult {
+export interface ScrapeResult<T = Record<string, unknown>> {
   /**
    * Whether the scrape was successful
    */
@@ -175,7 +579,7 @@ export interface ScrapeResult {
   /**
    * Extracted data as array of objects
    */
-  data: Record<string, unknown>[];
+  data: T[];
 
   /**
    * Column headers detected/extracted
@@ -206,6 +610,54 @@ export interface ScrapeResult {
    * Human-readable error message
    */
   message?: string;
+
+  /**
+   * Whether the API replayed a stored response for the idempotency key
+   * instead of running the scrape again (no credits were charged)
+   */
+  replayed?: boolean;
+
+  /**
+   * Whether the result came from the local response cache (no request was
+   * made). Only set when the client has a cache.
+   */
+  cached?: boolean;
+
+  /**
+   * When a cached result was stored
+   */
+  cachedAt?: string;
+}
+
+/**
+ * A problem found while validating an extracted row against a schema
+ */
+export interface SchemaIssue {
+  /**
+   * Path to the offending value, e.g. `price` or `variants[2].sku`
+   */
+  path: string;
+
+  /**
+   * Human-readable description of the problem
+   */
+  message: string;
+}
+
+/**
+ * Result of a schema-driven extraction
+ */
+export interface SchemaScrapeResult<T> extends ScrapeResult<T> {
+  /**
+   * Validation problems for each row, aligned with `data`.
+   * Rows with a non-empty list do not conform to `T`.
+   */
+  issues: SchemaIssue[][];
+
+  /**
+   * Whether every row conforms to the schema
+   */
+  valid: boolean;
 }
 
 /**
@@ -220,6 +672,194 @@ export interface SavedScrape {
   status: 'completed' | 'failed';
 }
 
+// =============================================================================
+// Bulk Types
+// =============================================================================
+
+/**
+ * Options for running a bulk job over many URLs
+ */
+export interface BulkOptions<T> {
+  /**
+   * Number of URLs sent per batch request
+   * @default 25
+   */
+  chunkSize?: number;
+
+  /**
+   * Maximum number of batch requests in flight at once
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * How many times a failed URL is retried on its own. The URL is sent
+   * again with one idempotency key, and only network, timeout, server and
+   * rate limit errors are retried more than once.
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Called every time a URL succeeds or fails for good. If it throws, no
+   * new requests are started and the job rejects with the error once the
+   * requests in flight have finished.
+   */
+  onProgress?: (progress: BulkProgress<T>) => void;
+
+  /**
+   * Stop starting new requests when this signal is aborted.
+   * URLs that were not processed fail with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a single URL in a bulk job. `attempts` counts the batch
+ * request once, plus every request made for the URL on its own.
+ */
+export type BulkOutcome<T> =
+  | { ok: true; url: string; result: T; attempts: number }
+  | { ok: false; url: string; error: ScrapebitError; attempts: number };
+
+/**
+ * Progress event emitted by a bulk job
+ */
+export interface BulkProgress<T> {
+  /**
+   * Number of distinct URLs in the job
+   */
+  total: number;
+
+  /**
+   * Number of URLs that finished, successfully or not
+   */
+  completed: number;
+
+  /**
+   * Number of URLs that succeeded so far
+   */
+  succeeded: number;
+
+  /**
+   * Number of URLs that failed so far
+   */
+  failed: number;
+
+  /**
+   * The outcome that triggered this event
+   */
+  outcome: BulkOutcome<T>;
+}
+
+/**
+ * Result of a bulk job
+ */
+export interface BulkResult<T> {
+  /**
+   * Outcome for every distinct input URL, in input order
+   */
+  results: Map<string, BulkOutcome<T>>;
+
+  /**
+   * Number of URLs that succeeded
+   */
+  succeeded: number;
+
+  /**
+   * Number of URLs that failed
+   */
+  failed: number;
+}
+
+// =============================================================================
+// Schema Types
+// =============================================================================
+
+interface BaseSchemaField {
+  /**
+   * Description sent to the AI to explain what the field holds
+   */
+  description?: string;
+
+  /**
+   * Whether the field may be missing or null
+   */
+  optional?: boolean;
+}
+
+/**
+ * Schema field holding a string
+ */
+export interface StringSchemaField extends BaseSchemaField {
+  type: 'string';
+}
+
+/**
+ * Schema field holding a number
+ */
+export interface NumberSchemaField extends BaseSchemaField {
+  type: 'number';
+}
+
+/**
+ * Schema field holding a boolean
+ */
+export interface BooleanSchemaField extends BaseSchemaField {
+  type: 'boolean';
+}
+
+/**
+ * Schema field holding a list of values
+ */
+export interface ArraySchemaField<I extends SchemaField = SchemaField> extends BaseSchemaField {
+  type: 'array';
+  items: I;
+}
+
+/**
+ * Schema field holding a nested object
+ */
+export interface ObjectSchemaField<S extends SchemaShape = SchemaShape> extends BaseSchemaField {
+  type: 'object';
+  fields: S;
+}
+
+/**
+ * Any schema field
+ */
+export type SchemaField =
+  | StringSchemaField
+  | NumberSchemaField
+  | BooleanSchemaField
+  | ArraySchemaField
+  | ObjectSchemaField;
+
+/**
+ * Map of field names to schema fields describing one extracted row
+ */
+export type SchemaShape = Record<string, SchemaField>;
+
+/**
+ * TypeScript type of a value described by a schema field
+ */
+export type InferSchemaField<F> =
+  F extends StringSchemaField ? string :
+  F extends NumberSchemaField ? number :
+  F extends BooleanSchemaField ? boolean :
+  F extends ArraySchemaField<infer I> ? InferSchemaField<I>[] :
+  F extends ObjectSchemaField<infer S> ? InferSchema<S> :
+  unknown;
+
+/**
+ * TypeScript type of a row described by a schema
+ */
+export type InferSchema<S extends SchemaShape> = {
+  [K in keyof S as S[K] extends { optional: true } ? never : K]: InferSchemaField<S[K]>;
+} & {
+  [K in keyof S as S[K] extends { optional: true } ? K : never]?: InferSchemaField<S[K]> | null;
+};
+
 // =============================================================================
 // PDF Types
 // =============================================================================
@@ -319,6 +959,23 @@ export interface PdfResult {
    * Credits used
    */
   creditsUsed: number;
+
+  /**
+   * Whether the API replayed a stored response for the idempotency key
+   * instead of running the job again (no credits were charged)
+   */
+  replayed?: boolean;
+
+  /**
+   * Whether the result came from the local response cache (no request was
+   * made). Only set when the client has a cache.
+   */
+  cached?: boolean;
+
+  /**
+   * When a cached result was stored
+   */
+  cachedAt?: string;
 }
 
 // =============================================================================
@@ -415,6 +1072,23 @@ export interface ScreenshotResult {
    * Credits used
    */
   creditsUsed: number;
+
+  /**
+   * Whether the API replayed a stored response for the idempotency key
+   * instead of running the job again (no credits were charged)
+   */
+  replayed?: boolean;
+
+  /**
+   * Whether the result came from the local response cache (no request was
+   * made). Only set when the client has a cache.
+   */
+  cached?: boolean;
+
+  /**
+   * When a cached result was stored
+   */
+  cachedAt?: string;
 }
 
 // =============================================================================
@@ -422,9 +1096,9 @@ export interface ScreenshotResult {
 // =============================================================================
 
 /**
- * Schedule frequency
+ * Schedule frequency. `'cron'` schedules run on their `cron` expression.
  */
-export type ScheduleFrequency = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly';
+export type ScheduleFrequency = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'cron';
 
 /**
  * Type of scheduled task
@@ -435,6 +1109,11 @@ export type ScheduleTaskType = 'scrape' | 'pdf' | 'screenshot';
  * Options for creating a scheduled task
  */
 export interface ScheduleOptions {
+  /**
+   * Display name for the task
+   */
+  name?: string;
+
   /**
    * URL to process
    */
@@ -446,16 +1125,30 @@ export interface ScheduleOptions {
   type: ScheduleTaskType;
 
   /**
-   * When to run (ISO 8601 format)
+   * When to run (ISO 8601 format). Required unless `cron` is set; for cron
+   * schedules it is the earliest time a run can happen.
    */
-  scheduledAt: string;
+  scheduledAt?: string;
 
   /**
    * Repeat frequency
-   * @default 'once'
+   * @default 'once', or 'cron' when `cron` is set
    */
   frequency?: ScheduleFrequency;
 
+  /**
+   * Five-field cron expression (minute hour day-of-month month
+   * day-of-week), e.g. `'0 9 * * 1-5'` for weekdays at 09:00
+   */
+  cron?: string;
+
+  /**
+   * IANA time zone that `cron` and the wall-clock time of `scheduledAt`
+   * are interpreted in, e.g. `'Europe/Berlin'`
+   * @default 'UTC'
+   */
+  timezone?: string;
+
   /**
    * Task-specific options
    */
@@ -465,6 +1158,11 @@ export interface ScheduleOptions {
    * Webhook URL to notify on completion
    */
   webhookUrl?: string;
+
+  /**
+   * Free-form labels, e.g. a `sync:` tag for `schedule.sync`
+   */
+  tags?: string[];
 }
 
 /**
@@ -472,11 +1170,17 @@ export interface ScheduleOptions {
  */
 export interface ScheduledTask {
   id: string;
+  name?: string;
   url: string;
   type: ScheduleTaskType;
   status: 'pending' | 'running' | 'completed' | 'failed';
   scheduledAt: string;
   frequency: ScheduleFrequency;
+  cron?: string;
+  timezone?: string;
+  options?: ScrapeOptions | PdfOptions | ScreenshotOptions;
+  webhookUrl?: string;
+  tags?: string[];
   lastRunAt?: string;
   nextRunAt?: string;
   resultId?: string;
@@ -484,6 +1188,27 @@ export interface ScheduledTask {
   createdAt: string;
 }
 
+/**
+ * A single execution of a scheduled task
+ */
+export interface ScheduleRun {
+  id: string;
+  status: 'completed' | 'failed';
+  startedAt: string;
+  completedAt: string;
+  resultId?: string;
+  error?: string;
+}
+
+/**
+ * A finished run of a scheduled task with the result it produced, typed by
+ * the task's `type`
+ */
+export type CompletedScheduleRun =
+  | { type: 'scrape'; task: ScheduledTask; run: ScheduleRun; result: ScrapeResult }
+  | { type: 'pdf'; task: ScheduledTask; run: ScheduleRun; result: PdfResult }
+  | { type: 'screenshot'; task: ScheduledTask; run: ScheduleRun; result: ScreenshotResult };
+
 // =============================================================================
 // Credits Types
 // =============================================================================
@@ -619,8 +1344,128 @@ export interface AlertChannelOptions {
    * Custom headers for webhook
    */
   webhookHeaders?: Record<string, string>;
+
+  /**
+   * Minimum time between two alerts on this channel, in minutes. Alerts
+   * within the window are dropped.
+   */
+  debounceMinutes?: number;
+
+  /**
+   * Daily window in which this channel sends no alerts
+   */
+  quietHours?: QuietHours;
+
+  /**
+   * Whether the channel sends alerts. `monitoring.sync` leaves the
+   * current state alone when this is not set.
+   * @default true
+   */
+  isEnabled?: boolean;
+}
+
+/**
+ * Daily window without alerts. A window whose end is before its start
+ * spans midnight, e.g. `{ start: '22:00', end: '07:00' }`.
+ */
+export interface QuietHours {
+  /**
+   * Start time, `HH:MM` in 24-hour format
+   */
+  start: string;
+
+  /**
+   * End time (exclusive), `HH:MM` in 24-hour format
+   */
+  end: string;
+
+  /**
+   * IANA time zone the times are in
+   * @default 'UTC'
+   */
+  timezone?: string;
+}
+
+/**
+ * Alert on a number in the checked content, e.g. a price
+ *
+ * `above` and `below` compare the current value with `value`. `increase`,
+ * `decrease` and `change` compare the difference from the previous check,
+ * in absolute terms or in percent of the previous value.
+ */
+export interface ThresholdAlertRule {
+  type: 'threshold';
+  condition: 'above' | 'below' | 'increase' | 'decrease' | 'change';
+  value: number;
+
+  /**
+   * Unit of `value` for `increase`, `decrease` and `change`
+   * @default 'absolute'
+   */
+  unit?: 'absolute' | 'percent';
+
+  /**
+   * JSONPath to the number, for `api_response` monitors (required there)
+   */
+  path?: string;
+
+  /**
+   * Regular expression locating the number in text content; its first
+   * capture group (or the whole match) is parsed. Defaults to the first
+   * number in the content.
+   */
+  pattern?: string;
+}
+
+/**
+ * Alert when a regular expression matches the checked content
+ */
+export interface RegexAlertRule {
+  type: 'regex';
+  pattern: string;
+
+  /**
+   * Regular expression flags, e.g. `'i'`. `g` and `y` are not allowed.
+   */
+  flags?: string;
+
+  /**
+   * `matches` and `not_matches` test the current content; `appears` and
+   * `disappears` also require the opposite for the previous check
+   * @default 'matches'
+   */
+  condition?: 'matches' | 'not_matches' | 'appears' | 'disappears';
+}
+
+/**
+ * Alert on a value in the JSON response of an `api_response` monitor
+ */
+export interface JsonPathAlertRule {
+  type: 'jsonpath';
+
+  /**
+   * JSONPath to the value, e.g. `$.items[0].stock`. Supports `.key`,
+   * `['key']`, `[index]` and `[*]`.
+   */
+  path: string;
+
+  /**
+   * `equals` and `not_equals` compare with `value` (`not_equals` also
+   * matches a missing value); `changed` compares with the previous check
+   */
+  condition: 'exists' | 'missing' | 'equals' | 'not_equals' | 'changed';
+
+  /**
+   * Value to compare with for `equals` and `not_equals`
+   */
+  value?: unknown;
 }
 
+/**
+ * Condition a check must meet before alerts are sent
+ */
+export type AlertRule = ThresholdAlertRule | RegexAlertRule | JsonPathAlertRule;
+
 /**
  * Alert channel configuration
  */
@@ -688,6 +1533,23 @@ export interface MonitorOptions {
    * Alert channels to notify
    */
   alertChannels?: AlertChannelOptions[];
+
+  /**
+   * Conditions for sending alerts, on top of `notifyOnlyOnChanges`. A
+   * check alerts only if the rules match (see `alertRuleMode`).
+   */
+  alertRules?: AlertRule[];
+
+  /**
+   * Whether any rule or every rule must match
+   * @default 'any'
+   */
+  alertRuleMode?: 'any' | 'all';
+
+  /**
+   * Free-form labels, e.g. a `sync:` tag for `monitoring.sync`
+   */
+  tags?: string[];
 }
 
 /**
@@ -759,11 +1621,31 @@ export interface Monitor {
    */
   notifyOnlyOnChanges: boolean;
 
+  /**
+   * Whether alerts include a screenshot
+   */
+  includeScreenshot?: boolean;
+
   /**
    * Configured alert channels
    */
   alertChannels: AlertChannel[];
 
+  /**
+   * Conditions for sending alerts
+   */
+  alertRules?: AlertRule[];
+
+  /**
+   * Whether any rule or every rule must match
+   */
+  alertRuleMode?: 'any' | 'all';
+
+  /**
+   * Labels set on the monitor
+   */
+  tags?: string[];
+
   /**
    * Count statistics
    */
@@ -813,6 +1695,55 @@ export interface MonitorCheck {
   responseTimeMs?: number;
 }
 
+/**
+ * Content a monitor captured during one check
+ */
+export interface MonitorSnapshot {
+  /**
+   * Check that captured the content
+   */
+  checkId: string;
+
+  /**
+   * When the check was performed
+   */
+  checkedAt: string;
+
+  /**
+   * Page text for `full_page` and `selector` monitors, or the response
+   * body for `api_response` monitors
+   */
+  content: string;
+
+  /**
+   * Screenshot taken during the check (when `includeScreenshot` is on)
+   */
+  screenshotUrl?: string;
+}
+
+/**
+ * Content of a check and of the check before it
+ */
+export interface MonitorCheckDiff {
+  monitorId: string;
+  monitorName: string;
+  url: string;
+  monitorType: MonitorType;
+  checkId: string;
+  changeDetected: boolean;
+  changeSummary?: string;
+
+  /**
+   * Snapshot of the previous successful check; missing for the first check
+   */
+  previous?: MonitorSnapshot;
+
+  /**
+   * Snapshot of this check
+   */
+  current: MonitorSnapshot;
+}
+
 /**
  * Alert sent from a monitor
  */
@@ -864,3 +1795,17 @@ export interface WebhookMonitorPayload {
     check: MonitorCheck;
   };
 }
+
+/**
+ * Any webhook payload sent by Scrapebit, discriminated on `event`
+ */
+export type WebhookEvent =
+  | WebhookScrapePayload
+  | WebhookPdfPayload
+  | WebhookScreenshotPayload
+  | WebhookMonitorPayload;
+
+/**
+ * Name of a webhook event
+ */
+export type WebhookEventType = WebhookEvent['event'];
@@ -0,0 +1,426 @@
+/**
+ * Monitor alert rules - Client-side validation and local evaluation
+ */
+
+import type {
+  AlertChannelOptions,
+  AlertRule,
+  JsonPathAlertRule,
+  MonitorCheckDiff,
+  MonitorType,
+  QuietHours,
+  RegexAlertRule,
+  ThresholdAlertRule,
+} from '../types';
+import { ValidationError } from './errors';
+import { validateTimezone, wallClock } from './cron';
+import { isEqual } from './sync';
+
+/**
+ * Content of a check, and of the check before it, to evaluate rules against
+ */
+export interface AlertRuleSample {
+  previous?: string;
+  current: string;
+}
+
+/**
+ * Outcome of one rule
+ */
+export interface AlertRuleResult {
+  rule: AlertRule;
+  matched: boolean;
+
+  /**
+   * Readable explanation, e.g. `80 -> 70 (-12.5%)`
+   */
+  reason: string;
+}
+
+/**
+ * Outcome of a monitor's rules
+ */
+export interface AlertEvaluation {
+  /**
+   * Whether the check would send alerts
+   */
+  matched: boolean;
+  results: AlertRuleResult[];
+}
+
+const CONDITIONS = {
+  threshold: ['above', 'below', 'increase', 'decrease', 'change'],
+  regex: ['matches', 'not_matches', 'appears', 'disappears'],
+  jsonpath: ['exists', 'missing', 'equals', 'not_equals', 'changed'],
+} as const;
+
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check alert rules before they are sent. With a `monitorType`, rules that
+ * need JSON content are only allowed for `api_response` monitors.
+ *
+ * @throws {ValidationError} With the offending field, e.g. `alertRules[1].pattern`
+ */
+export function validateAlertRules(rules: AlertRule[], monitorType?: MonitorType): void {
+  if (!Array.isArray(rules)) {
+    throw new ValidationError('alertRules must be an array', 'alertRules');
+  }
+  rules.forEach((rule, i) => validateRule(rule, `alertRules[${i}]`, monitorType));
+}
+
+/**
+ * Check the debounce and quiet hours of an alert channel
+ *
+ * @throws {ValidationError} With the offending field, e.g. `alertChannels[0].quietHours.start`
+ */
+export function validateAlertChannel(channel: Partial<AlertChannelOptions>, field = 'alertChannel'): void {
+  const { debounceMinutes, quietHours } = channel;
+  if (debounceMinutes !== undefined && !(Number.isInteger(debounceMinutes) && debounceMinutes > 0)) {
+    throw new ValidationError(`${field}.debounceMinutes must be a positive integer`, `${field}.debounceMinutes`);
+  }
+  if (quietHours === undefined) {
+    return;
+  }
+
+  for (const key of ['start', 'end'] as const) {
+    if (typeof quietHours[key] !== 'string' || !TIME.test(quietHours[key])) {
+      throw new ValidationError(`${field}.quietHours.${key} must be a time like "22:00"`, `${field}.quietHours.${key}`);
+    }
+  }
+  if (quietHours.start === quietHours.end) {
+    throw new ValidationError(`${field}.quietHours must not start and end at the same time`, `${field}.quietHours`);
+  }
+  if (quietHours.timezone !== undefined) {
+    try {
+      validateTimezone(quietHours.timezone);
+    } catch {
+      throw new ValidationError(`Unknown time zone "${quietHours.timezone}"`, `${field}.quietHours.timezone`);
+    }
+  }
+}
+
+function validateRule(rule: AlertRule, field: string, monitorType?: MonitorType): void {
+  const conditions: readonly string[] | undefined = CONDITIONS[rule?.type];
+  if (!conditions) {
+    throw new ValidationError(`${field}.type must be threshold, regex or jsonpath`, `${field}.type`);
+  }
+  const condition = rule.type === 'regex' ? rule.condition ?? 'matches' : rule.condition;
+  if (!conditions.includes(condition)) {
+    throw new ValidationError(`${field}.condition must be one of ${conditions.join(', ')}`, `${field}.condition`);
+  }
+  const json = monitorType === undefined || monitorType === 'api_response';
+
+  switch (rule.type) {
+    case 'threshold':
+      if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+        throw new ValidationError(`${field}.value must be a number`, `${field}.value`);
+      }
+      if (rule.unit !== undefined && rule.unit !== 'absolute' && rule.unit !== 'percent') {
+        throw new ValidationError(`${field}.unit must be absolute or percent`, `${field}.unit`);
+      }
+      if (rule.condition === 'above' || rule.condition === 'below') {
+        if (rule.unit === 'percent') {
+          throw new ValidationError(`${field}.unit "percent" only applies to increase, decrease and change`, `${field}.unit`);
+        }
+      } else if (rule.value < 0) {
+        throw new ValidationError(`${field}.value must not be negative for ${rule.condition}`, `${field}.value`);
+      }
+      if (rule.path !== undefined && rule.pattern !== undefined) {
+        throw new ValidationError(`${field} takes a path or a pattern, not both`, `${field}.path`);
+      }
+      if (rule.path !== undefined) {
+        if (!json) {
+          throw new ValidationError(`${field}.path needs an api_response monitor`, `${field}.path`);
+        }
+        parseJsonPath(rule.path, `${field}.path`);
+      } else if (monitorType === 'api_response') {
+        throw new ValidationError(`${field}.path is required for api_response monitors`, `${field}.path`);
+      }
+      if (rule.pattern !== undefined) {
+        compileRegex(rule.pattern, undefined, `${field}.pattern`);
+      }
+      return;
+
+    case 'regex':
+      compileRegex(rule.pattern, rule.flags, `${field}.pattern`);
+      return;
+
+    case 'jsonpath':
+      if (!json) {
+        throw new ValidationError(`${field} needs an api_response monitor`, `${field}.type`);
+      }
+      parseJsonPath(rule.path, `${field}.path`);
+      if ((rule.condition === 'equals' || rule.condition === 'not_equals') && rule.value === undefined) {
+        throw new ValidationError(`${field}.value is required for ${rule.condition}`, `${field}.value`);
+      }
+      return;
+  }
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Evaluate a monitor's alert rules locally against sample content, e.g.
+ * to try rules out before attaching them. Without rules, every check
+ * matches.
+ *
+ * @example
+ * ```typescript
+ * const rules: AlertRule[] = [{ type: 'threshold', condition: 'decrease', value: 10, unit: 'percent' }];
+ *
+ * evaluateAlertRules(rules, { previous: 'Price: $80', current: 'Price: $70' });
+ * // { matched: true, results: [{ rule, matched: true, reason: '80 -> 70 (-12.5%)' }] }
+ *
+ * // Or against a real check
+ * evaluateAlertRules(rules, await scrapebit.monitoring.getCheckDiff('mon_abc123', 'chk_xyz789'));
+ * ```
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  sample: AlertRuleSample | MonitorCheckDiff,
+  mode: 'any' | 'all' = 'any'
+): AlertEvaluation {
+  validateAlertRules(rules);
+  const results = rules.map((rule) => evaluateAlertRule(rule, sample));
+  const matched = results.length === 0
+    || (mode === 'all' ? results.every((result) => result.matched) : results.some((result) => result.matched));
+  return { matched, results };
+}
+
+/**
+ * Evaluate a single alert rule locally against sample content
+ *
+ * @example
+ * ```typescript
+ * evaluateAlertRule(
+ *   { type: 'jsonpath', path: '$.stock', condition: 'equals', value: 0 },
+ *   { current: '{"stock":0}' }
+ * ).matched; // true
+ * ```
+ */
+export function evaluateAlertRule(rule: AlertRule, sample: AlertRuleSample | MonitorCheckDiff): AlertRuleResult {
+  const content = typeof sample.current === 'string'
+    ? sample as AlertRuleSample
+    : { previous: (sample as MonitorCheckDiff).previous?.content, current: (sample as MonitorCheckDiff).current.content };
+
+  switch (rule.type) {
+    case 'threshold':
+      return evaluateThreshold(rule, content);
+    case 'regex':
+      return evaluateRegex(rule, content);
+    case 'jsonpath':
+      return evaluateJsonPath(rule, content);
+  }
+}
+
+/**
+ * Whether quiet hours are in effect at a moment
+ *
+ * @example
+ * ```typescript
+ * isQuietTime({ start: '22:00', end: '07:00', timezone: 'Europe/Berlin' }, new Date('2024-01-15T23:30:00Z'));
+ * // true (00:30 in Berlin)
+ * ```
+ */
+export function isQuietTime(quietHours: QuietHours, at: Date = new Date()): boolean {
+  const wall = new Date(wallClock(at.getTime(), quietHours.timezone || 'UTC'));
+  const now = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+  const start = minutes(quietHours.start);
+  const end = minutes(quietHours.end);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+function evaluateThreshold(rule: ThresholdAlertRule, sample: AlertRuleSample): AlertRuleResult {
+  const current = extractNumber(rule, sample.current);
+  if (current === undefined) {
+    return { rule, matched: false, reason: 'no number in the current content' };
+  }
+  if (rule.condition === 'above' || rule.condition === 'below') {
+    const matched = rule.condition === 'above' ? current > rule.value : current < rule.value;
+    return { rule, matched, reason: `${current} is ${matched ? '' : 'not '}${rule.condition} ${rule.value}` };
+  }
+
+  const previous = sample.previous === undefined ? undefined : extractNumber(rule, sample.previous);
+  if (previous === undefined) {
+    return { rule, matched: false, reason: 'no number in the previous content' };
+  }
+  const percent = rule.unit === 'percent';
+  if (percent && previous === 0) {
+    return { rule, matched: false, reason: `${previous} -> ${current} (no percent change from 0)` };
+  }
+
+  const delta = percent ? ((current - previous) / Math.abs(previous)) * 100 : current - previous;
+  const measured = rule.condition === 'increase' ? delta : rule.condition === 'decrease' ? -delta : Math.abs(delta);
+  const rounded = Math.round(delta * 100) / 100;
+  return {
+    rule,
+    matched: measured > rule.value,
+    reason: `${previous} -> ${current} (${rounded > 0 ? '+' : ''}${rounded}${percent ? '%' : ''})`,
+  };
+}
+
+function evaluateRegex(rule: RegexAlertRule, sample: AlertRuleSample): AlertRuleResult {
+  const regex = compileRegex(rule.pattern, rule.flags, 'pattern');
+  const now = regex.test(sample.current);
+  const before = sample.previous === undefined ? undefined : regex.test(sample.previous);
+  const condition = rule.condition ?? 'matches';
+
+  const matched = condition === 'matches' ? now
+    : condition === 'not_matches' ? !now
+      : condition === 'appears' ? now && before === false
+        : !now && before === true;
+  const describe = (matches: boolean | undefined, label: string) =>
+    matches === undefined ? `no ${label} content` : `${matches ? 'matches' : 'does not match'} the ${label} content`;
+  const reason = condition === 'matches' || condition === 'not_matches'
+    ? `${regex} ${describe(now, 'current')}`
+    : `${regex} ${describe(now, 'current')}, ${describe(before, 'previous')}`;
+  return { rule, matched, reason };
+}
+
+function evaluateJsonPath(rule: JsonPathAlertRule, sample: AlertRuleSample): AlertRuleResult {
+  const current = parseJson(sample.current);
+  if (!current) {
+    return { rule, matched: false, reason: 'the current content is not JSON' };
+  }
+  const values = queryJsonPath(current.value, rule.path);
+  const found = values.length === 0 ? `${rule.path} is missing` : `${rule.path} is ${formatValues(values)}`;
+
+  switch (rule.condition) {
+    case 'exists':
+      return { rule, matched: values.length > 0, reason: found };
+    case 'missing':
+      return { rule, matched: values.length === 0, reason: found };
+    case 'equals':
+    case 'not_equals': {
+      const equal = values.some((value) => isEqual(value, rule.value));
+      return { rule, matched: rule.condition === 'equals' ? equal : !equal, reason: found };
+    }
+    case 'changed': {
+      const previous = sample.previous === undefined ? undefined : parseJson(sample.previous);
+      if (!previous) {
+        return { rule, matched: false, reason: 'no previous JSON content' };
+      }
+      const before = queryJsonPath(previous.value, rule.path);
+      return {
+        rule,
+        matched: !isEqual(before, values),
+        reason: `${rule.path}: ${formatValues(before)} -> ${formatValues(values)}`,
+      };
+    }
+  }
+}
+
+/**
+ * The number a threshold rule looks at, from JSON via `path`, or from text
+ * via `pattern` or as the first number
+ */
+function extractNumber(rule: ThresholdAlertRule, content: string): number | undefined {
+  let text: string | undefined = content;
+  if (rule.path !== undefined) {
+    const [value] = queryJsonPath(parseJson(content)?.value, rule.path);
+    if (typeof value === 'number') {
+      return value;
+    }
+    text = typeof value === 'string' ? value : undefined;
+  } else if (rule.pattern !== undefined) {
+    const match = compileRegex(rule.pattern, undefined, 'pattern').exec(content);
+    text = match ? match[1] ?? match[0] : undefined;
+  }
+
+  const number = text?.match(/-?\d[\d,]*(?:\.\d+)?/);
+  return number ? Number(number[0].replace(/,/g, '')) : undefined;
+}
+
+// =============================================================================
+// JSONPath
+// =============================================================================
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+/**
+ * Values a JSONPath selects. Supports `.key`, `['key']`, `[index]`, `.*`
+ * and `[*]`.
+ *
+ * @example
+ * ```typescript
+ * queryJsonPath({ items: [{ price: 10 }, { price: 12 }] }, '$.items[*].price'); // [10, 12]
+ * ```
+ */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  return parseJsonPath(path, 'path').reduce<unknown[]>((values, segment) => values.flatMap((current) => {
+    if ('wildcard' in segment) {
+      return Array.isArray(current) ? current : isObject(current) ? Object.values(current) : [];
+    }
+    if ('index' in segment) {
+      return Array.isArray(current) && segment.index < current.length ? [current[segment.index]] : [];
+    }
+    return isObject(current) && Object.prototype.hasOwnProperty.call(current, segment.key) ? [current[segment.key]] : [];
+  }), value === undefined ? [] : [value]);
+}
+
+function parseJsonPath(path: string, field: string): PathSegment[] {
+  if (typeof path !== 'string' || !path.startsWith('$')) {
+    throw new ValidationError(`${field} must be a JSONPath starting with "$"`, field);
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest) {
+    let match: RegExpExecArray | null;
+    if ((match = /^\.([A-Za-z_$][\w$]*)/.exec(rest))) {
+      segments.push({ key: match[1] });
+    } else if ((match = /^(\.\*|\[\*\])/.exec(rest))) {
+      segments.push({ wildcard: true });
+    } else if ((match = /^\[(\d+)\]/.exec(rest))) {
+      segments.push({ index: Number(match[1]) });
+    } else if ((match = /^\[(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\]/.exec(rest))) {
+      segments.push({ key: (match[1] ?? match[2]).replace(/\\(.)/g, '$1') });
+    } else {
+      throw new ValidationError(`${field} has unsupported JSONPath syntax at "${rest}"`, field);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+function compileRegex(pattern: string, flags: string | undefined, field: string): RegExp {
+  if (typeof pattern !== 'string' || pattern === '') {
+    throw new ValidationError(`${field} must be a non-empty regular expression`, field);
+  }
+  if (flags && /[gy]/.test(flags)) {
+    throw new ValidationError(`${field} flags must not include g or y`, field);
+  }
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    throw new ValidationError(`${field} is not a valid regular expression: ${(error as Error).message}`, field);
+  }
+}
+
+function parseJson(text: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatValues(values: unknown[]): string {
+  return values.length === 1 ? JSON.stringify(values[0]) : JSON.stringify(values);
+}
+
+function minutes(time: string): number {
+  const [, hours, mins] = TIME.exec(time) || [];
+  return Number(hours) * 60 + Number(mins);
+}
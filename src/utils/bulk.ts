@@ -0,0 +1,201 @@
+/**
+ * Bulk job runner - Process thousands of URLs through the batch endpoints
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { BulkOptions, BulkOutcome, BulkResult, CallOptions } from '../types';
+import {
+  ScrapebitError,
+  AbortError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  RateLimitError,
+} from './errors';
+
+/**
+ * Operations a bulk job is built from
+ */
+export interface BulkHandlers<T> {
+  /**
+   * Process one chunk of URLs; results must be in the same order as `urls`
+   */
+  batch: (urls: string[]) => Promise<T[]>;
+
+  /**
+   * Process a single URL, used to retry failed items on their own. Pass
+   * `options` on to the request: they carry the item's idempotency key
+   * and how often the HTTP client may retry it.
+   */
+  single: (url: string, options: CallOptions) => Promise<T>;
+
+  /**
+   * Inspect a result that came back without an exception and return an
+   * error if it actually represents a failure
+   */
+  check?: (result: T) => ScrapebitError | null;
+}
+
+/**
+ * Run a bulk job: split URLs into chunks, process chunks concurrently,
+ * and retry failed URLs individually
+ *
+ * Individual retries share the worker pool with the remaining chunks, so
+ * at most `concurrency` requests are in flight at once.
+ */
+export async function runBulk<T>(
+  urls: string[],
+  handlers: BulkHandlers<T>,
+  options: BulkOptions<T> = {}
+): Promise<BulkResult<T>> {
+  const { chunkSize = 25, concurrency = 4, retries = 2, onProgress, signal } = options;
+
+  if (!Array.isArray(urls) || urls.length === 0) {
+    throw new ValidationError('urls must be a non-empty array', 'urls');
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new ValidationError('chunkSize must be a positive integer', 'chunkSize');
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValidationError('concurrency must be a positive integer', 'concurrency');
+  }
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new ValidationError('retries must be a non-negative integer', 'retries');
+  }
+
+  const unique = [...new Set(urls)];
+  const chunks: string[][] = [];
+  for (let i = 0; i < unique.length; i += chunkSize) {
+    chunks.push(unique.slice(i, i + chunkSize));
+  }
+
+  const outcomes = new Map<string, BulkOutcome<T>>();
+  let succeeded = 0;
+  let failed = 0;
+  let progressError: { error: unknown } | undefined;
+
+  const settle = (outcome: BulkOutcome<T>) => {
+    outcomes.set(outcome.url, outcome);
+    if (outcome.ok) {
+      succeeded++;
+    } else {
+      failed++;
+    }
+    try {
+      onProgress?.({
+        total: unique.length,
+        completed: succeeded + failed,
+        succeeded,
+        failed,
+        outcome,
+      });
+    } catch (error) {
+      progressError ??= { error };
+    }
+  };
+
+  const queue: Array<() => Promise<void>> = [];
+
+  const retryItem = async (url: string) => {
+    if (signal?.aborted) {
+      settle({ ok: false, url, error: new AbortError(), attempts: 1 });
+      return;
+    }
+
+    let attempts = 2;
+    const onRetry = () => { attempts++; };
+    let outcome: BulkOutcome<T>;
+    try {
+      const result = await handlers.single(url, { signal, idempotencyKey: randomUUID(), retries: retries - 1, onRetry });
+      const checkError = checkResult(handlers, result);
+      outcome = checkError ? { ok: false, url, error: checkError, attempts } : { ok: true, url, result, attempts };
+    } catch (retryError) {
+      outcome = { ok: false, url, error: toScrapebitError(retryError), attempts };
+    }
+    settle(outcome);
+  };
+
+  const processChunk = async (chunk: string[]) => {
+    if (signal?.aborted) {
+      chunk.forEach((url) => settle({ ok: false, url, error: new AbortError(), attempts: 0 }));
+      return;
+    }
+
+    let results: T[] | undefined;
+    let batchError: ScrapebitError | undefined;
+
+    try {
+      results = await handlers.batch(chunk);
+    } catch (error) {
+      batchError = toScrapebitError(error);
+    }
+
+    chunk.forEach((url, i) => {
+      // Items the API reported as failed are always worth another try
+      const error = batchError ?? checkResult(handlers, results?.[i]);
+      if (!error) {
+        settle({ ok: true, url, result: results![i], attempts: 1 });
+      } else if (retries > 0 && (!batchError || isRetryable(batchError))) {
+        queue.push(() => retryItem(url));
+      } else {
+        settle({ ok: false, url, error, attempts: 1 });
+      }
+    });
+  };
+
+  queue.push(...chunks.map((chunk) => () => processChunk(chunk)));
+
+  // Chunks and individual retries share `concurrency` slots. Once
+  // onProgress throws, nothing new starts and the job rejects when the
+  // requests in flight are done.
+  let running = 0;
+  await new Promise<void>((resolve, reject) => {
+    const pump = () => {
+      if (running === 0 && (queue.length === 0 || progressError)) {
+        if (progressError) {
+          reject(progressError.error);
+        } else {
+          resolve();
+        }
+        return;
+      }
+      while (!progressError && running < concurrency && queue.length > 0) {
+        running++;
+        queue.shift()!().then(() => {
+          running--;
+          pump();
+        }, reject);
+      }
+    };
+    pump();
+  });
+
+  const results = new Map<string, BulkOutcome<T>>();
+  for (const url of unique) {
+    results.set(url, outcomes.get(url)!);
+  }
+
+  return { results, succeeded, failed };
+}
+
+function checkResult<T>(handlers: BulkHandlers<T>, result: T | undefined): ScrapebitError | null {
+  if (result === undefined || result === null) {
+    return new ScrapebitError('No result returned for URL', 'MISSING_RESULT');
+  }
+  return handlers.check?.(result) ?? null;
+}
+
+function isRetryable(error: ScrapebitError): boolean {
+  return error instanceof NetworkError
+    || error instanceof TimeoutError
+    || error instanceof ServerError
+    || error instanceof RateLimitError;
+}
+
+function toScrapebitError(error: unknown): ScrapebitError {
+  if (error instanceof ScrapebitError) {
+    return error;
+  }
+  return new ScrapebitError(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,352 @@
+/**
+ * Response cache for scrape, extract, PDF and screenshot results
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheControl, CacheOptions, CacheableCallOptions } from '../types';
+import { ValidationError } from './errors';
+import type { HttpClient } from './http';
+
+/**
+ * Storage backend for the response cache
+ *
+ * Values are JSON strings. Implement this interface on top of a shared
+ * store (e.g. Redis `GET` and `SET key value PX ttl`) to share a cache
+ * between processes.
+ */
+export interface CacheStore {
+  /**
+   * Read a value, or `undefined`/`null` if missing or expired
+   */
+  get(key: string): string | undefined | null | Promise<string | undefined | null>;
+
+  /**
+   * Store a value for `ttlMs` milliseconds
+   */
+  set(key: string, value: string, ttlMs: number): void | Promise<void>;
+
+  /**
+   * Remove a value
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Entry as serialized into the store
+ */
+interface StoredEntry {
+  value: unknown;
+  storedAt: string;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * Process-local cache store that expires entries lazily
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  /**
+   * @param maxEntries - Oldest entries are dropped beyond this count
+   */
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache store keeping one JSON file per entry in a directory, so results
+ * survive restarts
+ *
+ * @example
+ * ```typescript
+ * const scrapebit = new Scrapebit(apiKey, {
+ *   cache: { store: new FileCacheStore('.scrapebit-cache'), ttlMs: 24 * 60 * 60 * 1000 }
+ * });
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    let text: string;
+    try {
+      text = await readFile(this.pathFor(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const { value, expiresAt } = JSON.parse(text) as { value: string; expiresAt: number };
+    if (expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write then rename, so readers never see a partial file
+    const path = this.pathFor(key);
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify({ key, value, expiresAt: Date.now() + ttlMs }), 'utf8');
+    await rename(temporary, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathFor(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Remove every entry in the directory
+   */
+  async clear(): Promise<void> {
+    const files = await readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => unlink(join(this.directory, file)).catch(() => undefined)));
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+// =============================================================================
+// Response Cache
+// =============================================================================
+
+/**
+ * Cache of API results keyed by account, operation, normalized URL and
+ * options
+ *
+ * Share one instance between several clients to give them a common cache.
+ * Clients only share entries when they use the same API key and base URL.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({ store: new FileCacheStore('.cache'), ttlMs: 15 * 60 * 1000 });
+ * const scrapebit = new Scrapebit(apiKey, { cache });
+ *
+ * const first = await scrapebit.content.scrape({ url, prompt });   // first.cached === false
+ * const second = await scrapebit.content.scrape({ url, prompt });  // second.cached === true
+ *
+ * await scrapebit.content.scrape({ url, prompt }, { cache: { refresh: true } });
+ * await cache.invalidate('scrape', { url, prompt }, cacheScope(apiKey));
+ * ```
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number;
+  private readonly namespace: string;
+  private readonly onError?: (error: unknown) => void;
+
+  constructor(options: CacheOptions = {}) {
+    validateTtl(options.ttlMs, 'ttlMs');
+
+    this.store = options.store || new MemoryCacheStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.namespace = options.namespace || 'scrapebit';
+    this.onError = options.onError;
+  }
+
+  /**
+   * Cache key for an operation and its request options
+   *
+   * The `url` option is normalized (host case, default port, fragment and
+   * query parameter order do not matter) and the other options are
+   * compared regardless of key order. `scope` keeps the entries of
+   * different accounts and API hosts apart; see {@link cacheScope}.
+   */
+  key(operation: string, params: object, scope: string): string {
+    const normalized = { ...params } as Record<string, unknown>;
+    if (typeof normalized.url === 'string') {
+      normalized.url = normalizeUrl(normalized.url);
+    }
+
+    const hash = createHash('sha256').update(`${scope}\n${stableStringify(normalized)}`).digest('hex');
+    return `${this.namespace}:${operation}:${hash}`;
+  }
+
+  /**
+   * Return the cached result for a call, or load, store and return it
+   *
+   * Results are marked with `cached` and, for hits, `cachedAt`.
+   *
+   * @throws {ValidationError} If `control.ttlMs` is not a positive number
+   */
+  async wrap<T extends object>(
+    scope: string,
+    operation: string,
+    params: object,
+    control: CacheControl | undefined,
+    load: () => Promise<T>
+  ): Promise<T & { cached: boolean; cachedAt?: string }> {
+    validateTtl(control?.ttlMs, 'cache.ttlMs');
+    if (control?.bypass) {
+      return { ...(await load()), cached: false };
+    }
+
+    const key = this.key(operation, params, scope);
+    if (!control?.refresh) {
+      const entry = await this.read(key);
+      if (entry) {
+        return { ...(entry.value as T), cached: true, cachedAt: entry.storedAt };
+      }
+    }
+
+    const value = await load();
+    if ((value as { success?: boolean }).success !== false) {
+      await this.write(key, value, control?.ttlMs ?? this.ttlMs);
+    }
+    return { ...value, cached: false };
+  }
+
+  /**
+   * Remove the cached result of a call made with the given API key
+   *
+   * @example
+   * ```typescript
+   * await cache.invalidate('pdf', { url: 'https://example.com/report', format: 'a4' }, cacheScope(apiKey));
+   * ```
+   */
+  async invalidate(operation: string, params: object, scope: string): Promise<void> {
+    await this.store.delete(this.key(operation, params, scope));
+  }
+
+  private async read(key: string): Promise<StoredEntry | undefined> {
+    try {
+      const text = await this.store.get(key);
+      if (!text) {
+        return undefined;
+      }
+
+      const entry = JSON.parse(text) as StoredEntry;
+      return entry.expiresAt > Date.now() ? entry : undefined;
+    } catch (error) {
+      this.onError?.(error);
+      return undefined;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const entry: StoredEntry = { value, storedAt: new Date().toISOString(), expiresAt: Date.now() + ttlMs };
+
+    try {
+      await this.store.set(key, JSON.stringify(entry), ttlMs);
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+}
+
+/**
+ * Cache scope of an API key and base URL, so clients of different accounts
+ * or API hosts never read each other's entries. The key is hashed and
+ * never stored.
+ *
+ * @example
+ * ```typescript
+ * const scope = cacheScope('sb_live_your_api_key');
+ * ```
+ */
+export function cacheScope(apiKey: string, baseUrl = 'https://api.scrapebit.com/v1'): string {
+  return createHash('sha256').update(`${baseUrl}\n${apiKey}`).digest('hex');
+}
+
+/**
+ * Serve a call from the client's cache when one is configured
+ */
+export function withCache<T extends object>(
+  http: Pick<HttpClient, 'cache' | 'cacheScope'>,
+  operation: string,
+  params: object,
+  callOptions: CacheableCallOptions | undefined,
+  load: () => Promise<T>
+): Promise<T> {
+  return http.cache ? http.cache.wrap(http.cacheScope, operation, params, callOptions?.cache, load) : load();
+}
+
+/**
+ * Normalize a URL so equivalent spellings share a cache entry
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  return parsed.href;
+}
+
+function validateTtl(ttlMs: number | undefined, field: string): void {
+  if (ttlMs !== undefined && !(Number.isFinite(ttlMs) && ttlMs > 0)) {
+    throw new ValidationError(`${field} must be a positive number`, field);
+  }
+}
+
+/**
+ * JSON with object keys sorted and `undefined` values dropped
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, nested]) => nested !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
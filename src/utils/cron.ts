@@ -0,0 +1,323 @@
+/**
+ * Cron expressions and time zones for scheduled tasks
+ */
+
+import type { ScheduleOptions } from '../types';
+import { ValidationError } from './errors';
+
+/**
+ * A parsed five-field cron expression
+ */
+export interface CronExpression {
+  expression: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+
+  /**
+   * Whether day of month and day of week were both restricted, in which
+   * case a day matching either runs (standard cron behaviour)
+   */
+  eitherDay: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * How far ahead to look for runs before giving up, e.g. for `0 0 30 2 *`
+ */
+const SEARCH_YEARS = 5;
+
+/**
+ * Parse a cron expression: five fields (minute, hour, day of month,
+ * month, day of week) with `*`, lists, ranges, steps and `JAN`/`MON`
+ * names, or a macro such as `@daily`
+ *
+ * @example
+ * ```typescript
+ * parseCron('0 9 * * MON-FRI');  // weekdays at 09:00
+ * parseCron('@hourly');
+ * ```
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`,
+      'cron'
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i], expression));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  // `*` and `?` leave a day field unrestricted
+  const restricted = (field: string) => !field.startsWith('*') && !field.startsWith('?');
+
+  return {
+    expression: source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    eitherDay: restricted(fields[2]) && restricted(fields[4]),
+  };
+}
+
+/**
+ * Throw a `ValidationError` unless `timezone` is an IANA time zone name
+ * the runtime knows, e.g. `Europe/Berlin`
+ */
+export function validateTimezone(timezone: string): void {
+  try {
+    formatterFor(timezone);
+  } catch {
+    throw new ValidationError(`Unknown time zone "${timezone}"`, 'timezone');
+  }
+}
+
+/**
+ * Upcoming run times of a cron expression, strictly after `from`
+ *
+ * Wall-clock times that a daylight saving change skips do not run; times
+ * it repeats run once.
+ *
+ * @example
+ * ```typescript
+ * nextCronRuns('0 9 * * 1-5', { timezone: 'Europe/Berlin', count: 3 });
+ * ```
+ */
+export function nextCronRuns(
+  expression: string | CronExpression,
+  options: { timezone?: string; from?: Date; count?: number } = {}
+): Date[] {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const timezone = options.timezone || 'UTC';
+  const count = options.count ?? 1;
+  const from = (options.from || new Date()).getTime();
+  validateTimezone(timezone);
+
+  const runs: Date[] = [];
+  let wall = Math.floor(wallClock(from, timezone) / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = wall + SEARCH_YEARS * 366 * DAY_MS;
+  let last = from;
+
+  while (runs.length < count && wall <= limit) {
+    const date = new Date(wall);
+    const [year, month, day, hour] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()];
+
+    if (!cron.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(cron, date)) {
+      wall = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+    } else {
+      if (cron.minutes.has(date.getUTCMinutes())) {
+        const instant = toInstant(wall, timezone);
+        if (instant !== undefined && instant > last) {
+          runs.push(new Date(instant));
+          last = instant;
+        }
+      }
+      wall += MINUTE_MS;
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Upcoming run times of a schedule, at or after its `scheduledAt` and
+ * strictly after `from`
+ *
+ * Daily, weekly and monthly schedules keep the wall-clock time of
+ * `scheduledAt` in the schedule's time zone across daylight saving
+ * changes. Monthly runs on days a month lacks move to its last day.
+ */
+export function scheduleRuns(
+  schedule: Pick<ScheduleOptions, 'scheduledAt' | 'frequency' | 'cron' | 'timezone'>,
+  count: number,
+  from: Date = new Date()
+): Date[] {
+  const timezone = schedule.timezone || 'UTC';
+  const start = schedule.scheduledAt ? Date.parse(schedule.scheduledAt) : undefined;
+  const after = Math.max(from.getTime(), start === undefined ? -Infinity : start - 1);
+
+  if (schedule.cron) {
+    return nextCronRuns(schedule.cron, { timezone, from: new Date(after), count });
+  }
+  if (start === undefined) {
+    return [];
+  }
+  validateTimezone(timezone);
+
+  const frequency = schedule.frequency || 'once';
+  if (frequency === 'once') {
+    return start > after ? [new Date(start)].slice(0, count) : [];
+  }
+  if (frequency === 'hourly') {
+    const first = Math.max(0, Math.ceil((after + 1 - start) / HOUR_MS));
+    return Array.from({ length: count }, (_, i) => new Date(start + (first + i) * HOUR_MS));
+  }
+
+  // Step in wall-clock time, starting a little before `after`
+  const wall = new Date(wallClock(start, timezone));
+  const periodMs = frequency === 'daily' ? DAY_MS : frequency === 'weekly' ? 7 * DAY_MS : 31 * DAY_MS;
+  const runs: Date[] = [];
+
+  for (let k = Math.max(0, Math.floor((after - start) / periodMs) - 1); runs.length < count; k++) {
+    const next = frequency === 'monthly'
+      ? addMonths(wall, k)
+      : wall.getTime() + k * (frequency === 'daily' ? 1 : 7) * DAY_MS;
+    const instant = toInstant(next, timezone);
+    if (instant !== undefined && instant > after) {
+      runs.push(new Date(instant));
+    }
+  }
+  return runs;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const invalid = (part: string) => new ValidationError(
+    `Invalid cron ${spec.name} "${part}" in "${expression}" (allowed ${spec.min}-${spec.max})`,
+    'cron'
+  );
+  const value = (text: string, part: string): number => {
+    const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const number = index !== -1 ? index + spec.min : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!(number >= spec.min && number <= spec.max)) {
+      throw invalid(part);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1 || !/^\d*$/.test(stepText ?? '')) {
+      throw invalid(part);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*' || range === '?') {
+      [low, high] = [spec.min, spec.max];
+    } else if (range.includes('-')) {
+      const bounds = range.split('-');
+      if (bounds.length !== 2) {
+        throw invalid(part);
+      }
+      [low, high] = [value(bounds[0], part), value(bounds[1], part)];
+      if (low > high) {
+        throw invalid(part);
+      }
+    } else {
+      low = value(range, part);
+      high = stepText === undefined ? low : spec.max;
+    }
+
+    for (let v = low; v <= high; v += step) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  return cron.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function addMonths(wall: Date, months: number): number {
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(wall.getUTCDate(), lastDay), wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds());
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time in `timezone` at an instant, as milliseconds since the
+ * epoch read as UTC
+ */
+export function wallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timezone).formatToParts(new Date(instant))) {
+    parts[type] = Number(value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second)
+    + (instant - Math.floor(instant / 1000) * 1000);
+}
+
+/**
+ * First instant at which `timezone` shows a wall-clock time, or `undefined`
+ * if a daylight saving change skips it
+ */
+function toInstant(wall: number, timezone: string): number | undefined {
+  // The UTC offsets a day either side cover any change around `wall`
+  const candidates = [wall - DAY_MS, wall + DAY_MS]
+    .map((probe) => wall - (wallClock(probe, timezone) - probe))
+    .filter((instant) => wallClock(instant, timezone) === wall);
+  return candidates.length > 0 ? Math.min(...candidates) : undefined;
+}
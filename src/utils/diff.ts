@@ -0,0 +1,458 @@
+/**
+ * Local diffs of monitor snapshots - Line and JSON diffs with unified and
+ * HTML rendering
+ */
+
+import type { MonitorCheckDiff, MonitorSnapshot } from '../types';
+
+/**
+ * One line of a line diff
+ */
+export interface LineChange {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+
+  /**
+   * 1-based line number in the previous content (equal and removed lines)
+   */
+  oldLine?: number;
+
+  /**
+   * 1-based line number in the current content (equal and added lines)
+   */
+  newLine?: number;
+}
+
+/**
+ * A value that was added, removed or changed between two JSON documents
+ */
+export interface JsonChange {
+  type: 'added' | 'removed' | 'changed';
+
+  /**
+   * Location of the value, e.g. `$.items[0].price`
+   */
+  path: string;
+
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Differences between the snapshots of a monitor check
+ */
+export interface SnapshotDiff extends MonitorCheckDiff {
+  /**
+   * Line diff of the content. JSON responses are pretty-printed first.
+   */
+  lines: LineChange[];
+
+  /**
+   * Structural diff, for `api_response` monitors whose content is JSON
+   */
+  json?: JsonChange[];
+
+  /**
+   * Screenshot of the current check, if one was taken
+   */
+  screenshotUrl?: string;
+}
+
+/**
+ * Options for unified diffs
+ */
+export interface UnifiedDiffOptions {
+  /**
+   * Unchanged lines shown around each change
+   * @default 3
+   */
+  context?: number;
+
+  /**
+   * Label of the previous content in the `---` header
+   * @default 'previous', followed by the check time for snapshot diffs
+   */
+  fromLabel?: string;
+
+  /**
+   * Label of the current content in the `+++` header
+   * @default 'current', followed by the check time for snapshot diffs
+   */
+  toLabel?: string;
+}
+
+/**
+ * Edit distance beyond which the diff stops searching for the shortest
+ * edit and reports the rest as removed and added, to bound memory
+ */
+const MAX_EDITS = 2000;
+
+/**
+ * Diff two texts line by line
+ *
+ * @example
+ * ```typescript
+ * const changes = diffLines('Price: $10\nIn stock', 'Price: $12\nIn stock');
+ * // [{ type: 'removed', text: 'Price: $10', oldLine: 1 },
+ * //  { type: 'added', text: 'Price: $12', newLine: 1 },
+ * //  { type: 'equal', text: 'In stock', oldLine: 2, newLine: 2 }]
+ * ```
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Array<LineChange['type']> = [
+    ...Array<LineChange['type']>(start).fill('equal'),
+    ...shortestEdit(a.slice(start, endA), b.slice(start, endB)),
+    ...Array<LineChange['type']>(a.length - endA).fill('equal'),
+  ];
+
+  let oldLine = 0;
+  let newLine = 0;
+  return ops.map((type) => {
+    if (type === 'added') {
+      return { type, text: b[newLine++], newLine };
+    }
+    if (type === 'removed') {
+      return { type, text: a[oldLine++], oldLine };
+    }
+    newLine++;
+    return { type, text: a[oldLine++], oldLine, newLine };
+  });
+}
+
+/**
+ * Compare two JSON values structurally. Objects are compared by key and
+ * arrays by index.
+ *
+ * @example
+ * ```typescript
+ * diffJson({ price: 10, tags: ['new'] }, { price: 12, tags: [] });
+ * // [{ type: 'changed', path: '$.price', before: 10, after: 12 },
+ * //  { type: 'removed', path: '$.tags[0]', before: 'new' }]
+ * ```
+ */
+export function diffJson(before: unknown, after: unknown, path = '$'): JsonChange[] {
+  if (before === undefined && after === undefined) {
+    return [];
+  }
+  if (before === undefined) {
+    return [{ type: 'added', path, after }];
+  }
+  if (after === undefined) {
+    return [{ type: 'removed', path, before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, i) =>
+      diffJson(before[i], after[i], `${path}[${i}]`)).flat();
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffJson(before[key], after[key], `${path}${pathKey(key)}`));
+  }
+
+  return before === after ? [] : [{ type: 'changed', path, before, after }];
+}
+
+/**
+ * Diff the snapshots returned by `monitoring.getCheckDiff`
+ *
+ * @example
+ * ```typescript
+ * const diff = compareSnapshots(await scrapebit.monitoring.getCheckDiff('mon_abc123', 'chk_xyz789'));
+ * console.log(formatUnifiedDiff(diff));
+ * ```
+ */
+export function compareSnapshots(checkDiff: MonitorCheckDiff): SnapshotDiff {
+  const { previous, current } = checkDiff;
+  const screenshotUrl = current.screenshotUrl;
+
+  if (checkDiff.monitorType === 'api_response') {
+    const before = previous ? parseJson(previous.content) : { value: undefined };
+    const after = parseJson(current.content);
+    if (before && after) {
+      return {
+        ...checkDiff,
+        lines: diffLines(prettyJson(before.value), prettyJson(after.value)),
+        json: diffJson(before.value, after.value),
+        screenshotUrl,
+      };
+    }
+  }
+
+  return { ...checkDiff, lines: diffLines(previous?.content ?? '', current.content), screenshotUrl };
+}
+
+/**
+ * Render a line diff in unified diff format. Returns an empty string when
+ * nothing changed.
+ *
+ * @example
+ * ```typescript
+ * console.log(formatUnifiedDiff(compareSnapshots(checkDiff)));
+ * // --- previous 2024-01-15T09:00:00Z
+ * // +++ current 2024-01-15T10:00:00Z
+ * // @@ -1,2 +1,2 @@
+ * // -Price: $10
+ * // +Price: $12
+ * //  In stock
+ * ```
+ */
+export function formatUnifiedDiff(diff: SnapshotDiff | LineChange[], options: UnifiedDiffOptions = {}): string {
+  const lines = Array.isArray(diff) ? diff : diff.lines;
+  const hunks = toHunks(lines, options.context ?? 3);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const snapshot = Array.isArray(diff) ? undefined : diff;
+  const output = [
+    `--- ${options.fromLabel ?? label('previous', snapshot?.previous)}`,
+    `+++ ${options.toLabel ?? label('current', snapshot?.current)}`,
+  ];
+  for (const hunk of hunks) {
+    output.push(hunk.header, ...hunk.lines.map((line) => `${SIGNS[line.type]}${line.text}`));
+  }
+  if (snapshot?.screenshotUrl) {
+    output.push(`Screenshot: ${snapshot.screenshotUrl}`);
+  }
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Render a diff as a standalone HTML page, with JSON changes as a table
+ * and a link to the check's screenshot
+ *
+ * @example
+ * ```typescript
+ * const diff = compareSnapshots(await scrapebit.monitoring.getCheckDiff(monitorId, checkId));
+ * await writeFile('diff.html', renderDiffHtml(diff));
+ * ```
+ */
+export function renderDiffHtml(diff: SnapshotDiff | LineChange[], options: Pick<UnifiedDiffOptions, 'context'> = {}): string {
+  const lines = Array.isArray(diff) ? diff : diff.lines;
+  const snapshot = Array.isArray(diff) ? undefined : diff;
+  const title = snapshot ? `Changes to ${snapshot.monitorName}` : 'Changes';
+  const body = [`<h1>${escapeHtml(title)}</h1>`];
+
+  if (snapshot) {
+    const checked = snapshot.previous
+      ? `${escapeHtml(snapshot.previous.checkedAt)} → ${escapeHtml(snapshot.current.checkedAt)}`
+      : `First check ${escapeHtml(snapshot.current.checkedAt)}`;
+    body.push(`<p class="meta"><a href="${escapeHtml(snapshot.url)}">${escapeHtml(snapshot.url)}</a> · ${checked}</p>`);
+    if (snapshot.changeSummary) {
+      body.push(`<p>${escapeHtml(snapshot.changeSummary)}</p>`);
+    }
+    if (snapshot.screenshotUrl) {
+      body.push(`<p><a href="${escapeHtml(snapshot.screenshotUrl)}">View screenshot</a></p>`);
+    }
+  }
+
+  if (snapshot?.json?.length) {
+    body.push(
+      '<table class="json">',
+      '<tr><th>Path</th><th>Before</th><th>After</th></tr>',
+      ...snapshot.json.map((change) => `<tr class="${change.type}"><td><code>${escapeHtml(change.path)}</code></td>`
+        + `<td>${jsonCell(change.before)}</td><td>${jsonCell(change.after)}</td></tr>`),
+      '</table>'
+    );
+  }
+
+  const hunks = toHunks(lines, options.context ?? 3);
+  if (hunks.length === 0) {
+    body.push('<p class="meta">No changes</p>');
+  } else {
+    body.push('<table class="lines">', ...hunks.flatMap((hunk) => [
+      `<tr class="hunk"><td colspan="3">${escapeHtml(hunk.header)}</td></tr>`,
+      ...hunk.lines.map((line) => `<tr class="${line.type}"><td class="num">${line.oldLine ?? ''}</td>`
+        + `<td class="num">${line.newLine ?? ''}</td><td><code>${escapeHtml(SIGNS[line.type] + line.text)}</code></td></tr>`),
+    ]), '</table>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 64rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+.meta { color: #666; font-size: 0.9em; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { text-align: left; padding: 0 0.5rem; vertical-align: top; }
+code { white-space: pre-wrap; }
+.num { color: #999; text-align: right; width: 3rem; user-select: none; }
+.hunk td { color: #666; background: #f1f5f9; }
+.added { background: #e6ffec; }
+.removed { background: #ffebe9; }
+.changed { background: #fff8c5; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+const SIGNS: Record<LineChange['type'], string> = { equal: ' ', added: '+', removed: '-' };
+
+interface Hunk {
+  header: string;
+  lines: LineChange[];
+}
+
+/**
+ * Group changed lines with `context` unchanged lines around them. Changes
+ * closer than twice the context share a hunk.
+ */
+function toHunks(lines: LineChange[], context: number): Hunk[] {
+  const changed = lines.flatMap((line, i) => (line.type === 'equal' ? [] : [i]));
+  const hunks: Hunk[] = [];
+
+  let i = 0;
+  while (i < changed.length) {
+    let last = i;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * context + 1) {
+      last++;
+    }
+    const start = Math.max(0, changed[i] - context);
+    const end = Math.min(lines.length, changed[last] + context + 1);
+    const slice = lines.slice(start, end);
+
+    // Line numbers before the hunk, for hunks that only add or only remove
+    const before = lines.slice(0, start);
+    const oldStart = before.filter((line) => line.type !== 'added').length;
+    const newStart = before.filter((line) => line.type !== 'removed').length;
+    const oldCount = slice.filter((line) => line.type !== 'added').length;
+    const newCount = slice.filter((line) => line.type !== 'removed').length;
+    hunks.push({
+      header: `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`,
+      lines: slice,
+    });
+    i = last + 1;
+  }
+  return hunks;
+}
+
+function range(linesBefore: number, count: number): string {
+  const start = count === 0 ? linesBefore : linesBefore + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Shortest sequence of edits turning `a` into `b` (Myers' algorithm)
+ */
+function shortestEdit(a: string[], b: string[]): Array<LineChange['type']> {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Keep only the diagonals this round can read
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return [...Array<LineChange['type']>(n).fill('removed'), ...Array<LineChange['type']>(m).fill('added')];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Array<LineChange['type']> {
+  const ops: Array<LineChange['type']> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'added' : 'removed');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+function parseJson(text: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function prettyJson(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pathKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+function label(name: string, snapshot?: MonitorSnapshot): string {
+  return snapshot ? `${name} ${snapshot.checkedAt}` : name;
+}
+
+function jsonCell(value: unknown): string {
+  return value === undefined ? '' : `<code>${escapeHtml(JSON.stringify(value))}</code>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,207 @@
+/**
+ * Download helpers for generated PDFs and screenshots
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rename, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Writable } from 'node:stream';
+import type { CallOptions } from '../types';
+import { AbortError, NetworkError, ScrapebitError, throwIfAborted } from './errors';
+import type { HttpClient } from './http';
+
+/**
+ * Where a download is written: a file path, or a web `WritableStream`
+ */
+export type DownloadTarget = string | WritableStream<Uint8Array>;
+
+/**
+ * Download progress reported as the file is received
+ */
+export interface DownloadProgress {
+  /**
+   * Bytes received so far
+   */
+  loaded: number;
+
+  /**
+   * Expected file size in bytes, if known
+   */
+  total?: number;
+
+  /**
+   * `loaded / total` as a percentage from 0 to 100, if the size is known
+   */
+  percent?: number;
+}
+
+/**
+ * Options for downloading a generated file
+ */
+export interface DownloadOptions {
+  /**
+   * File path or stream to write to. Files are written to a temporary
+   * path first and only moved into place once complete.
+   */
+  to: DownloadTarget;
+
+  /**
+   * Called for every chunk received
+   */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * A completed download
+ */
+export interface DownloadResult {
+  /**
+   * ID of the downloaded PDF or screenshot
+   */
+  id: string;
+
+  /**
+   * Bytes written
+   */
+  bytes: number;
+
+  /**
+   * Path written to, when downloading to a file
+   */
+  path?: string;
+}
+
+/**
+ * A stored file and how to get a fresh URL for it
+ */
+export interface DownloadSource {
+  id: string;
+  url: string;
+  fileSize?: number;
+  refresh: () => Promise<{ url: string; expiresAt: string }>;
+}
+
+/**
+ * Statuses storage hosts answer with when a signed URL has expired
+ */
+const EXPIRED_STATUSES = new Set([401, 403, 410]);
+
+/**
+ * Stream a stored file to a path or stream
+ *
+ * URLs that have expired, or that the file host rejects as expired, are
+ * replaced through `source.refresh` once. The number of bytes received
+ * must match `source.fileSize` (or `Content-Length` if the size is not
+ * known).
+ */
+export async function downloadFile(
+  http: HttpClient,
+  source: DownloadSource,
+  options: DownloadOptions,
+  callOptions?: CallOptions
+): Promise<DownloadResult> {
+  let url = isExpired(source.url) ? (await source.refresh()).url : source.url;
+  let response = await http.fetchFile(url, callOptions);
+
+  if (EXPIRED_STATUSES.has(response.status)) {
+    await response.body?.cancel();
+    url = (await source.refresh()).url;
+    response = await http.fetchFile(url, callOptions);
+  }
+
+  const { body } = response;
+  if (!response.ok || !body) {
+    await body?.cancel();
+    throw new ScrapebitError(
+      `Download of ${source.id} failed with status ${response.status}`,
+      'DOWNLOAD_FAILED',
+      response.status
+    );
+  }
+
+  const contentLength = Number(response.headers.get('content-length') || NaN);
+  const total = source.fileSize ?? (Number.isFinite(contentLength) ? contentLength : undefined);
+  let loaded = 0;
+
+  const counted = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      options.onProgress?.({
+        loaded,
+        total,
+        percent: total ? Math.min(100, (loaded / total) * 100) : undefined,
+      });
+      controller.enqueue(chunk);
+    },
+    flush() {
+      if (total !== undefined && loaded !== total) {
+        throw new ScrapebitError(
+          `Download of ${source.id} received ${loaded} bytes, expected ${total}`,
+          'DOWNLOAD_SIZE_MISMATCH',
+          undefined,
+          { received: loaded, expected: total }
+        );
+      }
+    },
+  }));
+
+  if (typeof options.to !== 'string') {
+    await pipe(counted, options.to, callOptions?.signal);
+    return { id: source.id, bytes: loaded };
+  }
+
+  const path = options.to;
+  const temporary = `${path}.${randomUUID()}.download`;
+  await mkdir(dirname(path), { recursive: true });
+
+  try {
+    await pipe(counted, Writable.toWeb(createWriteStream(temporary)) as WritableStream<Uint8Array>, callOptions?.signal);
+    await rename(temporary, path);
+  } catch (error) {
+    await unlink(temporary).catch(() => undefined);
+    throw error;
+  }
+
+  return { id: source.id, bytes: loaded, path };
+}
+
+/**
+ * Whether a signed URL carries an `expires` parameter in the past
+ */
+function isExpired(url: string): boolean {
+  let expires: string | null;
+  try {
+    const { searchParams } = new URL(url);
+    expires = searchParams.get('expires') ?? searchParams.get('Expires');
+  } catch {
+    return false;
+  }
+  if (!expires) {
+    return false;
+  }
+
+  // Either an ISO timestamp or Unix seconds
+  const time = /^\d+$/.test(expires) ? Number(expires) * 1000 : Date.parse(expires);
+  return Number.isFinite(time) && time <= Date.now();
+}
+
+async function pipe(
+  body: ReadableStream<Uint8Array>,
+  destination: WritableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfAborted(signal);
+
+  try {
+    await body.pipeTo(destination, { signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    if (error instanceof ScrapebitError) {
+      throw error;
+    }
+    throw new NetworkError((error as Error).message);
+  }
+}
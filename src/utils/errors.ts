@@ -167,6 +167,25 @@ export class NetworkError extends ScrapebitError {
   }
 }
 
+/**
+ * Error thrown when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends ScrapebitError {
+  constructor(message: string = 'Operation was aborted') {
+    super(message, 'ABORTED');
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Throw an AbortError if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
 /**
  * Error thrown when server returns 5xx error
  */
@@ -176,3 +195,49 @@ export class ServerError extends ScrapebitError {
     this.name = 'ServerError';
   }
 }
+
+/**
+ * Error thrown when a scheduled task run that was waited for fails
+ */
+export class ScheduleRunError extends ScrapebitError {
+  public readonly taskId: string;
+  public readonly runId?: string;
+  public readonly runError?: string;
+
+  constructor(taskId: string, runId?: string, runError?: string) {
+    super(
+      `Scheduled task ${taskId} failed${runError ? `: ${runError}` : ''}`,
+      'SCHEDULE_RUN_FAILED',
+      undefined,
+      { taskId, runId, runError }
+    );
+    this.name = 'ScheduleRunError';
+    this.taskId = taskId;
+    this.runId = runId;
+    this.runError = runError;
+  }
+}
+
+/**
+ * Reason a webhook delivery failed verification
+ */
+export type WebhookVerificationFailure =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'timestamp_out_of_tolerance'
+  | 'signature_mismatch'
+  | 'replayed'
+  | 'invalid_payload';
+
+/**
+ * Error thrown when a webhook delivery cannot be verified or parsed
+ */
+export class WebhookVerificationError extends ScrapebitError {
+  public readonly reason: WebhookVerificationFailure;
+
+  constructor(reason: WebhookVerificationFailure, message: string) {
+    super(message, 'WEBHOOK_VERIFICATION_FAILED', 400, { reason });
+    this.name = 'WebhookVerificationError';
+    this.reason = reason;
+  }
+}
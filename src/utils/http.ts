@@ -2,7 +2,14 @@
  * HTTP client utility for making API requests
  */
 
-import type { ApiResponse, ScrapebitConfig } from '../types';
+import type {
+  ApiResponse,
+  CallOptions,
+  ScrapebitConfig,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+} from '../types';
 import {
   ScrapebitError,
   AuthenticationError,
@@ -13,18 +20,61 @@ import {
   TimeoutError,
   NetworkError,
   ServerError,
+  AbortError,
+  ValidationError,
+  throwIfAborted,
 } from './errors';
+import { randomUUID } from 'node:crypto';
+import { RateLimiter } from './rateLimiter';
+import { ResponseCache, cacheScope } from './cache';
+import { MultipartForm, type UploadProgress } from './multipart';
+import { readEventStream, streamFormat, STREAM_ACCEPT, type StreamEvent, type StreamFormat } from './stream';
+import {
+  resolveRetryPolicy,
+  isRetryableError,
+  computeRetryDelay,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+} from './retry';
 
 /**
  * HTTP request options
  */
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   body?: unknown;
   headers?: Record<string, string>;
-  timeout?: number;
+
+  /**
+   * Called as a `MultipartForm` body is sent
+   */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Unwrapped response data together with the response metadata
+ */
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
 }
 
+/**
+ * Header carrying the idempotency key of a mutating request
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Response header set when the API replays a stored response for a key
+ */
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotency-Replayed';
+
+/**
+ * A streaming response ready to read, or the JSON body of a plain response
+ */
+type OpenedStream = { body: ReadableStream<Uint8Array>; format: StreamFormat } | { data: unknown };
+
 /**
  * HTTP client for API requests
  */
@@ -32,15 +82,55 @@ export class HttpClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly timeout: number;
-  private readonly retries: number;
+  private readonly retryPolicy: ResolvedRetryPolicy;
   private readonly customHeaders: Record<string, string>;
+  private readonly middleware: Middleware[];
+  private readonly fetchImpl?: typeof fetch;
+
+  /**
+   * Client-side rate limiter, if configured
+   */
+  public readonly rateLimiter?: RateLimiter;
+
+  /**
+   * Response cache, if configured
+   */
+  public readonly cache?: ResponseCache;
+
+  /**
+   * Scope of this client's cache entries, from its API key and base URL
+   */
+  public readonly cacheScope: string;
 
   constructor(apiKey: string, config: ScrapebitConfig = {}) {
     this.apiKey = apiKey;
     this.baseUrl = config.baseUrl || 'https://api.scrapebit.com/v1';
     this.timeout = config.timeout || 30000;
-    this.retries = config.retries || 3;
+    this.retryPolicy = resolveRetryPolicy(config);
     this.customHeaders = config.headers || {};
+    this.middleware = [...(config.middleware || [])];
+    this.fetchImpl = config.fetch;
+    this.cacheScope = cacheScope(apiKey, this.baseUrl);
+
+    if (config.rateLimiter) {
+      this.rateLimiter = config.rateLimiter instanceof RateLimiter
+        ? config.rateLimiter
+        : new RateLimiter(config.rateLimiter);
+    }
+
+    if (config.cache) {
+      this.cache = config.cache instanceof ResponseCache
+        ? config.cache
+        : new ResponseCache(config.cache);
+    }
+  }
+
+  /**
+   * Append a middleware to the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
@@ -50,9 +140,106 @@ export class HttpClient {
     endpoint: string,
     options: RequestOptions = {}
   ): Promise<T> {
+    return (await this.send<T>(endpoint, options)).data;
+  }
+
+  /**
+   * Make an HTTP request to the API and return the response metadata too
+   *
+   * Mutating requests carry an `Idempotency-Key` header that stays the
+   * same across retries, so a retried job is never charged twice.
+   */
+  async send<T>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    return this.execute(endpoint, options, async (response, request, startedAt) => {
+      const result = await this.runAfterResponse({
+        status: response.status,
+        headers: response.headers,
+        data: await this.readBody(response),
+        durationMs: 0,
+      }, request, startedAt);
+
+      return {
+        data: this.handleResponse<T>(result, response.statusText),
+        status: result.status,
+        headers: result.headers,
+      };
+    });
+  }
+
+  /**
+   * Make an HTTP request that answers with a server-sent events or NDJSON
+   * stream and yield its events as they arrive
+   *
+   * Retries only happen before the stream starts. The timeout applies to
+   * waiting for the response and to each gap between chunks. An endpoint
+   * that answers with plain JSON instead yields a single `done` event.
+   */
+  async *stream(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): AsyncGenerator<StreamEvent, void, undefined> {
+    const opened = await this.execute<OpenedStream>(endpoint, {
+      ...options,
+      headers: { Accept: STREAM_ACCEPT, ...options.headers },
+    }, async (response, request, startedAt) => {
+      const format = streamFormat(response.headers.get('content-type'));
+      const { body } = response;
+      if (!response.ok || !format || !body) {
+        const result = await this.runAfterResponse({
+          status: response.status,
+          headers: response.headers,
+          data: await this.readBody(response),
+          durationMs: 0,
+        }, request, startedAt);
+        return { data: this.handleResponse<unknown>(result, response.statusText) };
+      }
+
+      await this.runAfterResponse({
+        status: response.status,
+        headers: response.headers,
+        data: undefined,
+        durationMs: 0,
+      }, request, startedAt);
+      return { body, format };
+    });
+
+    if (!('body' in opened)) {
+      yield { event: 'done', data: opened.data };
+      return;
+    }
+
+    yield* readEventStream(opened.body, opened.format, {
+      signal: options.signal,
+      idleTimeout: options.timeout || this.timeout,
+    });
+  }
+
+  /**
+   * Fetch a file from a signed download URL
+   *
+   * The URL is requested as-is: no API key, middleware or retries. The
+   * timeout applies until the response headers arrive.
+   */
+  async fetchFile(url: string, options: Pick<CallOptions, 'signal' | 'timeout'> = {}): Promise<Response> {
+    return this.fetchWithTimeout(url, { method: 'GET' }, options.timeout || this.timeout, options.signal);
+  }
+
+  /**
+   * Send a request with retries, rate limiting and middleware, and pass
+   * the successful fetch to `accept`
+   */
+  private async execute<R>(
+    endpoint: string,
+    options: RequestOptions,
+    accept: (response: Response, request: MiddlewareRequest, startedAt: number) => Promise<R>
+  ): Promise<R> {
     const url = `${this.baseUrl}${endpoint}`;
     const method = options.method || 'GET';
     const timeout = options.timeout || this.timeout;
+    const { signal } = options;
 
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${this.apiKey}`,
@@ -62,33 +249,72 @@ export class HttpClient {
       ...options.headers,
     };
 
+    if (method !== 'GET' && !hasHeader(headers, IDEMPOTENCY_KEY_HEADER)) {
+      headers[IDEMPOTENCY_KEY_HEADER] = options.idempotencyKey || randomUUID();
+    }
+
+    if (options.body instanceof MultipartForm) {
+      headers['Content-Type'] = options.body.contentType;
+    }
+
+    if (options.retries !== undefined && (!Number.isInteger(options.retries) || options.retries < 0)) {
+      throw new ValidationError('retries must be a non-negative integer', 'retries');
+    }
+
     let lastError: Error | null = null;
+    const { onRetry } = this.retryPolicy;
+    const maxAttempts = options.retries !== undefined ? options.retries + 1 : this.retryPolicy.maxAttempts;
 
-    for (let attempt = 0; attempt <= this.retries; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let request: MiddlewareRequest | undefined;
       try {
-        const response = await this.fetchWithTimeout(url, {
+        throwIfAborted(signal);
+
+        if (this.rateLimiter) {
+          await this.rateLimiter.acquire(signal);
+        }
+
+        request = await this.runBeforeRequest({
           method,
-          headers,
-          body: options.body ? JSON.stringify(options.body) : undefined,
-        }, timeout);
+          endpoint,
+          url,
+          headers: { ...headers },
+          body: options.body,
+          attempt,
+        });
+
+        const startedAt = Date.now();
+        const response = await this.fetchWithTimeout(
+          request.url,
+          this.encodeBody(request, options.onUploadProgress),
+          timeout,
+          signal
+        );
 
-        return await this.handleResponse<T>(response);
-      } catch (error) {
+        return await accept(response, request, startedAt);
+      } catch (caught) {
+        const error = request ? await this.runOnError(caught, request) : caught;
         lastError = error as Error;
 
-        // Don't retry on client errors (4xx)
-        if (error instanceof ScrapebitError && error.statusCode && error.statusCode < 500) {
+        // Don't retry on last attempt, after cancellation, or on errors the policy excludes
+        if (
+          attempt === maxAttempts ||
+          error instanceof AbortError ||
+          signal?.aborted ||
+          !isRetryableError(this.retryPolicy, error)
+        ) {
           throw error;
         }
 
-        // Don't retry on last attempt
-        if (attempt === this.retries) {
+        const delay = computeRetryDelay(this.retryPolicy, attempt, error);
+        if (delay === null) {
           throw error;
         }
 
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-        await this.sleep(delay);
+        const context = { attempt: attempt + 1, error, delayMs: delay, method, endpoint };
+        onRetry?.(context);
+        options.onRetry?.(context);
+        await this.sleep(delay, signal);
       }
     }
 
@@ -136,46 +362,126 @@ export class HttpClient {
   private async fetchWithTimeout(
     url: string,
     options: RequestInit,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<Response> {
+    throwIfAborted(signal);
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      const response = await fetch(url, {
+      const response = await (this.fetchImpl || fetch)(url, {
         ...options,
         signal: controller.signal,
       });
       return response;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
       if ((error as Error).name === 'AbortError') {
         throw new TimeoutError(timeout);
       }
       throw new NetworkError((error as Error).message);
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Build `fetch` options for a request, streaming multipart bodies so
+   * upload progress can be reported
+   */
+  private encodeBody(
+    request: MiddlewareRequest,
+    onUploadProgress?: (progress: UploadProgress) => void
+  ): RequestInit {
+    const init: RequestInit = { method: request.method, headers: request.headers };
+
+    if (request.body instanceof MultipartForm) {
+      // Node.js requires `duplex` for streamed request bodies
+      return { ...init, body: request.body.toStream(onUploadProgress), duplex: 'half' } as RequestInit;
+    }
+    return { ...init, body: request.body ? JSON.stringify(request.body) : undefined };
+  }
+
+  /**
+   * Run `beforeRequest` hooks in registration order
+   */
+  private async runBeforeRequest(request: MiddlewareRequest): Promise<MiddlewareRequest> {
+    let current = request;
+    for (const middleware of this.middleware) {
+      current = (await middleware.beforeRequest?.(current)) || current;
     }
+    return current;
   }
 
   /**
-   * Handle API response
+   * Run `afterResponse` hooks in reverse registration order
    */
-  private async handleResponse<T>(response: Response): Promise<T> {
-    let data: ApiResponse<T> | { error?: string; message?: string; code?: string };
+  private async runAfterResponse(
+    response: MiddlewareResponse,
+    request: MiddlewareRequest,
+    startedAt: number
+  ): Promise<MiddlewareResponse> {
+    let current = { ...response, durationMs: Date.now() - startedAt };
+    for (const middleware of [...this.middleware].reverse()) {
+      current = (await middleware.afterResponse?.(current, request)) || current;
+    }
+    return current;
+  }
+
+  /**
+   * Run `onError` hooks in reverse registration order
+   */
+  private async runOnError(error: unknown, request: MiddlewareRequest): Promise<unknown> {
+    if (!(error instanceof ScrapebitError)) {
+      return error;
+    }
 
+    let current = error;
+    for (const middleware of [...this.middleware].reverse()) {
+      current = (await middleware.onError?.(current, request)) || current;
+    }
+    return current;
+  }
+
+  /**
+   * Read a JSON body, returning `undefined` if there is none
+   */
+  private async readBody(response: Response): Promise<unknown> {
     try {
-      data = await response.json() as ApiResponse<T> | { error?: string; message?: string; code?: string };
+      return await response.json();
     } catch {
-      if (!response.ok) {
-        throw new ServerError(response.status, `HTTP ${response.status}: ${response.statusText}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Handle an API response as returned by the `afterResponse` hooks
+   */
+  private handleResponse<T>(response: MiddlewareResponse, statusText: string): T {
+    const data = response.data as ApiResponse<T> | { error?: string; message?: string; code?: string };
+    const ok = response.status >= 200 && response.status < 300;
+
+    if (data === undefined || data === null || typeof data !== 'object') {
+      if (response.status === 429) {
+        this.handleErrorResponse(response.status, {}, response.headers);
+      }
+      if (!ok) {
+        throw new ServerError(response.status, `HTTP ${response.status}: ${statusText}`);
       }
       // Return empty object for successful responses without body
-      return {} as T;
+      return (data ?? {}) as T;
     }
 
-    if (!response.ok) {
+    if (!ok) {
       const errorData = data as { error?: string; message?: string; code?: string };
-      this.handleErrorResponse(response.status, errorData);
+      this.handleErrorResponse(response.status, errorData, response.headers);
     }
 
     // Return data directly if it matches expected format
@@ -191,7 +497,8 @@ export class HttpClient {
    */
   private handleErrorResponse(
     statusCode: number,
-    data: { error?: string; message?: string; code?: string; [key: string]: unknown }
+    data: { error?: string; message?: string; code?: string; [key: string]: unknown },
+    headers?: Headers
   ): never {
     const message = data.error || data.message || 'Unknown error';
     const code = data.code as string | undefined;
@@ -212,9 +519,11 @@ export class HttpClient {
       case 404:
         throw new NotFoundError('Resource');
 
-      case 429:
-        const retryAfter = parseInt(data.retryAfter as string, 10) || undefined;
+      case 429: {
+        const retryAfter = parseRetryAfter(headers?.get('retry-after'))
+          ?? (parseInt(data.retryAfter as string, 10) || undefined);
         throw new RateLimitError(retryAfter);
+      }
 
       default:
         if (statusCode >= 500) {
@@ -225,9 +534,34 @@ export class HttpClient {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, cut short with an AbortError if the signal fires
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new AbortError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
+
+/**
+ * Response data with `replayed` set from the idempotency replay header
+ */
+export function withReplayed<T extends object>(response: HttpResponse<T>): T & { replayed: boolean } {
+  return {
+    ...response.data,
+    replayed: response.headers.get(IDEMPOTENCY_REPLAYED_HEADER) === 'true',
+  };
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
@@ -1,2 +1,19 @@
 export * from './errors';
 export * from './http';
+export * from './pagination';
+export * from './schema';
+export * from './bulk';
+export * from './rateLimiter';
+export * from './retry';
+export * from './middleware';
+export * from './stream';
+export * from './multipart';
+export * from './researchReport';
+export * from './cache';
+export * from './download';
+export * from './serialize';
+export * from './cron';
+export * from './poll';
+export * from './sync';
+export * from './diff';
+export * from './alertRules';
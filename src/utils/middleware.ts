@@ -0,0 +1,101 @@
+/**
+ * Built-in middleware
+ */
+
+import type { Middleware } from '../types';
+import { MultipartForm } from './multipart';
+
+/**
+ * Options for the logger middleware
+ */
+export interface LoggerMiddlewareOptions {
+  /**
+   * Where log lines are written, e.g. `console.info` or a logger method
+   */
+  log: (line: string) => void;
+
+  /**
+   * Include request bodies in the log
+   * @default true
+   */
+  logBodies?: boolean;
+
+  /**
+   * Header names (case-insensitive) whose values are replaced with `[REDACTED]`
+   * @default ['authorization']
+   */
+  redactHeaders?: string[];
+
+  /**
+   * Body keys (at any depth) whose values are replaced with `[REDACTED]`
+   * @default ['password', 'secret', 'token', 'apiKey', 'webhookHeaders']
+   */
+  redactBodyKeys?: string[];
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Middleware that logs every request, response and error with secrets redacted
+ *
+ * @example
+ * ```typescript
+ * const scrapebit = new Scrapebit(apiKey, {
+ *   middleware: [createLoggerMiddleware({ log: (line) => logger.debug(line) })]
+ * });
+ * // -> POST /scrape (attempt 1) headers={"Authorization":"[REDACTED]",...} body={"url":"..."}
+ * // <- 200 POST /scrape 812ms
+ * ```
+ */
+export function createLoggerMiddleware(options: LoggerMiddlewareOptions): Middleware {
+  const { log } = options;
+  const logBodies = options.logBodies ?? true;
+  const redactHeaders = (options.redactHeaders || ['authorization']).map((h) => h.toLowerCase());
+  const redactBodyKeys = options.redactBodyKeys || ['password', 'secret', 'token', 'apiKey', 'webhookHeaders'];
+
+  return {
+    name: 'logger',
+
+    beforeRequest(request) {
+      const headers = Object.fromEntries(
+        Object.entries(request.headers).map(([name, value]) => [
+          name,
+          redactHeaders.includes(name.toLowerCase()) ? REDACTED : value,
+        ])
+      );
+
+      let line = `-> ${request.method} ${request.endpoint} (attempt ${request.attempt}) headers=${JSON.stringify(headers)}`;
+      if (logBodies && request.body instanceof MultipartForm) {
+        line += ` body=<multipart ${request.body.size} bytes>`;
+      } else if (logBodies && request.body !== undefined) {
+        line += ` body=${JSON.stringify(redactValue(request.body, redactBodyKeys))}`;
+      }
+      log(line);
+    },
+
+    afterResponse(response, request) {
+      log(`<- ${response.status} ${request.method} ${request.endpoint} ${response.durationMs}ms`);
+    },
+
+    onError(error, request) {
+      log(`!! ${request.method} ${request.endpoint} ${error.name}: ${error.message}`);
+    },
+  };
+}
+
+function redactValue(value: unknown, keys: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, keys));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, nested]) => [
+        key,
+        keys.includes(key) ? REDACTED : redactValue(nested, keys),
+      ])
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,258 @@
+/**
+ * Multipart upload helpers for sending files to the API
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { ValidationError } from './errors';
+
+/**
+ * File content accepted for uploads: a path on disk, a `Blob`/`File`, a
+ * `Buffer`/`Uint8Array`, or a web or Node.js readable stream
+ */
+export type UploadInput =
+  | string
+  | Blob
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Upload progress reported while the request body is sent
+ */
+export interface UploadProgress {
+  /**
+   * Bytes handed to the connection so far
+   */
+  loaded: number;
+
+  /**
+   * Total size of the request body in bytes
+   */
+  total: number;
+
+  /**
+   * `loaded / total` as a percentage from 0 to 100
+   */
+  percent: number;
+}
+
+/**
+ * A file read into memory, ready to upload
+ */
+export interface UploadFile {
+  bytes: Uint8Array;
+  filename?: string;
+  mimeType?: string;
+}
+
+/**
+ * Size of each chunk handed to `fetch`, which is also how often progress is
+ * reported
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.rtf': 'application/rtf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/**
+ * MIME type for a filename's extension, or `application/octet-stream`
+ */
+export function mimeTypeFor(filename: string): string {
+  return MIME_TYPES[extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Read an upload into memory, failing as soon as it exceeds `maxSize` bytes
+ *
+ * The whole file is buffered so that a retried request can send it again.
+ */
+export async function readUpload(input: UploadInput, maxSize: number, field = 'file'): Promise<UploadFile> {
+  const tooLarge = () => new ValidationError(`${field} is larger than the ${formatBytes(maxSize)} limit`, field);
+  let file: UploadFile;
+
+  if (typeof input === 'string') {
+    const info = await stat(input).catch((error: Error) => {
+      throw new ValidationError(`Cannot read ${input}: ${error.message}`, field);
+    });
+    if (!info.isFile()) {
+      throw new ValidationError(`${input} is not a file`, field);
+    }
+    if (info.size > maxSize) {
+      throw tooLarge();
+    }
+    file = { bytes: new Uint8Array(await readFile(input)), filename: basename(input) };
+  } else if (input instanceof Uint8Array) {
+    file = { bytes: input };
+  } else if (input instanceof Blob) {
+    if (input.size > maxSize) {
+      throw tooLarge();
+    }
+    file = {
+      bytes: new Uint8Array(await input.arrayBuffer()),
+      filename: 'name' in input && typeof input.name === 'string' ? input.name : undefined,
+      mimeType: input.type || undefined,
+    };
+  } else {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const iterable = input instanceof ReadableStream ? iterateStream(input) : input;
+
+    for await (const chunk of iterable) {
+      const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+      size += bytes.byteLength;
+      if (size > maxSize) {
+        throw tooLarge();
+      }
+      chunks.push(bytes);
+    }
+    file = { bytes: concat(chunks, size) };
+  }
+
+  if (file.bytes.byteLength > maxSize) {
+    throw tooLarge();
+  }
+  if (file.bytes.byteLength === 0) {
+    throw new ValidationError(`${field} is empty`, field);
+  }
+  return file;
+}
+
+/**
+ * A `multipart/form-data` request body built in memory
+ *
+ * @example
+ * ```typescript
+ * const form = new MultipartForm()
+ *   .append('title', 'Q1 report')
+ *   .appendFile('file', bytes, 'report.pdf', 'application/pdf');
+ * ```
+ */
+export class MultipartForm {
+  readonly boundary = `----scrapebit-${randomUUID()}`;
+  private readonly parts: Uint8Array[] = [];
+  private readonly encoder = new TextEncoder();
+
+  /**
+   * `Content-Type` header for this body, including the boundary
+   */
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this.boundary}`;
+  }
+
+  /**
+   * Size of the encoded body in bytes
+   */
+  get size(): number {
+    const closing = this.boundary.length + 6;
+    return this.parts.reduce((total, part) => total + part.byteLength, closing);
+  }
+
+  /**
+   * Add a text field
+   */
+  append(name: string, value: string): this {
+    this.parts.push(this.encoder.encode(
+      `--${this.boundary}\r\nContent-Disposition: form-data; name="${escapeQuoted(name)}"\r\n\r\n${value}\r\n`
+    ));
+    return this;
+  }
+
+  /**
+   * Add a file field
+   */
+  appendFile(name: string, bytes: Uint8Array, filename: string, mimeType: string): this {
+    this.parts.push(
+      this.encoder.encode(
+        `--${this.boundary}\r\n` +
+        `Content-Disposition: form-data; name="${escapeQuoted(name)}"; filename="${escapeQuoted(filename)}"\r\n` +
+        `Content-Type: ${mimeType}\r\n\r\n`
+      ),
+      bytes,
+      this.encoder.encode('\r\n')
+    );
+    return this;
+  }
+
+  /**
+   * The encoded body
+   */
+  toBytes(): Uint8Array {
+    return concat([...this.parts, this.encoder.encode(`--${this.boundary}--\r\n`)], this.size);
+  }
+
+  /**
+   * The encoded body as a stream that reports progress as `fetch` reads it
+   */
+  toStream(onProgress?: (progress: UploadProgress) => void): ReadableStream<Uint8Array> {
+    const bytes = this.toBytes();
+    const total = bytes.byteLength;
+    let loaded = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (loaded >= total) {
+          controller.close();
+          return;
+        }
+
+        const chunk = bytes.subarray(loaded, loaded + CHUNK_SIZE);
+        loaded += chunk.byteLength;
+        controller.enqueue(chunk);
+        onProgress?.({ loaded, total, percent: Math.round((loaded / total) * 10000) / 100 });
+      },
+    }, { highWaterMark: 0 });
+  }
+}
+
+async function* iterateStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function escapeQuoted(value: string): string {
+  return value.replace(/"/g, '%22').replace(/\r?\n/g, ' ');
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB` : `${bytes} bytes`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Auto-pagination helper for list endpoints
+ */
+
+import type { PaginateOptions, PaginatedResponse } from '../types';
+import { ValidationError, throwIfAborted } from './errors';
+
+/**
+ * Page request passed to a page fetcher
+ */
+export interface PageRequest {
+  page: number;
+  limit?: number;
+}
+
+/**
+ * Iterate over every item of a paginated endpoint, fetching pages lazily
+ *
+ * @example
+ * ```typescript
+ * for await (const monitor of paginate((page) => scrapebit.monitoring.list(page))) {
+ *   console.log(monitor.name);
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+  fetchPage: (request: PageRequest) => Promise<PaginatedResponse<T>>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const { pageSize, maxItems, signal } = options;
+
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+    throw new ValidationError('pageSize must be a positive integer', 'pageSize');
+  }
+
+  if (maxItems !== undefined && (!Number.isInteger(maxItems) || maxItems < 0)) {
+    throw new ValidationError('maxItems must be a non-negative integer', 'maxItems');
+  }
+
+  let page = 1;
+  let yielded = 0;
+
+  while (maxItems === undefined || yielded < maxItems) {
+    throwIfAborted(signal);
+
+    const response = await fetchPage({ page, limit: pageSize });
+
+    for (const item of response.data) {
+      if (maxItems !== undefined && yielded >= maxItems) {
+        return;
+      }
+
+      throwIfAborted(signal);
+      yield item;
+      yielded++;
+    }
+
+    if (!response.pagination?.hasMore || response.data.length === 0) {
+      return;
+    }
+
+    page++;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Polling with backoff for asynchronous jobs
+ */
+
+import type { PollOptions } from '../types';
+import { AbortError, TimeoutError, ValidationError, throwIfAborted } from './errors';
+
+/**
+ * Call `check` until it returns a value other than `undefined`, waiting
+ * longer between attempts each time
+ *
+ * Rejects with a `TimeoutError` once `timeout` has passed, or an
+ * `AbortError` if the signal fires.
+ *
+ * @example
+ * ```typescript
+ * const task = await pollUntil(async () => {
+ *   const current = await scrapebit.schedule.get('task_abc123');
+ *   return current.status === 'running' ? undefined : current;
+ * }, { timeout: 60000 });
+ * ```
+ */
+export async function pollUntil<T>(
+  check: () => Promise<T | undefined>,
+  options: PollOptions = {}
+): Promise<T> {
+  const timeout = options.timeout ?? 5 * 60 * 1000;
+  const maxInterval = options.maxPollInterval ?? 30000;
+  const backoff = options.backoff ?? 1.5;
+  let interval = options.pollInterval ?? 1000;
+
+  if (!(timeout > 0) || !(interval > 0) || !(backoff >= 1)) {
+    throw new ValidationError('timeout and pollInterval must be positive and backoff at least 1', 'pollInterval');
+  }
+
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    throwIfAborted(options.signal);
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TimeoutError(timeout);
+    }
+    await sleep(Math.min(interval, remaining), options.signal);
+    interval = Math.min(interval * backoff, maxInterval);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Client-side token bucket rate limiter
+ */
+
+import type { RateLimiterOptions } from '../types';
+import type { UsageInfo } from '../api/usage';
+import { AbortError, ValidationError } from './errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Token bucket that queues requests instead of letting them hit a 429
+ *
+ * Share one instance between several clients to give them a common budget.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ capacity: 5, refillAmount: 1, intervalMs: 1000 });
+ *
+ * const a = new Scrapebit(apiKey, { rateLimiter: limiter });
+ * const b = new Scrapebit(apiKey, { rateLimiter: limiter });
+ *
+ * // Align the budget with the plan's daily limit
+ * limiter.seed(await a.usage.get());
+ *
+ * console.log(`${limiter.queueDepth} requests waiting`);
+ * ```
+ */
+export class RateLimiter {
+  private capacity: number;
+  private refillAmount: number;
+  private intervalMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private readonly queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimiterOptions) {
+    validateOptions(options);
+
+    this.capacity = options.capacity;
+    this.refillAmount = options.refillAmount ?? options.capacity;
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.tokens = options.initialTokens ?? options.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Create a limiter matching the daily API limit of a plan
+   *
+   * @example
+   * ```typescript
+   * const limiter = RateLimiter.fromUsage(await scrapebit.usage.get());
+   * ```
+   */
+  static fromUsage(usage: UsageInfo): RateLimiter {
+    const limiter = new RateLimiter({ capacity: 1 });
+    limiter.seed(usage);
+    return limiter;
+  }
+
+  /**
+   * Number of requests waiting for a token
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of tokens currently available
+   */
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Reset the bucket to the plan's daily limit and the requests already
+   * made today. Plans without a daily limit make the limiter a no-op.
+   *
+   * @throws {ValidationError} If the daily limit is not a positive number
+   */
+  seed(usage: UsageInfo): void {
+    const limit = usage.plan.api_rate_limit_per_day;
+    if (limit !== null && !(Number.isFinite(limit) && limit > 0)) {
+      throw new ValidationError('api_rate_limit_per_day must be positive', 'api_rate_limit_per_day');
+    }
+
+    if (limit === null) {
+      this.capacity = Infinity;
+      this.refillAmount = Infinity;
+      this.tokens = Infinity;
+    } else {
+      this.capacity = limit;
+      this.refillAmount = limit;
+      this.intervalMs = DAY_MS;
+      this.tokens = Math.max(0, limit - usage.api_requests_today);
+    }
+
+    this.lastRefill = Date.now();
+    this.drain();
+  }
+
+  /**
+   * Wait until a token is available and take it
+   *
+   * @throws {AbortError} If the signal fires while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(grant);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new AbortError());
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(grant);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+
+    if (elapsed > 0 && this.tokens < this.capacity) {
+      this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.refillAmount) / this.intervalMs);
+    }
+
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length === 0 || this.timer) {
+      return;
+    }
+
+    const wait = Math.ceil(((1 - this.tokens) * this.intervalMs) / this.refillAmount);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(wait, 1));
+  }
+}
+
+function validateOptions(options: RateLimiterOptions): void {
+  if (!options || !Number.isFinite(options.capacity) || options.capacity < 1) {
+    throw new ValidationError('capacity must be at least 1', 'capacity');
+  }
+  if (options.refillAmount !== undefined && !(options.refillAmount > 0)) {
+    throw new ValidationError('refillAmount must be positive', 'refillAmount');
+  }
+  if (options.intervalMs !== undefined && !(Number.isFinite(options.intervalMs) && options.intervalMs > 0)) {
+    throw new ValidationError('intervalMs must be positive', 'intervalMs');
+  }
+  if (options.initialTokens !== undefined && !(options.initialTokens >= 0)) {
+    throw new ValidationError('initialTokens must be non-negative', 'initialTokens');
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Markdown and HTML reports for exported Deep Research sessions
+ */
+
+import type { ChatMessage, ResearchSessionBundle } from '../api/deepResearch';
+
+/**
+ * Render an exported session as a Markdown report
+ *
+ * Answers cite sources by their number in the Sources section.
+ *
+ * @example
+ * ```typescript
+ * const bundle = await scrapebit.deepResearch.exportSession('session_abc123');
+ * await writeFile('research.md', renderResearchMarkdown(bundle));
+ * ```
+ */
+export function renderResearchMarkdown(bundle: ResearchSessionBundle): string {
+  const { session, items, messages, analyses } = bundle;
+  const cite = citationLabels(bundle);
+  const parts = [`# ${session.name}`];
+
+  if (session.description) {
+    parts.push(session.description);
+  }
+  parts.push(`_Exported ${bundle.exportedAt} · ${plural(items.length, 'source')} · ${plural(messages.length, 'message')}_`);
+
+  if (items.length > 0) {
+    parts.push('## Sources', items.map((item, i) => {
+      const link = item.sourceUrl ? ` <${item.sourceUrl}>` : '';
+      const preview = item.preview ? `\n   > ${item.preview.replace(/\s+/g, ' ').trim()}` : '';
+      return `${i + 1}. **${item.title}** (${item.type})${link}${preview}`;
+    }).join('\n'));
+  }
+
+  if (messages.length > 0) {
+    parts.push('## Conversation', ...messages.map((message) => {
+      const heading = message.role === 'user' ? '### Question' : '### Answer';
+      const sources = message.sources?.length
+        ? `\n\nSources: ${message.sources.map((source) => cite(source.itemId, source.title)).join(', ')}`
+        : '';
+      return `${heading}\n\n${message.content}${sources}`;
+    }));
+  }
+
+  if (analyses.length > 0) {
+    parts.push('## Analyses', ...analyses.map((analysis) => {
+      const sources = analysis.sources.length
+        ? `\n\nSources: ${analysis.sources.map((source) => cite(source.itemId, source.title)).join(', ')}`
+        : '';
+      return `### ${capitalize(analysis.type)} (${analysis.generatedAt})\n\n${analysis.analysis}${sources}`;
+    }));
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+/**
+ * Render an exported session as a standalone HTML report
+ *
+ * @example
+ * ```typescript
+ * const bundle = await scrapebit.deepResearch.exportSession('session_abc123');
+ * await writeFile('research.html', renderResearchHtml(bundle));
+ * ```
+ */
+export function renderResearchHtml(bundle: ResearchSessionBundle): string {
+  const { session, items, messages, analyses } = bundle;
+  const cite = citationLabels(bundle);
+  const citations = (sources: Array<{ itemId: string; title: string }> | undefined) => sources?.length
+    ? `<p class="sources">Sources: ${sources.map((source) => {
+      const index = items.findIndex((item) => item.id === source.itemId);
+      const label = escapeHtml(cite(source.itemId, source.title));
+      return index === -1 ? label : `<a href="#source-${index + 1}">${label}</a>`;
+    }).join(', ')}</p>`
+    : '';
+
+  const body = [
+    `<h1>${escapeHtml(session.name)}</h1>`,
+    session.description ? `<p>${escapeHtml(session.description)}</p>` : '',
+    `<p class="meta">Exported ${escapeHtml(bundle.exportedAt)} · ${plural(items.length, 'source')} · ${plural(messages.length, 'message')}</p>`,
+  ];
+
+  if (items.length > 0) {
+    body.push('<h2>Sources</h2>', '<ol>', ...items.map((item, i) => {
+      const href = item.sourceUrl && webUrl(item.sourceUrl);
+      const title = href
+        ? `<a href="${escapeHtml(href)}">${escapeHtml(item.title)}</a>`
+        : escapeHtml(item.title);
+      const source = item.sourceUrl && !href ? ` <span class="type">${escapeHtml(item.sourceUrl)}</span>` : '';
+      const preview = item.preview ? `<blockquote>${escapeHtml(item.preview)}</blockquote>` : '';
+      return `<li id="source-${i + 1}"><strong>${title}</strong>${source} <span class="type">${escapeHtml(item.type)}</span>${preview}</li>`;
+    }), '</ol>');
+  }
+
+  if (messages.length > 0) {
+    body.push('<h2>Conversation</h2>', ...messages.map((message: ChatMessage) =>
+      `<section class="${message.role}"><h3>${message.role === 'user' ? 'Question' : 'Answer'}</h3>`
+      + `${paragraphs(message.content)}${citations(message.sources)}</section>`));
+  }
+
+  if (analyses.length > 0) {
+    body.push('<h2>Analyses</h2>', ...analyses.map((analysis) =>
+      `<section class="analysis"><h3>${escapeHtml(capitalize(analysis.type))} `
+      + `<small>${escapeHtml(analysis.generatedAt)}</small></h3>`
+      + `${paragraphs(analysis.analysis)}${citations(analysis.sources)}</section>`));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.name)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+.meta, .sources, .type, small { color: #666; font-size: 0.9em; }
+blockquote { margin: 0.25rem 0 0.75rem; padding-left: 0.75rem; border-left: 3px solid #ddd; color: #444; }
+section.user h3 { color: #1a56db; }
+</style>
+</head>
+<body>
+${body.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Label sources `[n]` by their position in the bundle, or by title if the
+ * item is no longer in the session
+ */
+function citationLabels(bundle: ResearchSessionBundle): (itemId: string, title: string) => string {
+  const numbers = new Map(bundle.items.map((item, i) => [item.id, i + 1]));
+  return (itemId, title) => {
+    const number = numbers.get(itemId);
+    return number === undefined ? title : `[${number}]`;
+  };
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+/**
+ * The URL if it is safe to link to (`http:` or `https:`), so imported
+ * bundles cannot inject `javascript:` links
+ */
+function webUrl(value: string): string | undefined {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function capitalize(value: string): string {
+  return `${value[0].toUpperCase()}${value.slice(1)}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Retry policy helpers for the HTTP client
+ */
+
+import type { RetryPolicy, ScrapebitConfig } from '../types';
+import {
+  ScrapebitError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  RateLimitError,
+  ValidationError,
+} from './errors';
+
+/**
+ * Retry policy with every default filled in
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+/**
+ * Merge the `retries` shorthand and `retryPolicy` into a complete policy
+ */
+export function resolveRetryPolicy(config: ScrapebitConfig): ResolvedRetryPolicy {
+  const policy = config.retryPolicy || {};
+  const maxAttempts = policy.maxAttempts ?? (config.retries ?? 3) + 1;
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new ValidationError('retryPolicy.maxAttempts must be a positive integer', 'retryPolicy');
+  }
+
+  return {
+    maxAttempts,
+    baseDelayMs: policy.baseDelayMs ?? 1000,
+    maxDelayMs: policy.maxDelayMs ?? 10000,
+    jitter: policy.jitter ?? 'full',
+    retryableErrors: policy.retryableErrors ?? [NetworkError, TimeoutError, ServerError, RateLimitError],
+    retryableStatusCodes: policy.retryableStatusCodes ?? [],
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+    maxRetryAfterMs: policy.maxRetryAfterMs ?? 60000,
+    onRetry: policy.onRetry,
+  };
+}
+
+/**
+ * Whether an error may be retried under a policy
+ */
+export function isRetryableError(policy: ResolvedRetryPolicy, error: unknown): error is ScrapebitError {
+  if (!(error instanceof ScrapebitError)) {
+    return false;
+  }
+
+  if (policy.retryableErrors.some((errorClass) => error instanceof errorClass)) {
+    return true;
+  }
+
+  return error.statusCode !== undefined && policy.retryableStatusCodes.includes(error.statusCode);
+}
+
+/**
+ * Milliseconds to wait before the given retry, or `null` to give up
+ *
+ * @param retry - 1 for the first retry, 2 for the second, ...
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  retry: number,
+  error: ScrapebitError
+): number | null {
+  if (policy.respectRetryAfter && error instanceof RateLimitError && error.retryAfter !== undefined) {
+    const retryAfterMs = error.retryAfter * 1000;
+    return retryAfterMs > policy.maxRetryAfterMs ? null : retryAfterMs;
+  }
+
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs);
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * backoff);
+    case 'equal':
+      return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header value into seconds
+ *
+ * Accepts both delta-seconds and HTTP dates.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - now) / 1000));
+  }
+
+  return undefined;
+}
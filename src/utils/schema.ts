@@ -0,0 +1,205 @@
+/**
+ * Schema helpers for typed extraction
+ */
+
+import type {
+  SchemaField,
+  SchemaShape,
+  SchemaIssue,
+  StringSchemaField,
+  NumberSchemaField,
+  BooleanSchemaField,
+  ArraySchemaField,
+  ObjectSchemaField,
+} from '../types';
+
+/**
+ * Builders for schema fields
+ *
+ * @example
+ * ```typescript
+ * const product = {
+ *   name: field.string('Product name'),
+ *   price: field.number('Price in USD'),
+ *   inStock: field.optional(field.boolean('Whether the product is available')),
+ *   tags: field.array(field.string(), 'Category tags'),
+ * };
+ * ```
+ */
+export const field = {
+  string(description?: string): StringSchemaField {
+    return { type: 'string', description };
+  },
+
+  number(description?: string): NumberSchemaField {
+    return { type: 'number', description };
+  },
+
+  boolean(description?: string): BooleanSchemaField {
+    return { type: 'boolean', description };
+  },
+
+  array<I extends SchemaField>(items: I, description?: string): ArraySchemaField<I> {
+    return { type: 'array', items, description };
+  },
+
+  object<S extends SchemaShape>(fields: S, description?: string): ObjectSchemaField<S> {
+    return { type: 'object', fields, description };
+  },
+
+  optional<F extends SchemaField>(schemaField: F): F & { optional: true } {
+    return { ...schemaField, optional: true };
+  },
+};
+
+/**
+ * Options for validating rows against a schema
+ */
+export interface SchemaValidationOptions {
+  /**
+   * Convert numeric strings to numbers and `"true"`/`"false"` to booleans
+   * instead of reporting them
+   * @default false
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Build the `extract` map sent to the API from a schema
+ *
+ * Each field becomes a description that includes its expected type, so the
+ * AI returns values in the right shape.
+ */
+export function schemaToExtract(shape: SchemaShape): Record<string, string> {
+  const extract: Record<string, string> = {};
+
+  for (const [name, schemaField] of Object.entries(shape)) {
+    extract[name] = describeField(schemaField, name);
+  }
+
+  return extract;
+}
+
+/**
+ * Validate a single row against a schema
+ *
+ * @returns The (possibly coerced) row and the problems found in it
+ */
+export function validateRow(
+  shape: SchemaShape,
+  row: unknown,
+  options: SchemaValidationOptions = {}
+): { value: Record<string, unknown>; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const value = validateObject(shape, row, '', issues, options.coerce ?? false);
+  return { value: (value ?? {}) as Record<string, unknown>, issues };
+}
+
+function describeField(schemaField: SchemaField, fallback: string): string {
+  const description = schemaField.description || fallback;
+  const hint = typeHint(schemaField);
+  const optional = schemaField.optional ? ', optional' : '';
+
+  return hint || optional ? `${description} (${hint || 'string'}${optional})` : description;
+}
+
+function typeHint(schemaField: SchemaField): string {
+  switch (schemaField.type) {
+    case 'string':
+      return '';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'true or false';
+    case 'array':
+      return `list of ${typeHint(schemaField.items) || 'string'}`;
+    case 'object':
+      return `object with ${Object.entries(schemaField.fields as SchemaShape)
+        .map(([name, nested]) => `${name}: ${describeField(nested, name)}`)
+        .join('; ')}`;
+  }
+}
+
+function validateValue(
+  schemaField: SchemaField,
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+  coerce: boolean
+): unknown {
+  if (value === undefined || value === null) {
+    if (!schemaField.optional) {
+      issues.push({ path, message: 'is required' });
+    }
+    return value;
+  }
+
+  switch (schemaField.type) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (coerce && (typeof value === 'number' || typeof value === 'boolean')) return String(value);
+      break;
+
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      if (coerce && typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return Number(value);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (coerce && typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === 'true';
+      }
+      break;
+
+    case 'array':
+      if (Array.isArray(value)) {
+        return value.map((item, index) =>
+          validateValue(schemaField.items, item, `${path}[${index}]`, issues, coerce)
+        );
+      }
+      break;
+
+    case 'object':
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        return validateObject(schemaField.fields, value, path, issues, coerce);
+      }
+      break;
+  }
+
+  issues.push({ path, message: `expected ${schemaField.type}, received ${describeValue(value)}` });
+  return value;
+}
+
+function validateObject(
+  shape: SchemaShape,
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+  coerce: boolean
+): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path: path || '$', message: `expected object, received ${describeValue(value)}` });
+    return value;
+  }
+
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+
+  for (const [name, schemaField] of Object.entries(shape)) {
+    const fieldPath = path ? `${path}.${name}` : name;
+    const validated = validateValue(schemaField, result[name], fieldPath, issues, coerce);
+    if (validated !== undefined) {
+      result[name] = validated;
+    }
+  }
+
+  return result;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,235 @@
+/**
+ * Local CSV, JSON, NDJSON and Markdown serializers for scrape results
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type { ScrapeResult } from '../types';
+import { ValidationError } from './errors';
+
+/**
+ * Output format for serialized scrape results
+ */
+export type SerializeFormat = 'csv' | 'json' | 'ndjson' | 'markdown';
+
+/**
+ * Options for serializing scrape results
+ */
+export interface SerializeOptions {
+  /**
+   * Flatten nested objects into one column per leaf, e.g. `price.amount`.
+   * Without flattening, nested values are written as JSON in CSV and
+   * Markdown cells.
+   * @default false
+   */
+  flatten?: boolean;
+
+  /**
+   * Separator between key segments of flattened columns
+   * @default '.'
+   */
+  separator?: string;
+
+  /**
+   * Columns to write, in order. Defaults to the results' `headers`, merged
+   * in order of appearance, followed by any other keys found in the rows.
+   */
+  columns?: string[];
+}
+
+/**
+ * Options for writing scrape results to a file
+ */
+export interface WriteResultsOptions extends SerializeOptions {
+  /**
+   * Output format
+   * @default inferred from the file extension
+   */
+  format?: SerializeFormat;
+}
+
+/**
+ * Row with a value (or `null`) for every column
+ */
+export type SerializedRow = Record<string, unknown>;
+
+type Results = ScrapeResult | ScrapeResult[];
+
+const EXTENSIONS: Record<string, SerializeFormat> = {
+  '.csv': 'csv',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+};
+
+/**
+ * Merge results into uniform rows: every row has every column, in column
+ * order, with `null` for missing values. Suited to loading into columnar
+ * formats such as Parquet or Arrow.
+ *
+ * @example
+ * ```typescript
+ * const pages = await scrapebit.content.batchScrape({ urls, prompt: 'Products' });
+ * const { columns, rows } = toRows(pages, { flatten: true });
+ * ```
+ */
+export function toRows(results: Results, options: SerializeOptions = {}): { columns: string[]; rows: SerializedRow[] } {
+  const list = Array.isArray(results) ? results : [results];
+  const separator = options.separator ?? '.';
+  const source = list.flatMap((result) => result.data || []);
+  const data = options.flatten
+    ? source.map((row) => flattenRow(row, separator))
+    : source;
+
+  const columns = options.columns || collectColumns(list, data, options.flatten ? separator : undefined);
+  const rows = data.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])));
+  return { columns, rows };
+}
+
+/**
+ * Serialize results as CSV
+ *
+ * Fields containing commas, quotes, line breaks or surrounding spaces are
+ * quoted, with quotes doubled.
+ *
+ * @example
+ * ```typescript
+ * const result = await scrapebit.content.scrape({ url, prompt: 'Products' });
+ * await writeFile('products.csv', toCsv(result));
+ * ```
+ */
+export function toCsv(results: Results, options: SerializeOptions = {}): string {
+  const { columns, rows } = toRows(results, options);
+  const escape = (value: string) => /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return [
+    columns.map(escape).join(','),
+    ...rows.map((row) => columns.map((column) => escape(toCell(row[column]))).join(',')),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Serialize results as a JSON array of rows
+ *
+ * @example
+ * ```typescript
+ * await writeFile('products.json', toJson([page1, page2]));
+ * ```
+ */
+export function toJson(results: Results, options: SerializeOptions = {}): string {
+  return `${JSON.stringify(toRows(results, options).rows, null, 2)}\n`;
+}
+
+/**
+ * Serialize results as newline-delimited JSON, one row per line
+ *
+ * @example
+ * ```typescript
+ * await appendFile('products.ndjson', toNdjson(result));
+ * ```
+ */
+export function toNdjson(results: Results, options: SerializeOptions = {}): string {
+  return toRows(results, options).rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+}
+
+/**
+ * Serialize results as a Markdown table
+ *
+ * @example
+ * ```typescript
+ * console.log(toMarkdownTable(result, { columns: ['name', 'price'] }));
+ * ```
+ */
+export function toMarkdownTable(results: Results, options: SerializeOptions = {}): string {
+  const { columns, rows } = toRows(results, options);
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+  return [
+    line(columns.map(escape)),
+    line(columns.map(() => '---')),
+    ...rows.map((row) => line(columns.map((column) => escape(toCell(row[column]))))),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Serialize results in the given format
+ */
+export function serializeResults(results: Results, format: SerializeFormat, options: SerializeOptions = {}): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(results, options);
+    case 'json':
+      return toJson(results, options);
+    case 'ndjson':
+      return toNdjson(results, options);
+    case 'markdown':
+      return toMarkdownTable(results, options);
+    default:
+      throw new ValidationError(`Unknown format "${format as string}"`, 'format');
+  }
+}
+
+/**
+ * Write results from one or many scrapes to a single file
+ *
+ * @example
+ * ```typescript
+ * const pages = await scrapebit.content.batchScrape({ urls, prompt: 'Products' });
+ * await writeResults(pages, './products.csv', { flatten: true });
+ * ```
+ */
+export async function writeResults(results: Results, path: string, options: WriteResultsOptions = {}): Promise<void> {
+  const format = options.format || EXTENSIONS[extname(path).toLowerCase()];
+  if (!format) {
+    throw new ValidationError(`Cannot infer the format of "${path}"; pass format`, 'format');
+  }
+
+  await writeFile(path, serializeResults(results, format, options), 'utf8');
+}
+
+/**
+ * Columns in order of the results' headers, then any other keys in order of
+ * appearance. Flattened keys take the place of the header they came from.
+ */
+function collectColumns(results: ScrapeResult[], rows: SerializedRow[], separator?: string): string[] {
+  const keys = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+
+  const columns = new Set<string>();
+  results.forEach((result) => (result.headers || []).forEach((header) => {
+    const nested = separator === undefined ? [] : [...keys].filter((key) => key.startsWith(`${header}${separator}`));
+    if (nested.length === 0 || keys.has(header)) {
+      columns.add(header);
+    }
+    nested.forEach((key) => columns.add(key));
+  }));
+
+  keys.forEach((key) => columns.add(key));
+  return [...columns];
+}
+
+function flattenRow(row: Record<string, unknown>, separator: string, prefix = ''): SerializedRow {
+  const flat: SerializedRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    const name = `${prefix}${key}`;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      Object.assign(flat, flattenRow(value as Record<string, unknown>, separator, `${name}${separator}`));
+    } else {
+      flat[name] = value;
+    }
+  }
+  return flat;
+}
+
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
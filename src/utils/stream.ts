@@ -0,0 +1,226 @@
+/**
+ * Streaming response parser for server-sent events and NDJSON
+ */
+
+import { AbortError, NetworkError, ScrapebitError, TimeoutError } from './errors';
+
+/**
+ * One event read from a streaming response
+ */
+export interface StreamEvent {
+  /**
+   * Event name, e.g. `delta`, `source` or `done`
+   */
+  event: string;
+
+  /**
+   * Parsed JSON payload of the event
+   */
+  data: unknown;
+}
+
+/**
+ * Wire format of a streaming response
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * `Accept` header value asking the API for a streaming response
+ */
+export const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson';
+
+/**
+ * Options for reading a streaming response
+ */
+export interface ReadStreamOptions {
+  /**
+   * Cancels the stream and rejects with an AbortError
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Fail with a TimeoutError if no data arrives for this long (ms)
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Stream format for a `Content-Type` header, if it is a streaming type
+ */
+export function streamFormat(contentType: string | null): StreamFormat | undefined {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type === 'text/event-stream') {
+    return 'sse';
+  }
+  if (type === 'application/x-ndjson' || type === 'application/ndjson') {
+    return 'ndjson';
+  }
+  return undefined;
+}
+
+/**
+ * Read events from a streaming response body
+ *
+ * The body is only read when the consumer asks for the next event, so a
+ * slow consumer applies backpressure to the connection instead of
+ * buffering the whole response. Breaking out of the loop cancels the body.
+ *
+ * SSE events are `event: <name>` / `data: <json>` blocks; NDJSON lines are
+ * `{"event": "<name>", "data": <json>}`. An `error` event is thrown as a
+ * ScrapebitError.
+ *
+ * @example
+ * ```typescript
+ * for await (const { event, data } of readEventStream(response.body, 'sse')) {
+ *   console.log(event, data);
+ * }
+ * ```
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat,
+  options: ReadStreamOptions = {}
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const { signal, idleTimeout } = options;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parse = format === 'sse' ? createSseParser() : parseNdjsonLine;
+
+  let buffer = '';
+  let finished = false;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+
+      if (idleTimeout) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          cancel();
+        }, idleTimeout);
+      }
+
+      let chunk: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        throw new NetworkError(`Stream interrupted: ${(error as Error).message}`);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      if (timedOut) {
+        throw new TimeoutError(idleTimeout!);
+      }
+
+      buffer += chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = chunk.done ? '' : lines.pop()!;
+      if (chunk.done) {
+        lines.push('');
+      }
+
+      for (const line of lines) {
+        const event = parse(line);
+        if (!event) {
+          continue;
+        }
+        if (event.event === 'error') {
+          throw streamError(event.data);
+        }
+        yield event;
+      }
+
+      if (chunk.done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    if (!finished) {
+      cancel();
+    }
+  }
+}
+
+/**
+ * Parser that collects SSE fields and returns an event at each blank line
+ */
+function createSseParser(): (line: string) => StreamEvent | undefined {
+  let event = '';
+  let data: string[] = [];
+
+  return (line) => {
+    if (line === '') {
+      if (data.length === 0) {
+        event = '';
+        return undefined;
+      }
+
+      const dispatched = { event: event || 'message', data: parseJson(data.join('\n')) };
+      event = '';
+      data = [];
+      return dispatched;
+    }
+
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+    return undefined;
+  };
+}
+
+function parseNdjsonLine(line: string): StreamEvent | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  const parsed = parseJson(line) as { event?: string; data?: unknown } | undefined;
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.event !== 'string') {
+    throw new ScrapebitError('Malformed NDJSON stream line', 'STREAM_ERROR', undefined, { line });
+  }
+  return { event: parsed.event, data: parsed.data };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function streamError(data: unknown): ScrapebitError {
+  const payload = (data && typeof data === 'object' ? data : { error: data }) as {
+    error?: string;
+    message?: string;
+    code?: string;
+  };
+  return new ScrapebitError(
+    payload.error || payload.message || 'Stream failed',
+    payload.code || 'STREAM_ERROR'
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * Declarative sync - Plan the changes that make remote resources match a
+ * desired configuration
+ */
+
+import { ValidationError, throwIfAborted } from './errors';
+
+/**
+ * Options for syncing monitors or scheduled tasks
+ */
+export interface SyncOptions {
+  /**
+   * Delete remote resources that are not in the desired list. With
+   * `matchBy: 'tag'`, only resources carrying a sync tag are deleted.
+   * @default false
+   */
+  prune?: boolean;
+
+  /**
+   * Compute the plan without applying it
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Match desired and remote resources by `name`, or by the tag starting
+   * with `tagPrefix` (e.g. `sync:prices-acme`)
+   * @default 'name'
+   */
+  matchBy?: 'name' | 'tag';
+
+  /**
+   * Prefix of the tag that identifies a resource when `matchBy` is `'tag'`
+   * @default 'sync:'
+   */
+  tagPrefix?: string;
+
+  /**
+   * Called with the readable diff before anything is applied, e.g.
+   * `console.log`. The diff is also returned on the plan.
+   */
+  log?: (diff: string) => void;
+
+  /**
+   * Cancel the sync between requests
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a sync does to one resource. `replace` creates a new resource and
+ * then deletes the old one, for changes an update cannot apply.
+ */
+export type SyncAction = 'create' | 'update' | 'replace' | 'delete' | 'unchanged';
+
+/**
+ * A field whose remote value differs from the desired one
+ */
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Planned change to one resource
+ */
+export interface SyncChange<D, C> {
+  action: SyncAction;
+
+  /**
+   * Name or sync tag the resource was matched by
+   */
+  key: string;
+
+  /**
+   * Desired configuration; missing for deletions
+   */
+  desired?: D;
+
+  /**
+   * Remote resource; missing for creations
+   */
+  current?: C;
+
+  /**
+   * Differing fields, for updates and replacements
+   */
+  changes: FieldChange[];
+}
+
+/**
+ * Changes a sync makes, or would make in a dry run
+ */
+export interface SyncPlan<D, C> {
+  changes: Array<SyncChange<D, C>>;
+
+  /**
+   * Number of resources per action
+   */
+  summary: Record<SyncAction, number>;
+
+  /**
+   * Readable diff of the plan, as passed to `log` before applying
+   */
+  diff: string;
+
+  /**
+   * Whether the plan was applied (`false` for dry runs)
+   */
+  applied: boolean;
+}
+
+/**
+ * A resource that can be matched by name or sync tag
+ */
+export interface Syncable {
+  name?: string;
+  tags?: string[];
+}
+
+/**
+ * How to compare one kind of resource
+ */
+export interface SyncSpec<D extends Syncable, C extends Syncable & { id: string }> {
+  /**
+   * Plural label for the diff, e.g. `'Monitors'`
+   */
+  label: string;
+
+  /**
+   * Differences between a desired and a remote resource, and whether they
+   * need the resource to be recreated
+   */
+  compare(desired: D, current: C): { changes: FieldChange[]; replace?: boolean };
+}
+
+/**
+ * Match desired resources against remote ones and plan the changes
+ *
+ * @throws {ValidationError} If a desired resource has no key, or two share one
+ */
+export function planSync<D extends Syncable, C extends Syncable & { id: string }>(
+  spec: SyncSpec<D, C>,
+  desired: D[],
+  current: C[],
+  options: SyncOptions = {}
+): SyncPlan<D, C> {
+  const keyOf = (item: Syncable) => syncKey(item, options);
+  const remaining = new Map<string, C[]>();
+  for (const resource of current) {
+    const key = keyOf(resource);
+    if (key !== undefined) {
+      remaining.set(key, [...(remaining.get(key) || []), resource]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const changes: Array<SyncChange<D, C>> = desired.map((item, index) => {
+    const key = keyOf(item);
+    if (key === undefined) {
+      throw new ValidationError(
+        options.matchBy === 'tag'
+          ? `${spec.label} entry ${index} has no "${options.tagPrefix ?? 'sync:'}" tag`
+          : `${spec.label} entry ${index} has no name`,
+        options.matchBy === 'tag' ? 'tags' : 'name'
+      );
+    }
+    if (seen.has(key)) {
+      throw new ValidationError(`${spec.label} entry "${key}" appears more than once`, options.matchBy === 'tag' ? 'tags' : 'name');
+    }
+    seen.add(key);
+
+    const [match, ...duplicates] = remaining.get(key) || [];
+    remaining.set(key, duplicates);
+    if (!match) {
+      return { action: 'create', key, desired: item, changes: [] };
+    }
+
+    const { changes: fields, replace } = spec.compare(item, match);
+    const action: SyncAction = fields.length === 0 ? 'unchanged' : replace ? 'replace' : 'update';
+    return { action, key, desired: item, current: match, changes: fields };
+  });
+
+  if (options.prune) {
+    for (const [key, resources] of remaining) {
+      resources.forEach((resource) => changes.push({ action: 'delete', key, current: resource, changes: [] }));
+    }
+  }
+
+  const summary: Record<SyncAction, number> = { create: 0, update: 0, replace: 0, delete: 0, unchanged: 0 };
+  changes.forEach((change) => summary[change.action]++);
+
+  return { changes, summary, diff: formatSyncPlan(spec.label, changes, summary, options.dryRun), applied: false };
+}
+
+/**
+ * Log a plan and apply its changes one at a time, unless it is a dry run
+ */
+export async function applySync<D, C>(
+  plan: SyncPlan<D, C>,
+  options: SyncOptions,
+  apply: (change: SyncChange<D, C>) => Promise<void>
+): Promise<SyncPlan<D, C>> {
+  options.log?.(plan.diff);
+  if (options.dryRun) {
+    return plan;
+  }
+
+  for (const change of plan.changes) {
+    if (change.action !== 'unchanged') {
+      throwIfAborted(options.signal);
+      await apply(change);
+    }
+  }
+  return { ...plan, applied: true };
+}
+
+/**
+ * Fields of `desired` that differ from `current`. Fields left out of the
+ * desired configuration are not compared.
+ */
+export function diffFields<D extends object>(desired: D, current: object, fields: ReadonlyArray<keyof D & string>): FieldChange[] {
+  return fields
+    .filter((field) => desired[field] !== undefined)
+    .filter((field) => !isEqual(desired[field], (current as Record<string, unknown>)[field]))
+    .map((field) => ({ field, from: (current as Record<string, unknown>)[field], to: desired[field] }));
+}
+
+/**
+ * Structural equality for JSON-like values, ignoring key order
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return false;
+}
+
+function syncKey(item: Syncable, options: SyncOptions): string | undefined {
+  if (options.matchBy === 'tag') {
+    const prefix = options.tagPrefix ?? 'sync:';
+    return item.tags?.find((tag) => tag.startsWith(prefix) && tag.length > prefix.length);
+  }
+  return item.name || undefined;
+}
+
+function formatSyncPlan<D, C>(
+  label: string,
+  changes: Array<SyncChange<D, C>>,
+  summary: Record<SyncAction, number>,
+  dryRun?: boolean
+): string {
+  const counts = [
+    `${summary.create} to create`,
+    `${summary.update} to update`,
+    ...(summary.replace ? [`${summary.replace} to replace`] : []),
+    `${summary.delete} to delete`,
+    `${summary.unchanged} unchanged`,
+  ].join(', ');
+  const lines = [`${label}: ${counts}${dryRun ? ' (dry run)' : ''}`];
+  const symbols: Record<SyncAction, string> = { create: '+', update: '~', replace: '-/+', delete: '-', unchanged: '' };
+
+  for (const change of changes) {
+    if (change.action === 'unchanged') {
+      continue;
+    }
+    const id = change.current ? ` (${(change.current as { id?: string }).id})` : '';
+    lines.push(`  ${symbols[change.action]} ${change.key}${id}`);
+    change.changes.forEach(({ field, from, to }) => {
+      lines.push(`      ${field}: ${formatValue(from)} -> ${formatValue(to)}`);
+    });
+  }
+  return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(unset)' : JSON.stringify(value);
+}
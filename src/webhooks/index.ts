@@ -0,0 +1,24 @@
+export {
+  Webhooks,
+  MemoryReplayStore,
+  parseWebhookEvent,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENT_TYPES,
+  type ReplayStore,
+  type WebhookVerifierOptions,
+  type WebhookBody,
+  type WebhookSignatureHeader,
+} from './verify';
+export {
+  WebhookReceiver,
+  type WebhookReceiverOptions,
+  type WebhookHandler,
+  type WebhookEventOf,
+  type WebhookRequest,
+  type WebhookResponse,
+  type ExpressLikeRequest,
+  type ExpressLikeResponse,
+  type FastifyLikeInstance,
+  type FastifyLikeRequest,
+  type FastifyLikeReply,
+} from './receiver';
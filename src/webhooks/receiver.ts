@@ -0,0 +1,377 @@
+/**
+ * Webhook receiver - Verify deliveries and dispatch them to typed handlers
+ *
+ * The receiver answers Scrapebit the way it expects: 2xx once every
+ * handler for an event has succeeded, 400 for deliveries that fail
+ * verification (never retried), and 500 when a handler throws, so the
+ * delivery is retried later. Retries of an event that was already handled
+ * are acknowledged without running the handlers again; retries that arrive
+ * while the event is still being handled get 409 and are sent again later.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { WebhookEvent, WebhookEventType } from '../types';
+import { ValidationError, WebhookVerificationError } from '../utils/errors';
+import {
+  MemoryReplayStore,
+  SIGNATURE_HEADER,
+  Webhooks,
+  parseWebhookEvent,
+  type ReplayStore,
+  type WebhookBody,
+  type WebhookVerifierOptions,
+} from './verify';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The payload type of a single webhook event
+ */
+export type WebhookEventOf<E extends WebhookEventType> = NarrowEvent<WebhookEvent, E>;
+
+type NarrowEvent<T, E> = T extends { event: infer N } ? (E extends N ? T & { event: E } : never) : never;
+
+/**
+ * Handler for one event type, or for every event with `'*'`
+ */
+export type WebhookHandler<E extends WebhookEventType | '*'> = (
+  event: E extends WebhookEventType ? WebhookEventOf<E> : WebhookEvent
+) => void | Promise<void>;
+
+/**
+ * Options for a webhook receiver
+ */
+export interface WebhookReceiverOptions extends WebhookVerifierOptions {
+  /**
+   * How long handled events are remembered to skip redeliveries, in
+   * milliseconds. Uses `replayStore` (in-memory by default).
+   * @default 86400000 (24 hours)
+   */
+  dedupeTtlMs?: number;
+
+  /**
+   * How long an event counts as being handled, in milliseconds. Redeliveries
+   * in that time are answered with 409. Only matters when the process stops
+   * before answering; otherwise the event is released as soon as it is.
+   * @default 300000 (5 minutes)
+   */
+  processingTtlMs?: number;
+
+  /**
+   * Largest accepted request body in bytes
+   * @default 1048576 (1 MiB)
+   */
+  maxBodySize?: number;
+
+  /**
+   * Called when a handler throws, before the delivery is answered with 500
+   */
+  onError?: (error: unknown, event: WebhookEvent) => void;
+}
+
+/**
+ * Framework-independent view of a webhook request
+ */
+export interface WebhookRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: WebhookBody;
+}
+
+/**
+ * Status and JSON body to answer a delivery with
+ */
+export interface WebhookResponse {
+  status: number;
+  body: {
+    received: boolean;
+    duplicate?: boolean;
+    error?: string;
+  };
+}
+
+/**
+ * The parts of an Express request and response the adapter uses
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+export interface ExpressLikeResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * The parts of a Fastify instance, request and reply the adapters use
+ */
+export interface FastifyLikeInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Buffer, done: (error: Error | null, body?: Buffer) => void) => void
+  ): unknown;
+  post(path: string, handler: (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>): unknown;
+}
+
+export interface FastifyLikeRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+export interface FastifyLikeReply {
+  code(status: number): { send(body: unknown): unknown };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Receiver
+// =============================================================================
+
+/**
+ * Receives Scrapebit webhooks over HTTP and dispatches them to handlers
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { WebhookReceiver } from '@dataotto/scrapebit-sdk';
+ *
+ * const receiver = new WebhookReceiver({ secret: process.env.SCRAPEBIT_WEBHOOK_SECRET! });
+ *
+ * receiver.on('monitor.change_detected', async (event) => {
+ *   await notify(event.data.monitorName, event.data.check.changeSummary);
+ * });
+ * receiver.on('scrape.completed', (event) => save(event.data.result));
+ *
+ * createServer(receiver.nodeHandler()).listen(3000);
+ * ```
+ */
+export class WebhookReceiver {
+  private readonly webhooks: Webhooks;
+  private readonly store: ReplayStore | null;
+  private readonly dedupeTtlMs: number;
+  private readonly processingTtlMs: number;
+  private readonly maxBodySize: number;
+  private readonly onError?: (error: unknown, event: WebhookEvent) => void;
+  private readonly handlers = new Map<WebhookEventType | '*', Array<(event: WebhookEvent) => void | Promise<void>>>();
+
+  constructor(options: WebhookReceiverOptions) {
+    // Signatures are checked here, but redeliveries are detected by event
+    // below: a retry of a delivery that failed must be let through
+    this.webhooks = new Webhooks({ ...options, replayStore: false });
+    this.store = options.replayStore === false ? null : options.replayStore || new MemoryReplayStore();
+    if (this.store && !this.store.delete) {
+      // Without delete, a delivery would stay marked as processing and
+      // every retry would be turned away
+      throw new ValidationError('replayStore must implement delete() to dedupe webhook deliveries', 'replayStore');
+    }
+    this.dedupeTtlMs = options.dedupeTtlMs ?? DAY_MS;
+    this.processingTtlMs = options.processingTtlMs ?? 5 * 60 * 1000;
+    this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Register a handler for an event type, or for every event with `'*'`.
+   * Handlers run one after another in registration order.
+   */
+  on<E extends WebhookEventType | '*'>(type: E, handler: WebhookHandler<E>): this {
+    const list = this.handlers.get(type) || [];
+    list.push(handler as (event: WebhookEvent) => void | Promise<void>);
+    this.handlers.set(type, list);
+    return this;
+  }
+
+  /**
+   * Verify a delivery, run its handlers and decide the response
+   *
+   * Use this directly to plug the receiver into a framework without an
+   * adapter.
+   */
+  async handle(request: WebhookRequest): Promise<WebhookResponse> {
+    if (request.method && request.method.toUpperCase() !== 'POST') {
+      return { status: 405, body: { received: false, error: 'Method not allowed' } };
+    }
+
+    let event: WebhookEvent;
+    try {
+      this.webhooks.verify(request.body, request.headers[SIGNATURE_HEADER]);
+      event = parseWebhookEvent(request.body);
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return { status: 400, body: { received: false, error: error.message } };
+      }
+      throw error;
+    }
+
+    if (!this.store) {
+      return this.dispatch(event);
+    }
+
+    // An event is "processing" while one delivery holds its processing key,
+    // and "done" once its done key is recorded. The done key is only read
+    // and written by the holder of the processing key.
+    const key = deliveryKey(event);
+    const processing = `${key}:processing`;
+    const done = `${key}:done`;
+    if (!(await this.store.add(processing, this.processingTtlMs))) {
+      return { status: 409, body: { received: false, error: 'Webhook is already being processed' } };
+    }
+
+    try {
+      if (!(await this.store.add(done, this.dedupeTtlMs))) {
+        return { status: 200, body: { received: true, duplicate: true } };
+      }
+      // Only record the event as done once every handler has succeeded
+      await this.store.delete!(done);
+
+      const response = await this.dispatch(event);
+      if (response.status === 200) {
+        await this.store.add(done, this.dedupeTtlMs);
+      }
+      return response;
+    } finally {
+      await this.store.delete!(processing);
+    }
+  }
+
+  /**
+   * Run the handlers for an event
+   */
+  private async dispatch(event: WebhookEvent): Promise<WebhookResponse> {
+    try {
+      for (const handler of [...(this.handlers.get(event.event) || []), ...(this.handlers.get('*') || [])]) {
+        await handler(event);
+      }
+    } catch (error) {
+      this.onError?.(error, event);
+      return { status: 500, body: { received: false, error: 'Webhook handler failed' } };
+    }
+
+    return { status: 200, body: { received: true } };
+  }
+
+  /**
+   * Request listener for `http.createServer`, or for any framework that
+   * passes Node requests through unparsed
+   */
+  nodeHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      this.respondTo(req, (status, body) => {
+        // Close the connection instead of draining an oversized body
+        res.writeHead(status, { 'Content-Type': 'application/json', ...(status === 413 ? { Connection: 'close' } : {}) });
+        res.end(JSON.stringify(body));
+      });
+    };
+  }
+
+  /**
+   * Express route handler. Mount it with `express.raw()` (or no body
+   * parser) so the signature can be checked against the raw body.
+   *
+   * @example
+   * ```typescript
+   * app.post('/webhooks/scrapebit', express.raw({ type: 'application/json' }), receiver.expressHandler());
+   * ```
+   */
+  expressHandler(): (req: ExpressLikeRequest, res: ExpressLikeResponse) => void {
+    return (req, res) => {
+      this.respondTo(req, (status, body) => res.status(status).json(body));
+    };
+  }
+
+  /**
+   * Fastify plugin registering the receiver on `path`, with a raw body
+   * parser scoped to the plugin
+   *
+   * @example
+   * ```typescript
+   * await fastify.register(receiver.fastifyPlugin('/webhooks/scrapebit'));
+   * ```
+   */
+  fastifyPlugin(path: string): (fastify: FastifyLikeInstance) => Promise<void> {
+    return async (fastify) => {
+      fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => done(null, body));
+      fastify.post(path, async (request, reply) => {
+        const { status, body } = await this.handleParsed(request.method, request.headers, request.body);
+        return reply.code(status).send(body);
+      });
+    };
+  }
+
+  /**
+   * Read the body of a Node request, unless a raw body parser already did,
+   * and answer it
+   */
+  private respondTo(req: ExpressLikeRequest, send: (status: number, body: WebhookResponse['body']) => void): void {
+    const body = req.body !== undefined ? Promise.resolve(req.body) : this.readBody(req);
+
+    body
+      .then((raw) => raw === null
+        ? { status: 413, body: { received: false, error: 'Webhook body is too large' } }
+        : this.handleParsed(req.method, req.headers, raw))
+      .then(
+        ({ status, body: response }) => send(status, response),
+        () => send(500, { received: false, error: 'Webhook receiver failed' })
+      );
+  }
+
+  private async handleParsed(
+    method: string | undefined,
+    headers: WebhookRequest['headers'],
+    body: unknown
+  ): Promise<WebhookResponse> {
+    if (typeof body !== 'string' && !(body instanceof Uint8Array)) {
+      return {
+        status: 500,
+        body: { received: false, error: 'Webhook body was already parsed; the raw body is needed to verify it' },
+      };
+    }
+    return this.handle({ method, headers, body });
+  }
+
+  /**
+   * Collect a request body, or resolve `null` as soon as it exceeds the
+   * limit. The rest of an oversized body is left unread.
+   */
+  private readBody(req: IncomingMessage): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      if (Number(req.headers['content-length']) > this.maxBodySize) {
+        req.pause();
+        resolve(null);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          req.off('data', onData);
+          req.off('end', onEnd);
+          req.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      };
+      const onEnd = () => resolve(Buffer.concat(chunks));
+
+      req.on('data', onData);
+      req.on('end', onEnd);
+      req.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Identity of an event that stays the same across redeliveries
+ */
+function deliveryKey(event: WebhookEvent): string {
+  const id = 'id' in event.data ? event.data.id : `${event.data.monitorId}:${event.data.check.id}`;
+  return `webhook:${event.event}:${id}`;
+}
@@ -0,0 +1,311 @@
+/**
+ * Webhook verification - Prove a delivery came from Scrapebit
+ *
+ * Every webhook request carries a `Scrapebit-Signature` header of the form
+ * `t=<unix seconds>,v1=<hex digest>`, where the digest is an HMAC-SHA256 of
+ * `<timestamp>.<raw body>` keyed with your webhook signing secret.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { WebhookEvent, WebhookEventType } from '../types';
+import { ValidationError, WebhookVerificationError } from '../utils/errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Name of the HTTP header carrying the webhook signature
+ */
+export const SIGNATURE_HEADER = 'scrapebit-signature';
+
+/**
+ * Every event Scrapebit can deliver
+ */
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'scrape.completed',
+  'scrape.failed',
+  'pdf.completed',
+  'pdf.failed',
+  'screenshot.completed',
+  'screenshot.failed',
+  'monitor.change_detected',
+  'monitor.error',
+];
+
+/**
+ * Store used to remember signatures that were already accepted
+ *
+ * The in-memory default only protects a single process. Implement this
+ * interface on top of a shared store (e.g. Redis `SET NX PX`) when several
+ * instances receive webhooks.
+ */
+export interface ReplayStore {
+  /**
+   * Record a key for `ttlMs` milliseconds
+   *
+   * @returns `false` if the key was already recorded and has not expired
+   */
+  add(key: string, ttlMs: number): boolean | Promise<boolean>;
+
+  /**
+   * Forget a key, so it can be added again. Required by `WebhookReceiver`,
+   * which releases an event once a delivery of it has been answered.
+   */
+  delete?(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for verifying webhooks
+ */
+export interface WebhookVerifierOptions {
+  /**
+   * Webhook signing secret from the Scrapebit dashboard
+   */
+  secret: string;
+
+  /**
+   * Maximum age of a delivery in seconds. `0` turns the age check off;
+   * accepted signatures are still remembered for at least 24 hours.
+   * @default 300
+   */
+  tolerance?: number;
+
+  /**
+   * Store used for replay protection. Pass `false` to disable.
+   * @default in-memory store
+   */
+  replayStore?: ReplayStore | false;
+}
+
+/**
+ * Shortest time accepted signatures are remembered, so replay protection
+ * still holds with a short or disabled (`0`) tolerance
+ */
+const MIN_REPLAY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Raw request body as received, before any JSON parsing
+ */
+export type WebhookBody = string | Uint8Array;
+
+/**
+ * Signature header value as exposed by Node's `IncomingMessage.headers`
+ */
+export type WebhookSignatureHeader = string | string[] | undefined | null;
+
+// =============================================================================
+// Replay Store
+// =============================================================================
+
+/**
+ * Process-local replay store that expires keys lazily. Keys are kept in
+ * insertion order, so expiring them stops at the first live one.
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private readonly entries = new Map<string, number>();
+
+  add(key: string, ttlMs: number): boolean {
+    const now = Date.now();
+
+    for (const [existing, expiresAt] of this.entries) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.entries.delete(existing);
+    }
+
+    // A key with a shorter TTL can outlive its expiry behind a longer one
+    const expiresAt = this.entries.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlMs);
+    return true;
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+/**
+ * Verifies and parses incoming Scrapebit webhooks
+ *
+ * @example
+ * ```typescript
+ * import { Webhooks } from '@scrapebit/sdk';
+ *
+ * const webhooks = new Webhooks({ secret: process.env.SCRAPEBIT_WEBHOOK_SECRET! });
+ *
+ * app.post('/webhooks/scrapebit', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   const event = await webhooks.constructEvent(req.body, req.headers['scrapebit-signature']);
+ *
+ *   if (event.event === 'monitor.change_detected') {
+ *     console.log(event.data.check.changeSummary);
+ *   }
+ *
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export class Webhooks {
+  private readonly secret: string;
+  private readonly tolerance: number;
+  private readonly replayStore: ReplayStore | null;
+
+  constructor(options: WebhookVerifierOptions) {
+    if (!options?.secret) {
+      throw new ValidationError('Webhook secret is required', 'secret');
+    }
+
+    this.secret = options.secret;
+    this.tolerance = options.tolerance ?? 300;
+    this.replayStore = options.replayStore === false
+      ? null
+      : options.replayStore || new MemoryReplayStore();
+  }
+
+  /**
+   * Verify a delivery and return the typed event
+   *
+   * @param body - The raw request body, exactly as received
+   * @param signature - Value of the `Scrapebit-Signature` header
+   *
+   * @throws {WebhookVerificationError} If the signature is missing, invalid,
+   * too old, already seen, or the body is not a Scrapebit event
+   */
+  async constructEvent(body: WebhookBody, signature: WebhookSignatureHeader): Promise<WebhookEvent> {
+    const { timestamp, digest } = this.verify(body, signature);
+    // Parse first, so a payload that is rejected does not use up its signature
+    const event = parseWebhookEvent(body);
+
+    if (this.replayStore) {
+      const ttlMs = Math.max(this.tolerance * 1000, MIN_REPLAY_TTL_MS);
+      const fresh = await this.replayStore.add(`${timestamp}.${digest}`, ttlMs);
+      if (!fresh) {
+        throw new WebhookVerificationError('replayed', 'Webhook delivery was already processed');
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Check the signature of a delivery without parsing it or recording it
+   * for replay protection
+   *
+   * @throws {WebhookVerificationError} If the signature is missing, invalid or too old
+   */
+  verify(body: WebhookBody, signature: WebhookSignatureHeader): { timestamp: number; digest: string } {
+    const header = Array.isArray(signature) ? signature[0] : signature;
+    if (!header) {
+      throw new WebhookVerificationError('missing_signature', 'Missing Scrapebit-Signature header');
+    }
+
+    const { timestamp, digests } = parseSignatureHeader(header);
+
+    const age = Math.floor(Date.now() / 1000) - timestamp;
+    if (this.tolerance > 0 && Math.abs(age) > this.tolerance) {
+      throw new WebhookVerificationError(
+        'timestamp_out_of_tolerance',
+        `Webhook timestamp is outside the ${this.tolerance}s tolerance`
+      );
+    }
+
+    const expected = Buffer.from(computeSignature(this.secret, timestamp, body), 'hex');
+    const match = digests.find((digest) => {
+      const candidate = Buffer.from(digest, 'hex');
+      return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+
+    if (!match) {
+      throw new WebhookVerificationError('signature_mismatch', 'Webhook signature does not match');
+    }
+
+    return { timestamp, digest: match };
+  }
+
+  /**
+   * Build a valid signature header for a body, e.g. to test your handlers
+   *
+   * @example
+   * ```typescript
+   * const body = JSON.stringify(payload);
+   * const header = webhooks.sign(body);
+   * await webhooks.constructEvent(body, header);
+   * ```
+   */
+  sign(body: WebhookBody, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${computeSignature(this.secret, timestamp, body)}`;
+  }
+}
+
+/**
+ * Parse a webhook body into a typed event without checking its signature
+ *
+ * Only use this for payloads that were verified by other means.
+ *
+ * @throws {WebhookVerificationError} If the body is not a Scrapebit event
+ */
+export function parseWebhookEvent(body: WebhookBody): WebhookEvent {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(typeof body === 'string' ? body : Buffer.from(body).toString('utf8'));
+  } catch {
+    throw new WebhookVerificationError('invalid_payload', 'Webhook body is not valid JSON');
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new WebhookVerificationError('invalid_payload', 'Webhook body must be a JSON object');
+  }
+
+  const { event, timestamp, data } = payload as Record<string, unknown>;
+
+  if (typeof event !== 'string' || !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType)) {
+    throw new WebhookVerificationError('invalid_payload', `Unknown webhook event '${String(event)}'`);
+  }
+
+  if (typeof timestamp !== 'string' || !data || typeof data !== 'object') {
+    throw new WebhookVerificationError('invalid_payload', 'Webhook body is missing timestamp or data');
+  }
+
+  return payload as WebhookEvent;
+}
+
+/**
+ * Parse `t=<timestamp>,v1=<digest>[,v1=<digest>]`
+ */
+function parseSignatureHeader(header: string): { timestamp: number; digests: string[] } {
+  let timestamp: number | undefined;
+  const digests: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      digests.push(value);
+    }
+  }
+
+  if (timestamp === undefined || !Number.isInteger(timestamp) || digests.length === 0) {
+    throw new WebhookVerificationError('malformed_signature', 'Malformed Scrapebit-Signature header');
+  }
+
+  return { timestamp, digests };
+}
+
+function computeSignature(secret: string, timestamp: number, body: WebhookBody): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scrapebit, AbortError, ScrapebitError, TimeoutError } from '../src';
+
+const apiKey = 'sb_live_abc123def456789012345678901234';
+
+function hangingFetch() {
+  return vi.fn((_url: string, init: { signal: AbortSignal }) => new Promise<Response>((_resolve, reject) => {
+    init.signal.addEventListener('abort', () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  }));
+}
+
+describe('cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should reject with AbortError when the signal fires mid-request', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const controller = new AbortController();
+    const client = new Scrapebit(apiKey);
+
+    const pending = client.content.scrape({ url: 'https://example.com' }, { signal: controller.signal });
+    controller.abort();
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).toBeInstanceOf(ScrapebitError);
+  });
+
+  it('should not send a request when the signal already fired', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new Scrapebit(apiKey).pdf.get('pdf_1', { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting between retries', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+    const client = new Scrapebit(apiKey, { retryPolicy: { baseDelayMs: 60000, jitter: 'none' } });
+
+    const pending = client.credits.getBalance({ signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply a per-call timeout', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const client = new Scrapebit(apiKey, { retries: 0 });
+
+    await expect(client.deepResearch.chat('session_1', { message: 'Hi' }, { timeout: 20 }))
+      .rejects.toBeInstanceOf(TimeoutError);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Scrapebit,
+  ValidationError,
+  evaluateAlertRule,
+  evaluateAlertRules,
+  isQuietTime,
+  queryJsonPath,
+  validateAlertRules,
+} from '../src';
+import type { AlertRule } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('alert rules', () => {
+  describe('evaluateAlertRule', () => {
+    it('should compare numbers against thresholds and previous values', () => {
+      const drop: AlertRule = { type: 'threshold', condition: 'decrease', value: 10, unit: 'percent' };
+
+      expect(evaluateAlertRule(drop, { previous: 'Price: $80.00', current: 'Price: $70.00' }))
+        .toEqual({ rule: drop, matched: true, reason: '80 -> 70 (-12.5%)' });
+      expect(evaluateAlertRule(drop, { previous: 'Price: $80.00', current: 'Price: $79.99' }).matched).toBe(false);
+      expect(evaluateAlertRule(drop, { current: 'Price: $70.00' }))
+        .toMatchObject({ matched: false, reason: 'no number in the previous content' });
+
+      const above: AlertRule = { type: 'threshold', condition: 'above', value: 1000, pattern: 'Total: \\$([\\d,.]+)' };
+      expect(evaluateAlertRule(above, { current: 'Items: 3\nTotal: $1,299.50' }))
+        .toMatchObject({ matched: true, reason: '1299.5 is above 1000' });
+
+      const change: AlertRule = { type: 'threshold', condition: 'change', value: 5, path: '$.stock' };
+      expect(evaluateAlertRule(change, { previous: '{"stock":20}', current: '{"stock":"14 left"}' }))
+        .toMatchObject({ matched: true, reason: '20 -> 14 (-6)' });
+    });
+
+    it('should match regular expressions', () => {
+      const soldOut: AlertRule = { type: 'regex', pattern: 'sold out', flags: 'i', condition: 'disappears' };
+
+      expect(evaluateAlertRule(soldOut, { previous: 'SOLD OUT', current: 'In stock' }))
+        .toMatchObject({ matched: true, reason: '/sold out/i does not match the current content, matches the previous content' });
+      expect(evaluateAlertRule(soldOut, { previous: 'In stock', current: 'In stock' }).matched).toBe(false);
+      expect(evaluateAlertRule({ type: 'regex', pattern: 'error' }, { current: 'fatal error' }).matched).toBe(true);
+    });
+
+    it('should evaluate JSONPath conditions and whole checks', async () => {
+      const sample = { previous: '{"items":[{"stock":2}]}', current: '{"items":[{"stock":0}],"status":"ok"}' };
+
+      expect(evaluateAlertRule({ type: 'jsonpath', path: '$.items[0].stock', condition: 'equals', value: 0 }, sample))
+        .toMatchObject({ matched: true, reason: '$.items[0].stock is 0' });
+      expect(evaluateAlertRule({ type: 'jsonpath', path: "$['items'][*].stock", condition: 'changed' }, sample))
+        .toMatchObject({ matched: true, reason: "$['items'][*].stock: 2 -> 0" });
+      expect(evaluateAlertRule({ type: 'jsonpath', path: '$.error', condition: 'missing' }, sample).matched).toBe(true);
+      expect(queryJsonPath({ a: [{ b: 1 }, { b: 2 }, {}] }, '$.a[*].b')).toEqual([1, 2]);
+
+      const rules: AlertRule[] = [
+        { type: 'jsonpath', path: '$.status', condition: 'not_equals', value: 'ok' },
+        { type: 'threshold', condition: 'below', value: 1, path: '$.items[0].stock' },
+      ];
+      expect(evaluateAlertRules(rules, sample).matched).toBe(true);
+      expect(evaluateAlertRules(rules, sample, 'all').matched).toBe(false);
+      expect(evaluateAlertRules([], sample).matched).toBe(true);
+
+      // Checks from the API can be evaluated directly
+      const bodies = ['{"price":100}', '{"price":85}'];
+      const server = new FakeScrapebitServer({ monitorContent: (_monitor, check) => bodies[check - 1] });
+      const client = new Scrapebit(server.apiKey, server.config());
+      const monitor = await client.monitoring.create({ name: 'API', url: 'https://example.com/api', monitorType: 'api_response' });
+      await client.monitoring.checkNow(monitor.id);
+      const check = await client.monitoring.checkNow(monitor.id);
+
+      const drop: AlertRule = { type: 'threshold', condition: 'decrease', value: 10, unit: 'percent', path: '$.price' };
+      expect(evaluateAlertRule(drop, await client.monitoring.getCheckDiff(monitor.id, check.id)))
+        .toMatchObject({ matched: true, reason: '100 -> 85 (-15%)' });
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid rules with the offending field', () => {
+      const invalid = (rules: unknown[], monitorType?: 'full_page' | 'api_response') => {
+        try {
+          validateAlertRules(rules as AlertRule[], monitorType);
+        } catch (error) {
+          expect(error).toBeInstanceOf(ValidationError);
+          return (error as ValidationError).details?.field;
+        }
+        return undefined;
+      };
+
+      expect(invalid([{ type: 'regex', pattern: '(' }])).toBe('alertRules[0].pattern');
+      expect(invalid([{ type: 'regex', pattern: 'a', flags: 'g' }])).toBe('alertRules[0].pattern');
+      expect(invalid([{ type: 'threshold', condition: 'drop', value: 1 }])).toBe('alertRules[0].condition');
+      expect(invalid([{ type: 'threshold', condition: 'above', value: 1, unit: 'percent' }])).toBe('alertRules[0].unit');
+      expect(invalid([{ type: 'threshold', condition: 'above', value: 1 }], 'api_response')).toBe('alertRules[0].path');
+      expect(invalid([{ type: 'jsonpath', path: '$..price', condition: 'exists' }])).toBe('alertRules[0].path');
+      expect(invalid([{ type: 'jsonpath', path: '$.price', condition: 'exists' }], 'full_page')).toBe('alertRules[0].type');
+      expect(invalid([{ type: 'regex', pattern: 'ok' }, { type: 'email' }])).toBe('alertRules[1].type');
+      expect(invalid([{ type: 'jsonpath', path: '$.price', condition: 'equals', value: 9 }], 'api_response')).toBeUndefined();
+    });
+
+    it('should validate rules and channels before creating a monitor', async () => {
+      const server = new FakeScrapebitServer();
+      const client = new Scrapebit(server.apiKey, server.config());
+      const base = { name: 'Prices', url: 'https://example.com/prices' };
+
+      await expect(client.monitoring.create({ ...base, alertRules: [{ type: 'jsonpath', path: '$.price', condition: 'exists' }] }))
+        .rejects.toMatchObject({ details: { field: 'alertRules[0].type' } });
+      await expect(client.monitoring.create({
+        ...base,
+        alertChannels: [{ type: 'email', email: 'ops@example.com', quietHours: { start: '22:00', end: '7am' } }],
+      })).rejects.toMatchObject({ details: { field: 'alertChannels[0].quietHours.end' } });
+      expect(server.requests).toHaveLength(0);
+
+      const monitor = await client.monitoring.create({
+        ...base,
+        alertRules: [{ type: 'threshold', condition: 'decrease', value: 10, unit: 'percent' }],
+        alertChannels: [{ type: 'email', email: 'ops@example.com', debounceMinutes: 30 }],
+      });
+      expect(monitor).toMatchObject({ alertRuleMode: 'any', alertChannels: [{ debounceMinutes: 30 }] });
+
+      await expect(client.monitoring.updateChannel(monitor.id, monitor.alertChannels[0].id, { debounceMinutes: 0 }))
+        .rejects.toMatchObject({ details: { field: 'alertChannel.debounceMinutes' } });
+    });
+  });
+
+  describe('isQuietTime', () => {
+    it('should handle windows across midnight and time zones', () => {
+      const night = { start: '22:00', end: '07:00', timezone: 'Europe/Berlin' };
+
+      expect(isQuietTime(night, new Date('2024-01-15T23:30:00Z'))).toBe(true);
+      expect(isQuietTime(night, new Date('2024-01-15T06:30:00Z'))).toBe(false);
+      expect(isQuietTime(night, new Date('2024-07-15T04:59:00Z'))).toBe(true);
+      expect(isQuietTime({ start: '12:00', end: '13:00' }, new Date('2024-01-15T13:00:00Z'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Scrapebit,
+  runBulk,
+  ScrapebitError,
+  ServerError,
+  ValidationError,
+  InsufficientCreditsError,
+  AbortError,
+} from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+const urls = Array.from({ length: 7 }, (_, i) => `https://example.com/${i}`);
+
+describe('runBulk', () => {
+  it('should split URLs into chunks and map every URL to its result', async () => {
+    const batch = vi.fn(async (chunk: string[]) => chunk.map((url) => ({ url })));
+    const single = vi.fn();
+
+    const { results, succeeded, failed } = await runBulk(urls, { batch, single }, { chunkSize: 3 });
+
+    expect(batch).toHaveBeenCalledTimes(3);
+    expect(batch.mock.calls.map(([chunk]) => chunk.length)).toEqual([3, 3, 1]);
+    expect(single).not.toHaveBeenCalled();
+    expect(succeeded).toBe(7);
+    expect(failed).toBe(0);
+    expect([...results.keys()]).toEqual(urls);
+    expect(results.get(urls[4])).toEqual({ ok: true, url: urls[4], result: { url: urls[4] }, attempts: 1 });
+  });
+
+  it('should cap the number of batches in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const batch = async (chunk: string[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return chunk;
+    };
+
+    await runBulk(urls, { batch, single: async (url) => url }, { chunkSize: 1, concurrency: 2 });
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should retry failed items individually', async () => {
+    const batch = async () => { throw new ServerError(503); };
+    const single = vi.fn(async (url: string) => {
+      if (url.endsWith('/1')) throw new ServerError(500);
+      return url;
+    });
+
+    const { results, succeeded, failed } = await runBulk(urls.slice(0, 3), { batch, single }, { retries: 2 });
+
+    expect(succeeded).toBe(2);
+    expect(failed).toBe(1);
+    expect(single).toHaveBeenCalledTimes(3);
+    expect(single).toHaveBeenCalledWith(urls[1], {
+      signal: undefined,
+      idempotencyKey: expect.any(String),
+      retries: 1,
+      onRetry: expect.any(Function),
+    });
+    const outcome = results.get(urls[1])!;
+    expect(outcome.ok).toBe(false);
+    expect(outcome.attempts).toBe(2);
+    if (!outcome.ok) expect(outcome.error).toBeInstanceOf(ServerError);
+  });
+
+  it('should run individual retries in the worker pool', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const single = async (url: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return url;
+    };
+
+    const { succeeded } = await runBulk(urls, { batch: async () => { throw new ServerError(503); }, single }, { concurrency: 3 });
+
+    expect(succeeded).toBe(7);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should reuse one idempotency key while the client retries an item', async () => {
+    const server = new FakeScrapebitServer();
+    const client = new Scrapebit(server.apiKey, server.config({ retryPolicy: { baseDelayMs: 0 } }));
+    server.fail({ status: 503, path: '/scrape/batch', times: 4 }).fail({ status: 503, path: '/scrape', times: 1 });
+
+    const { results } = await client.content.bulkScrape({ urls: urls.slice(0, 1) }, { retries: 2 });
+
+    // The batch, then the URL on its own and the client's retry of it
+    expect(results.get(urls[0])).toMatchObject({ ok: true, attempts: 3 });
+    const keys = server.requests
+      .filter((request) => request.path === '/scrape')
+      .map((request) => request.headers['idempotency-key']);
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  it('should treat results rejected by check as failures', async () => {
+    const batch = async (chunk: string[]) => chunk.map((url) => ({ url, success: !url.endsWith('/0') }));
+    const single = async (url: string) => ({ url, success: true });
+
+    const { results } = await runBulk(urls.slice(0, 2), {
+      batch,
+      single,
+      check: (result) => (result.success ? null : new ScrapebitError('Scrape failed', 'SCRAPE_FAILED')),
+    });
+
+    expect(results.get(urls[0])).toMatchObject({ ok: true, attempts: 2 });
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const batch = async () => { throw new InsufficientCreditsError(3, 0); };
+    const single = vi.fn();
+
+    const { failed } = await runBulk(urls.slice(0, 3), { batch, single });
+
+    expect(failed).toBe(3);
+    expect(single).not.toHaveBeenCalled();
+  });
+
+  it('should not retry local errors', async () => {
+    const single = vi.fn();
+
+    const thrown = await runBulk(urls.slice(0, 2), { batch: async () => { throw new Error('bad input'); }, single });
+    const invalid = await runBulk(urls.slice(0, 2), { batch: async () => { throw new ValidationError('nope', 'url'); }, single });
+
+    expect(thrown.failed + invalid.failed).toBe(4);
+    expect(single).not.toHaveBeenCalled();
+  });
+
+  it('should finish requests in flight before rejecting with an onProgress error', async () => {
+    let inFlight = 0;
+    const batch = async (chunk: string[]) => {
+      inFlight++;
+      await new Promise((resolve) => setTimeout(resolve, chunk[0].endsWith('/0') ? 1 : 10));
+      inFlight--;
+      return chunk;
+    };
+    const onProgress = vi.fn(() => { throw new Error('progress bar broke'); });
+
+    await expect(runBulk(urls, { batch, single: async (url) => url }, { chunkSize: 1, concurrency: 3, onProgress }))
+      .rejects.toThrow('progress bar broke');
+    expect(inFlight).toBe(0);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report progress for every URL', async () => {
+    const onProgress = vi.fn();
+    await runBulk(urls, { batch: async (chunk) => chunk, single: async (url) => url }, { onProgress });
+
+    expect(onProgress).toHaveBeenCalledTimes(7);
+    expect(onProgress.mock.calls[6][0]).toMatchObject({ total: 7, completed: 7, succeeded: 7, failed: 0 });
+  });
+
+  it('should fail unprocessed URLs with AbortError once aborted', async () => {
+    const controller = new AbortController();
+    const batch = async (chunk: string[]) => {
+      controller.abort();
+      return chunk;
+    };
+
+    const { succeeded, failed, results } = await runBulk(
+      urls,
+      { batch, single: async (url) => url },
+      { chunkSize: 2, concurrency: 1, signal: controller.signal }
+    );
+
+    expect(succeeded).toBe(2);
+    expect(failed).toBe(5);
+    const outcome = results.get(urls[6])!;
+    if (!outcome.ok) expect(outcome.error).toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Scrapebit,
+  ResponseCache,
+  FileCacheStore,
+  MemoryCacheStore,
+  normalizeUrl,
+  cacheScope,
+  field,
+  type CacheStore,
+} from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('response cache', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+
+  const jobRequests = () => server.requests.filter((request) => request.method === 'POST').length;
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer();
+    client = new Scrapebit(server.apiKey, server.config({ cache: {} }));
+  });
+
+  it('should serve repeated scrapes from the cache', async () => {
+    const first = await client.content.scrape({ url: 'https://example.com/products', prompt: 'Prices' });
+    const second = await client.content.scrape({ url: 'https://example.com/products', prompt: 'Prices' });
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ cached: true, data: first.data });
+    expect(second.cachedAt).toEqual(expect.any(String));
+    expect(jobRequests()).toBe(1);
+    expect((await client.credits.getBalance()).used).toBe(1);
+  });
+
+  it('should key entries by normalized URL and options', async () => {
+    await client.content.scrape({ url: 'https://Example.com:443/list?b=2&a=1#top', columns: ['name'], prompt: 'x' });
+    const hit = await client.content.scrape({ prompt: 'x', columns: ['name'], url: 'https://example.com/list?a=1&b=2' });
+    const miss = await client.content.scrape({ url: 'https://example.com/list?a=1&b=2', columns: ['name'], prompt: 'y' });
+
+    expect(hit.cached).toBe(true);
+    expect(miss.cached).toBe(false);
+    expect(normalizeUrl('HTTPS://Example.com:443/list?b=2&a=1#top')).toBe('https://example.com/list?a=1&b=2');
+  });
+
+  it('should bypass and refresh per call', async () => {
+    const url = 'https://example.com';
+    await client.content.scrape({ url });
+
+    expect((await client.content.scrape({ url }, { cache: { bypass: true } })).cached).toBe(false);
+    expect((await client.content.scrape({ url }, { cache: { refresh: true } })).cached).toBe(false);
+    expect((await client.content.scrape({ url })).cached).toBe(true);
+    expect(jobRequests()).toBe(3);
+  });
+
+  it('should expire entries after the per-call TTL', async () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    try {
+      await client.pdf.generate({ url: 'https://example.com' }, { cache: { ttlMs: 1000 } });
+      expect((await client.pdf.generate({ url: 'https://example.com' })).cached).toBe(true);
+
+      vi.setSystemTime(new Date('2024-01-01T00:00:02Z'));
+      expect((await client.pdf.generate({ url: 'https://example.com' })).cached).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should cache screenshots and schema extraction', async () => {
+    await client.screenshot.capture({ url: 'https://example.com', fullPage: true });
+    expect((await client.screenshot.capture({ url: 'https://example.com', fullPage: true })).cached).toBe(true);
+    expect((await client.screenshot.capture({ url: 'https://example.com' })).cached).toBe(false);
+
+    const schema = { name: field.string('Name') };
+    await client.content.extract({ url: 'https://example.com', schema });
+    const result = await client.content.extract({ url: 'https://example.com', schema });
+    expect(result).toMatchObject({ cached: true, valid: true, data: [{ name: 'name 1' }] });
+  });
+
+  it('should fall back to the API when the store fails', async () => {
+    const onError = vi.fn();
+    const store: CacheStore = {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      delete: () => undefined,
+    };
+    const failing = new Scrapebit(server.apiKey, server.config({ cache: { store, onError } }));
+
+    await expect(failing.content.scrape({ url: 'https://example.com' })).resolves.toMatchObject({ cached: false });
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not add cache metadata without a cache', async () => {
+    const uncached = new Scrapebit(server.apiKey, server.config());
+    expect(await uncached.content.scrape({ url: 'https://example.com' })).not.toHaveProperty('cached');
+  });
+
+  it('should share entries through a shared cache and invalidate them', async () => {
+    const cache = new ResponseCache({ store: new MemoryCacheStore(), namespace: 'test' });
+    const a = new Scrapebit(server.apiKey, server.config({ cache }));
+    const b = new Scrapebit(server.apiKey, server.config({ cache }));
+
+    await a.pdf.generate({ url: 'https://example.com', format: 'a4' });
+    expect((await b.pdf.generate({ url: 'https://example.com', format: 'a4' })).cached).toBe(true);
+
+    await cache.invalidate('pdf', { url: 'https://example.com', format: 'a4' }, cacheScope(server.apiKey, server.baseUrl));
+    expect((await b.pdf.generate({ url: 'https://example.com', format: 'a4' })).cached).toBe(false);
+  });
+
+  it('should keep entries of different API keys and hosts apart', async () => {
+    const cache = new ResponseCache();
+    const other = new FakeScrapebitServer({ apiKey: 'sb_live_other00000000000000000000000' });
+    const a = new Scrapebit(server.apiKey, server.config({ cache }));
+    const b = new Scrapebit(other.apiKey, other.config({ cache }));
+    const staging = new FakeScrapebitServer({ baseUrl: 'https://staging.scrapebit.test/v1' });
+    const c = new Scrapebit(staging.apiKey, staging.config({ cache }));
+
+    await a.content.scrape({ url: 'https://example.com' });
+    expect((await b.content.scrape({ url: 'https://example.com' })).cached).toBe(false);
+    expect((await c.content.scrape({ url: 'https://example.com' })).cached).toBe(false);
+    expect((await a.content.scrape({ url: 'https://example.com' })).cached).toBe(true);
+  });
+
+  it('should reject invalid TTLs', async () => {
+    expect(() => new ResponseCache({ ttlMs: Infinity })).toThrow('ttlMs must be a positive number');
+
+    for (const ttlMs of [-1, 0, NaN, Infinity]) {
+      await expect(client.content.scrape({ url: 'https://example.com' }, { cache: { ttlMs } }))
+        .rejects.toMatchObject({ details: { field: 'cache.ttlMs' } });
+    }
+    expect(jobRequests()).toBe(0);
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'scrapebit-cache-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep entries across clients', async () => {
+      const first = new Scrapebit(server.apiKey, server.config({ cache: { store: new FileCacheStore(dir) } }));
+      await first.content.scrape({ url: 'https://example.com' });
+
+      const second = new Scrapebit(server.apiKey, server.config({ cache: { store: new FileCacheStore(dir) } }));
+      expect((await second.content.scrape({ url: 'https://example.com' })).cached).toBe(true);
+    });
+
+    it('should expire and clear entries', async () => {
+      const store = new FileCacheStore(join(dir, 'nested'));
+      await store.set('a', 'one', 60000);
+      await store.set('b', 'two', -1);
+
+      expect(await store.get('a')).toBe('one');
+      expect(await store.get('b')).toBeUndefined();
+
+      await store.clear();
+      expect(await store.get('a')).toBeUndefined();
+    });
+  });
+});
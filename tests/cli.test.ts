@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, type CliIo } from '../src/cli/main';
+import { EXIT_CODES } from '../src/cli/exitCodes';
+import { FakeScrapebitServer } from '../src/testing';
+
+function createIo(options: { stdin?: string; env?: Record<string, string>; homedir?: string } = {}) {
+  let stdout = '';
+  let stderr = '';
+  const stdin = Object.assign(Readable.from(options.stdin === undefined ? [] : [options.stdin]), {
+    isTTY: options.stdin === undefined,
+  });
+
+  const io: CliIo = {
+    stdin,
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+    env: options.env || {},
+    homedir: options.homedir || '/nonexistent',
+  };
+  return { io, output: () => stdout, errors: () => stderr };
+}
+
+describe('scrapebit CLI', () => {
+  let server: FakeScrapebitServer;
+  let restore: () => void;
+  let env: Record<string, string>;
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer({ credits: { subscription: 3 } });
+    restore = server.install();
+    env = { SCRAPEBIT_API_KEY: server.apiKey, SCRAPEBIT_BASE_URL: server.baseUrl };
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  it('should scrape a URL as a table', async () => {
+    const { io, output } = createIo({ env });
+    const code = await runCli(['scrape', 'https://example.com', '--columns', 'title, price'], io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(output().split('\n')[0]).toMatch(/^TITLE\s+PRICE$/);
+    expect(server.requests[0].body).toEqual({ url: 'https://example.com', columns: ['title', 'price'] });
+  });
+
+  it('should read batch URLs from stdin', async () => {
+    const { io, output } = createIo({ env, stdin: 'https://a.example\n# comment\n\nhttps://b.example\n' });
+    const code = await runCli(['pdf', '-o', 'csv'], io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(server.requests[0]).toMatchObject({ path: '/pdf/batch', body: { urls: ['https://a.example', 'https://b.example'] } });
+    expect(output().trim().split('\n')).toEqual([
+      'url,id,pdfUrl,pageCount,fileSize,creditsUsed',
+      'https://a.example,pdf_1,https://files.scrapebit.test/pdf/pdf_1.pdf,1,48213,1',
+      'https://b.example,pdf_2,https://files.scrapebit.test/pdf/pdf_2.pdf,1,48213,1',
+    ]);
+  });
+
+  it('should print JSON output', async () => {
+    const { io, output } = createIo({ env });
+    await runCli(['credits', '--output', 'json'], io);
+
+    expect(JSON.parse(output())).toMatchObject({ remaining: 3, used: 0 });
+  });
+
+  it('should run schedule subcommands', async () => {
+    const { io, output } = createIo({ env });
+    await runCli(['schedule', 'create', 'https://example.com', '--type', 'screenshot', '-o', 'json'], io);
+    const task = JSON.parse(output());
+
+    const list = createIo({ env });
+    expect(await runCli(['schedule', 'list'], list.io)).toBe(EXIT_CODES.OK);
+    expect(list.output()).toContain(task.id);
+
+    const trigger = createIo({ env });
+    await runCli(['schedule', 'trigger', task.id, '-o', 'json'], trigger.io);
+    expect(JSON.parse(trigger.output())).toMatchObject({ status: 'completed' });
+  });
+
+  it('should read the API key from a profile file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scrapebit-cli-'));
+    try {
+      writeFileSync(join(dir, 'profiles.json'), JSON.stringify({
+        staging: { apiKey: server.apiKey, baseUrl: server.baseUrl },
+      }));
+
+      const { io, output } = createIo({ env: { SCRAPEBIT_CONFIG_FILE: join(dir, 'profiles.json') } });
+      expect(await runCli(['usage', '--profile', 'staging'], io)).toBe(EXIT_CODES.OK);
+      expect(output()).toContain('Pro');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should prefer a named profile over SCRAPEBIT_API_KEY', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scrapebit-cli-'));
+    const staging = new FakeScrapebitServer({ apiKey: 'sb_live_staging00000000000000000000000', baseUrl: 'https://staging.scrapebit.test/v1' });
+    const restoreStaging = staging.install();
+    try {
+      writeFileSync(join(dir, 'profiles.json'), JSON.stringify({
+        staging: { apiKey: staging.apiKey, baseUrl: staging.baseUrl },
+      }));
+
+      const { io } = createIo({ env: { ...env, SCRAPEBIT_CONFIG_FILE: join(dir, 'profiles.json') } });
+      expect(await runCli(['usage', '--profile', 'staging'], io)).toBe(EXIT_CODES.OK);
+      expect(staging.requests[0].headers['authorization']).toBe(`Bearer ${staging.apiKey}`);
+      expect(server.requests).toHaveLength(0);
+    } finally {
+      restoreStaging();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should map errors to exit codes', async () => {
+    expect(await runCli(['credits'], createIo().io)).toBe(EXIT_CODES.AUTHENTICATION);
+    expect(await runCli(['schedule', 'pause', 'task_404'], createIo({ env }).io)).toBe(EXIT_CODES.NOT_FOUND);
+
+    server.fail({ status: 402, path: '/screenshot' });
+    const { io, errors } = createIo({ env });
+    expect(await runCli(['screenshot', 'https://example.com'], io)).toBe(EXIT_CODES.INSUFFICIENT_CREDITS);
+    expect(errors()).toContain('INSUFFICIENT_CREDITS');
+  });
+
+  it('should reject unknown commands and flags with a usage error', async () => {
+    const unknown = createIo({ env });
+    expect(await runCli(['monitor', 'explode'], unknown.io)).toBe(EXIT_CODES.USAGE);
+    expect(unknown.errors()).toContain('expected list, check-now, alerts');
+
+    expect(await runCli(['credits', '--bogus'], createIo({ env }).io)).toBe(EXIT_CODES.USAGE);
+    expect(await runCli(['credits', '-o', 'yaml'], createIo({ env }).io)).toBe(EXIT_CODES.USAGE);
+  });
+
+  it('should run a research session from stdin', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scrapebit-research-'));
+    try {
+      const notes = join(dir, 'notes.txt');
+      const transcript = join(dir, 'transcript.md');
+      writeFileSync(notes, 'Competitor prices went up 10% in March.');
+
+      const { io, output, errors } = createIo({
+        env,
+        stdin: [
+          `/add file ${notes}`,
+          'What happened to prices?',
+          '/analyze trends',
+          '/analyze sideways',
+          `/export ${transcript}`,
+          '/quit',
+        ].join('\n'),
+      });
+
+      expect(await runCli(['research', '--name', 'Pricing'], io)).toBe(EXIT_CODES.OK);
+      expect(output()).toContain('Added "notes.txt"');
+      expect(output()).toContain('[1] notes.txt: Competitor prices went up 10% in March.');
+      expect(errors()).toContain('Usage: /analyze summary|comparison|trends');
+
+      const markdown = readFileSync(transcript, 'utf8');
+      expect(markdown).toMatch(/^# Pricing\n/);
+      expect(markdown).toContain('## Question\n\nWhat happened to prices?');
+      expect(markdown).toContain('1. **notes.txt**: Competitor prices went up 10% in March.');
+      expect(markdown).toContain('## Analysis: trends');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pick an existing research session', async () => {
+    const first = createIo({ env, stdin: '/quit\n' });
+    await runCli(['research', '--name', 'Existing'], first.io);
+
+    const { io, output } = createIo({ env, stdin: '1\n/items\n' });
+    expect(await runCli(['research'], io)).toBe(EXIT_CODES.OK);
+    expect(output()).toContain('1) Existing (0 items)');
+    expect(output()).toContain('Session "Existing" (session_1)');
+    expect(output()).toContain('No items yet');
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect, vi } from 'vitest';
-import { Scrapebit, ValidationError } from '../src';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Scrapebit, ValidationError, InsufficientCreditsError, TimeoutError, NotFoundError } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
 
 describe('Scrapebit Client', () => {
   describe('initialization', () => {
@@ -134,3 +135,125 @@ describe('UsageApi', () => {
     expect(typeof client.usage.getApiRequestsRemaining).toBe('function');
   });
 });
+
+describe('against the fake server', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer({ credits: { subscription: 5, purchased: 2 } });
+    client = new Scrapebit(server.apiKey, server.config({ retryPolicy: { baseDelayMs: 1 } }));
+  });
+
+  it('should keep credits and usage in step with jobs', async () => {
+    const result = await client.content.scrape({ url: 'https://example.com', extract: { name: 'Name' } });
+    await client.pdf.generate({ url: 'https://example.com' });
+
+    expect(result.headers).toEqual(['name']);
+    expect(result.credits_remaining).toBe(6);
+
+    const credits = await client.credits.getBalance();
+    expect(credits).toMatchObject({ remaining: 5, subscription: 3, purchased: 2, used: 2 });
+
+    const usage = await client.usage.get();
+    expect(usage.credits_remaining).toBe(5);
+    expect(usage.credits_used_this_month).toBe(2);
+
+    const history = await client.credits.getUsage({ type: 'pdf' });
+    expect(history.data).toHaveLength(1);
+    expect(history.data[0]).toMatchObject({ type: 'pdf', amount: 1, url: 'https://example.com' });
+  });
+
+  it('should reject jobs the balance cannot cover', async () => {
+    await client.screenshot.batchCapture({ urls: Array.from({ length: 7 }, (_, i) => `https://example.com/${i}`) });
+
+    await expect(client.content.scrape({ url: 'https://example.com' }))
+      .rejects.toBeInstanceOf(InsufficientCreditsError);
+    expect((await client.credits.getBalance()).remaining).toBe(0);
+  });
+
+  it('should paginate list endpoints', async () => {
+    for (let i = 0; i < 25; i++) {
+      await client.monitoring.create({ name: `Monitor ${i}`, url: `https://example.com/${i}` });
+    }
+
+    const page = await client.monitoring.list({ limit: 10, page: 3 });
+    expect(page.pagination).toEqual({ page: 3, limit: 10, total: 25, totalPages: 3, hasMore: false });
+    expect(page.data).toHaveLength(5);
+
+    const names: string[] = [];
+    for await (const monitor of client.monitoring.listAll({ pageSize: 10 })) {
+      names.push(monitor.name);
+    }
+    expect(names).toHaveLength(25);
+    expect(server.requests.filter((r) => r.path === '/monitoring' && r.method === 'GET')).toHaveLength(4);
+  });
+
+  it('should retry injected 429 and 5xx faults', async () => {
+    server.fail({ status: 429, retryAfter: 0 }).fail({ status: 503, path: '/credits' });
+
+    await expect(client.credits.getBalance()).resolves.toMatchObject({ remaining: 7 });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('should surface injected 402 faults', async () => {
+    server.fail({ status: 402, method: 'POST', path: '/pdf' });
+
+    await expect(client.pdf.generate({ url: 'https://example.com' }))
+      .rejects.toBeInstanceOf(InsufficientCreditsError);
+    await expect(client.pdf.generate({ url: 'https://example.com' })).resolves.toMatchObject({ id: 'pdf_1' });
+  });
+
+  it('should time out on injected latency', async () => {
+    server.setLatency(200);
+    const slowClient = new Scrapebit(server.apiKey, server.config({ timeout: 20, retries: 0 }));
+
+    await expect(slowClient.credits.getBalance()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should map unknown resources to NotFoundError', async () => {
+    await expect(client.schedule.get('task_404')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should replay retried jobs without charging twice', async () => {
+    server.fail({ status: 'network', path: '/scrape' });
+
+    const result = await client.content.scrape({ url: 'https://example.com' }, { idempotencyKey: 'job-1' });
+    const again = await client.content.scrape({ url: 'https://example.com' }, { idempotencyKey: 'job-1' });
+
+    expect(result.replayed).toBe(false);
+    expect(again.replayed).toBe(true);
+    expect((await client.credits.getBalance()).used).toBe(1);
+  });
+
+  it('should run a deep research session', async () => {
+    const session = await client.deepResearch.createSession({ name: 'Competitors' });
+    await client.deepResearch.addText(session.id, { title: 'Notes', content: 'Prices went up 10%' });
+
+    const response = await client.deepResearch.chat(session.id, { message: 'What changed?' });
+    expect(response.sources).toEqual([expect.objectContaining({ title: 'Notes' })]);
+
+    const history = await client.deepResearch.getChatHistory(session.id);
+    expect(history.map((message) => message.role)).toEqual(['user', 'assistant']);
+
+    const { items } = await client.deepResearch.getSession(session.id);
+    expect(items).toHaveLength(1);
+  });
+
+  it('should record failed schedule runs', async () => {
+    const task = await client.schedule.create({
+      url: 'https://example.com',
+      type: 'pdf',
+      scheduledAt: new Date().toISOString(),
+    });
+
+    await expect(client.schedule.triggerNow(task.id)).resolves.toMatchObject({ status: 'completed', resultId: 'pdf_1' });
+
+    await client.pdf.batchGenerate({ urls: Array.from({ length: 6 }, (_, i) => `https://example.com/${i}`) });
+    await expect(client.schedule.triggerNow(task.id)).resolves.toMatchObject({ status: 'failed' });
+
+    const history = await client.schedule.getHistory(task.id);
+    expect(history.data.map((run) => run.status)).toEqual(['failed', 'completed']);
+    expect(history.data[0].error).toBe('Insufficient credits');
+  });
+});
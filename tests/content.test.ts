@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Scrapebit, ValidationError } from '../src';
+import type { ScrapeOptions } from '../src';
+
+const scrapeResult = {
+  success: true,
+  data: [],
+  headers: [],
+  row_count: 0,
+  credits_used: 1,
+  credits_remaining: 99,
+};
+
+describe('ContentApi.scrape', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: Scrapebit;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => new Response(JSON.stringify(scrapeResult), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    client = new Scrapebit('sb_live_abc123def456789012345678901234', { retries: 0 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function sentBody(): unknown {
+    const [, init] = fetchMock.mock.calls[0];
+    return JSON.parse(init.body);
+  }
+
+  it('should send url and prompt', async () => {
+    await client.content.scrape({ url: 'https://example.com', prompt: 'Extract prices' });
+    expect(sentBody()).toEqual({ url: 'https://example.com', prompt: 'Extract prices' });
+  });
+
+  it('should return the result inside the response envelope', async () => {
+    const enveloped = { success: true, data: { ...scrapeResult, data: [{ name: 'Widget' }], row_count: 1 } };
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(enveloped), { status: 200 }));
+
+    const result = await client.content.scrape({ url: 'https://example.com' });
+    expect(result).toMatchObject({ data: [{ name: 'Widget' }], row_count: 1 });
+  });
+
+  it('should send columns', async () => {
+    await client.content.scrape({ url: 'https://example.com', columns: ['name', 'price'] });
+    expect(sentBody()).toEqual({ url: 'https://example.com', columns: ['name', 'price'] });
+  });
+
+  it('should send extract', async () => {
+    await client.content.scrape({ url: 'https://example.com', extract: { name: 'Product name' } });
+    expect(sentBody()).toEqual({ url: 'https://example.com', extract: { name: 'Product name' } });
+  });
+
+  it('should send pagination', async () => {
+    const pagination = { nextButtonSelector: '.next', maxPages: 5, delayMs: 500 };
+    await client.content.scrape({ url: 'https://example.com', pagination });
+    expect(sentBody()).toEqual({ url: 'https://example.com', pagination });
+  });
+
+  it('should send waitFor', async () => {
+    const waitFor = { selector: '.loaded', timeout: 5000 };
+    await client.content.scrape({ url: 'https://example.com', waitFor });
+    expect(sentBody()).toEqual({ url: 'https://example.com', waitFor });
+  });
+
+  it('should send javascript', async () => {
+    await client.content.scrape({ url: 'https://example.com', javascript: 'window.scrollTo(0, 9999)' });
+    expect(sentBody()).toEqual({ url: 'https://example.com', javascript: 'window.scrollTo(0, 9999)' });
+  });
+
+  it('should reject unknown options', async () => {
+    const options = { url: 'https://example.com', maxPages: 5 } as unknown as ScrapeOptions;
+    await expect(client.content.scrape(options)).rejects.toThrow("Unknown scrape option 'maxPages'");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject extract together with columns', async () => {
+    await expect(client.content.scrape({
+      url: 'https://example.com',
+      extract: { name: 'Product name' },
+      columns: ['name'],
+    })).rejects.toBeInstanceOf(ValidationError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid pagination', async () => {
+    await expect(client.content.scrape({ url: 'https://example.com', pagination: { maxPages: 0 } }))
+      .rejects.toThrow('pagination.maxPages must be a positive integer');
+  });
+
+  it('should reject unknown nested options', async () => {
+    const waitFor = { url: 'https://example.com', waitFor: { selecter: '.price' } } as unknown as ScrapeOptions;
+    await expect(client.content.scrape(waitFor)).rejects.toThrow("Unknown waitFor option 'selecter'");
+
+    const pagination = { url: 'https://example.com', pagination: { maxPage: 3 } } as unknown as ScrapeOptions;
+    await expect(client.content.scrape(pagination)).rejects.toMatchObject({ details: { field: 'pagination' } });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject null and non-object nested options', async () => {
+    for (const options of [
+      { url: 'https://example.com', pagination: null },
+      { url: 'https://example.com', waitFor: null },
+      { url: 'https://example.com', waitFor: '.price' },
+    ]) {
+      await expect(client.content.scrape(options as unknown as ScrapeOptions)).rejects.toBeInstanceOf(ValidationError);
+    }
+    await expect(client.content.scrape({ url: 'https://example.com', waitFor: null } as unknown as ScrapeOptions))
+      .rejects.toThrow('waitFor must be an object');
+  });
+
+  it('should require url', async () => {
+    await expect(client.content.scrape({ url: '' })).rejects.toThrow('url is required');
+  });
+});
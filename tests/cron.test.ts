@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Scrapebit, ValidationError, parseCron, nextCronRuns, scheduleRuns } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('cron schedules', () => {
+  it('should parse lists, ranges, steps, names and macros', () => {
+    const cron = parseCron('*/20 9-11,14 * JAN-MAR mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 20, 40]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 14]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.eitherDay).toBe(false);
+    expect([...parseCron('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+    expect(parseCron('@weekly')).toMatchObject({ hours: new Set([0]), daysOfWeek: new Set([0]) });
+  });
+
+  it('should reject invalid expressions', () => {
+    for (const expression of ['* * * *', '60 * * * *', '* * 0 * *', '*/0 * * * *', '5-1 * * * *', '* * * FOO *', '1,,2 * * * *', '1-2-3 * * * *', '* * 1--5 * *']) {
+      expect(() => parseCron(expression), expression).toThrow(ValidationError);
+    }
+  });
+
+  it('should treat ? like * in the day fields', () => {
+    expect(parseCron('0 9 ? * MON').eitherDay).toBe(false);
+    expect(parseCron('0 9 1 * ?').eitherDay).toBe(false);
+
+    const runs = nextCronRuns('0 9 ? * MON', { from: new Date('2024-01-01T10:00:00Z'), count: 2 });
+    expect(iso(runs)).toEqual(['2024-01-08T09:00:00.000Z', '2024-01-15T09:00:00.000Z']);
+  });
+
+  it('should compute runs in a time zone across a DST change', () => {
+    // Friday 11:00 in Berlin; clocks go forward on Sunday 31 March
+    const runs = nextCronRuns('0 9 * * MON-FRI', {
+      timezone: 'Europe/Berlin',
+      from: new Date('2024-03-29T10:00:00Z'),
+      count: 3,
+    });
+
+    expect(iso(runs)).toEqual(['2024-04-01T07:00:00.000Z', '2024-04-02T07:00:00.000Z', '2024-04-03T07:00:00.000Z']);
+  });
+
+  it('should run every 15 minutes during market hours', () => {
+    const runs = nextCronRuns('*/15 9-15 * * 1-5', {
+      timezone: 'America/New_York',
+      from: new Date('2024-01-05T20:50:00Z'),
+      count: 3,
+    });
+
+    expect(iso(runs)).toEqual(['2024-01-08T14:00:00.000Z', '2024-01-08T14:15:00.000Z', '2024-01-08T14:30:00.000Z']);
+  });
+
+  it('should skip times DST removes and run repeated times once', () => {
+    const spring = nextCronRuns('30 2 * * *', { timezone: 'Europe/Berlin', from: new Date('2024-03-30T12:00:00Z') });
+    expect(iso(spring)).toEqual(['2024-04-01T00:30:00.000Z']);
+
+    const autumn = nextCronRuns('30 2 * * *', { timezone: 'Europe/Berlin', from: new Date('2024-10-26T12:00:00Z'), count: 2 });
+    expect(iso(autumn)).toEqual(['2024-10-27T00:30:00.000Z', '2024-10-28T01:30:00.000Z']);
+  });
+
+  it('should repeat frequencies at the same wall-clock time', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+
+    expect(iso(scheduleRuns({ scheduledAt: '2024-03-29T08:00:00Z', frequency: 'daily', timezone: 'Europe/Berlin' }, 3, from)))
+      .toEqual(['2024-03-29T08:00:00.000Z', '2024-03-30T08:00:00.000Z', '2024-03-31T07:00:00.000Z']);
+    expect(iso(scheduleRuns({ scheduledAt: '2024-01-31T12:00:00Z', frequency: 'monthly' }, 3, from)))
+      .toEqual(['2024-01-31T12:00:00.000Z', '2024-02-29T12:00:00.000Z', '2024-03-31T12:00:00.000Z']);
+    expect(iso(scheduleRuns({ scheduledAt: '2023-12-31T22:30:00Z', frequency: 'hourly' }, 2, from)))
+      .toEqual(['2024-01-01T00:30:00.000Z', '2024-01-01T01:30:00.000Z']);
+    expect(scheduleRuns({ scheduledAt: '2023-12-31T00:00:00Z' }, 3, from)).toEqual([]);
+  });
+
+  describe('ScheduleApi', () => {
+    let server: FakeScrapebitServer;
+    let client: Scrapebit;
+
+    beforeEach(() => {
+      server = new FakeScrapebitServer();
+      client = new Scrapebit(server.apiKey, server.config());
+    });
+
+    it('should preview runs from now and not before scheduledAt', () => {
+      vi.useFakeTimers({ now: new Date('2024-06-03T06:00:00Z') });
+      try {
+        expect(iso(client.schedule.previewRuns({ cron: '0 9 * * 1-5', timezone: 'Europe/Berlin' }, 2)))
+          .toEqual(['2024-06-03T07:00:00.000Z', '2024-06-04T07:00:00.000Z']);
+        expect(iso(client.schedule.previewRuns({ cron: '@daily', scheduledAt: '2024-06-10T00:00:00Z' }, 1)))
+          .toEqual(['2024-06-10T00:00:00.000Z']);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should create cron tasks and validate before sending', async () => {
+      const task = await client.schedule.create({
+        url: 'https://example.com',
+        type: 'scrape',
+        cron: '0 9 * * 1-5',
+        timezone: 'Europe/Berlin',
+      });
+      expect(task).toMatchObject({ frequency: 'cron', cron: '0 9 * * 1-5', timezone: 'Europe/Berlin' });
+
+      const base = { url: 'https://example.com', type: 'scrape' as const };
+      await expect(client.schedule.create({ ...base, cron: '0 9 * *' })).rejects.toMatchObject({ field: 'cron' });
+      await expect(client.schedule.create({ ...base, cron: '0 9 * * *', timezone: 'Mars/Base' }))
+        .rejects.toMatchObject({ field: 'timezone' });
+      await expect(client.schedule.create({ ...base, cron: '0 9 * * *', frequency: 'daily' }))
+        .rejects.toMatchObject({ field: 'frequency' });
+      await expect(client.schedule.create(base)).rejects.toMatchObject({ field: 'scheduledAt' });
+      await expect(client.schedule.update(task.id, { frequency: 'cron' })).rejects.toBeInstanceOf(ValidationError);
+      expect(server.requests.filter((request) => request.method !== 'GET')).toHaveLength(1);
+    });
+  });
+});
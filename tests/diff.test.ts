@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Scrapebit,
+  diffLines,
+  diffJson,
+  compareSnapshots,
+  formatUnifiedDiff,
+  renderDiffHtml,
+} from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('check diffs', () => {
+  describe('diffLines', () => {
+    it('should find the shortest line diff with line numbers', () => {
+      const changes = diffLines('a\nb\nc\nd\n', 'a\nc\nx\nd\n');
+
+      expect(changes).toEqual([
+        { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+        { type: 'removed', text: 'b', oldLine: 2 },
+        { type: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+        { type: 'added', text: 'x', newLine: 3 },
+        { type: 'equal', text: 'd', oldLine: 4, newLine: 4 },
+      ]);
+      expect(diffLines('', 'one')).toEqual([{ type: 'added', text: 'one', newLine: 1 }]);
+      expect(diffLines('same\r\n', 'same')).toEqual([{ type: 'equal', text: 'same', oldLine: 1, newLine: 1 }]);
+    });
+
+    it('should reproduce both texts from the diff', () => {
+      const before = Array.from({ length: 200 }, (_, i) => `line ${i % 17}`);
+      const after = before.filter((_, i) => i % 5 !== 0).map((line, i) => (i % 7 === 0 ? `${line}!` : line));
+
+      const changes = diffLines(before.join('\n'), after.join('\n'));
+
+      expect(changes.filter((line) => line.type !== 'added').map((line) => line.text)).toEqual(before);
+      expect(changes.filter((line) => line.type !== 'removed').map((line) => line.text)).toEqual(after);
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should report changed, added and removed values by path', () => {
+      const changes = diffJson(
+        { price: 10, items: [{ sku: 'a' }, { sku: 'b' }], 'in stock': true },
+        { price: 12, items: [{ sku: 'a', qty: 1 }], 'in stock': true, currency: 'USD' }
+      );
+
+      expect(changes).toEqual([
+        { type: 'changed', path: '$.price', before: 10, after: 12 },
+        { type: 'added', path: '$.items[0].qty', after: 1 },
+        { type: 'removed', path: '$.items[1]', before: { sku: 'b' } },
+        { type: 'added', path: '$.currency', after: 'USD' },
+      ]);
+      expect(diffJson({ 'a b': null }, { 'a b': 0 })).toEqual([{ type: 'changed', path: '$["a b"]', before: null, after: 0 }]);
+    });
+  });
+
+  describe('formatUnifiedDiff', () => {
+    it('should group changes into hunks with context', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const after = [...before];
+      after[1] = 'changed 2';
+      after[17] = 'changed 18';
+
+      expect(formatUnifiedDiff(diffLines(before.join('\n'), after.join('\n')), { context: 2 })).toBe([
+        '--- previous',
+        '+++ current',
+        '@@ -1,4 +1,4 @@',
+        ' line 1',
+        '-line 2',
+        '+changed 2',
+        ' line 3',
+        ' line 4',
+        '@@ -16,5 +16,5 @@',
+        ' line 16',
+        ' line 17',
+        '-line 18',
+        '+changed 18',
+        ' line 19',
+        ' line 20',
+        '',
+      ].join('\n'));
+      expect(formatUnifiedDiff(diffLines('same', 'same'))).toBe('');
+      expect(formatUnifiedDiff(diffLines('', 'new\n'))).toBe('--- previous\n+++ current\n@@ -0,0 +1 @@\n+new\n');
+    });
+  });
+
+  describe('monitoring.getCheckDiff', () => {
+    it('should return snapshots of a selector monitor with a screenshot link', async () => {
+      const prices = ['Price: $10\nIn stock', 'Price: $12\nIn stock'];
+      const server = new FakeScrapebitServer({ monitorContent: (_monitor, check) => prices[Math.min(check, 2) - 1] });
+      const client = new Scrapebit(server.apiKey, server.config());
+      const monitor = await client.monitoring.create({
+        name: 'Price <Monitor>',
+        url: 'https://example.com/product',
+        monitorType: 'selector',
+        selector: '.price',
+        includeScreenshot: true,
+      });
+
+      const first = await client.monitoring.checkNow(monitor.id);
+      const second = await client.monitoring.checkNow(monitor.id);
+      expect(second).toMatchObject({ changeDetected: true });
+
+      const checkDiff = await client.monitoring.getCheckDiff(monitor.id, second.id);
+      expect(checkDiff).toMatchObject({
+        monitorId: monitor.id,
+        checkId: second.id,
+        previous: { checkId: first.id, content: prices[0] },
+        current: { checkId: second.id, content: prices[1] },
+      });
+
+      const diff = compareSnapshots(checkDiff);
+      expect(formatUnifiedDiff(diff)).toBe([
+        `--- previous ${first.checkedAt}`,
+        `+++ current ${second.checkedAt}`,
+        '@@ -1,2 +1,2 @@',
+        '-Price: $10',
+        '+Price: $12',
+        ' In stock',
+        `Screenshot: ${checkDiff.current.screenshotUrl}`,
+        '',
+      ].join('\n'));
+
+      const html = renderDiffHtml(diff);
+      expect(html).toContain('<title>Changes to Price &lt;Monitor&gt;</title>');
+      expect(html).toContain('<tr class="removed"><td class="num">1</td><td class="num"></td><td><code>-Price: $10</code></td></tr>');
+      expect(html).toContain(`<a href="${checkDiff.current.screenshotUrl}">View screenshot</a>`);
+
+      await expect(client.monitoring.getCheckDiff(monitor.id, 'check_missing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should diff api_response monitors structurally', async () => {
+      const bodies = ['{"price":10,"stock":3}', '{"stock":3,"price":12}'];
+      const server = new FakeScrapebitServer({ monitorContent: (_monitor, check) => bodies[check - 1] });
+      const client = new Scrapebit(server.apiKey, server.config());
+      const monitor = await client.monitoring.create({ name: 'API', url: 'https://example.com/api', monitorType: 'api_response' });
+
+      const first = await client.monitoring.checkNow(monitor.id);
+      const second = await client.monitoring.checkNow(monitor.id);
+
+      const initial = compareSnapshots(await client.monitoring.getCheckDiff(monitor.id, first.id));
+      expect(initial.previous).toBeUndefined();
+      expect(initial.json).toEqual([{ type: 'added', path: '$', after: { price: 10, stock: 3 } }]);
+
+      const diff = compareSnapshots(await client.monitoring.getCheckDiff(monitor.id, second.id));
+      expect(diff.json).toEqual([{ type: 'changed', path: '$.price', before: 10, after: 12 }]);
+      expect(diff.lines.filter((line) => line.type !== 'equal').map((line) => line.text.trim()))
+        .toEqual(['"price": 10,', '"stock": 3', '"stock": 3,', '"price": 12']);
+      expect(renderDiffHtml(diff)).toContain('<tr class="changed"><td><code>$.price</code></td><td><code>10</code></td><td><code>12</code></td></tr>');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Scrapebit, AbortError, type DownloadProgress } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('pdf and screenshot downloads', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+  let dir: string;
+
+  const urlRequests = () => server.requests.filter((request) => request.path.endsWith('/download')).length;
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer();
+    client = new Scrapebit(server.apiKey, server.config());
+    dir = mkdtempSync(join(tmpdir(), 'scrapebit-download-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save a PDF to a path, signing the URL first', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com' });
+    const path = join(dir, 'reports', 'example.pdf');
+
+    const result = await client.pdf.download(pdf, { to: path });
+
+    expect(result).toEqual({ id: pdf.id, bytes: pdf.fileSize, path });
+    const bytes = readFileSync(path);
+    expect(bytes.length).toBe(pdf.fileSize);
+    expect(bytes.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(readdirSync(join(dir, 'reports'))).toEqual(['example.pdf']);
+    expect(urlRequests()).toBe(1);
+  });
+
+  it('should refresh an expired signed URL before fetching it', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com' });
+    const stale = { ...pdf, pdfUrl: `${pdf.pdfUrl}?expires=2020-01-01T00:00:00.000Z` };
+
+    await expect(client.pdf.download(stale, { to: join(dir, 'a.pdf') })).resolves.toMatchObject({ bytes: pdf.fileSize });
+    expect(urlRequests()).toBe(1);
+
+    const { url } = await client.pdf.getDownloadUrl(pdf.id);
+    await client.pdf.download({ ...pdf, pdfUrl: url }, { to: join(dir, 'b.pdf') });
+    expect(urlRequests()).toBe(2);
+  });
+
+  it('should stream a screenshot by ID with progress', async () => {
+    const { id, fileSize } = await client.screenshot.capture({ url: 'https://example.com' });
+    const progress: DownloadProgress[] = [];
+    let received = 0;
+
+    const result = await client.screenshot.download(id, {
+      to: new WritableStream<Uint8Array>({ write: (chunk) => { received += chunk.byteLength; } }),
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(result).toEqual({ id, bytes: fileSize });
+    expect(received).toBe(fileSize);
+    expect(progress.at(-1)).toEqual({ loaded: fileSize, total: fileSize, percent: 100 });
+  });
+
+  it('should fail on a size mismatch without leaving a file', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com' });
+    const path = join(dir, 'short.pdf');
+
+    await expect(client.pdf.download({ ...pdf, fileSize: pdf.fileSize + 1 }, { to: path })).rejects.toMatchObject({
+      code: 'DOWNLOAD_SIZE_MISMATCH',
+      details: { received: pdf.fileSize, expected: pdf.fileSize + 1 },
+    });
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('should report files the host does not have', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com' });
+    const { url } = await client.pdf.getDownloadUrl(pdf.id);
+
+    await expect(client.pdf.download({ ...pdf, id: 'pdf_gone', pdfUrl: url.replace(pdf.id, 'pdf_gone') }, {
+      to: join(dir, 'gone.pdf'),
+    })).rejects.toMatchObject({ code: 'DOWNLOAD_FAILED', statusCode: 404 });
+  });
+
+  it('should cancel through the signal', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.pdf.download(pdf, { to: join(dir, 'x.pdf') }, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+  });
+});
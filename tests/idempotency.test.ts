@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scrapebit } from '../src';
+
+const apiKey = 'sb_live_abc123def456789012345678901234';
+
+const scrapeResult = {
+  success: true,
+  data: [{ name: 'Widget' }],
+  headers: ['name'],
+  row_count: 1,
+  credits_used: 1,
+  credits_remaining: 99,
+};
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function sentHeaders(fetchMock: ReturnType<typeof vi.fn>, call: number): Record<string, string> {
+  return fetchMock.mock.calls[call][1].headers;
+}
+
+describe('idempotency keys', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the same key on every retry of a call', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(503, { error: 'Unavailable' }))
+      .mockResolvedValueOnce(respond(200, { success: true, data: scrapeResult }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey, { retryPolicy: { baseDelayMs: 1 } });
+    await client.content.scrape({ url: 'https://example.com' });
+
+    const first = sentHeaders(fetchMock, 0)['Idempotency-Key'];
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(sentHeaders(fetchMock, 1)['Idempotency-Key']).toBe(first);
+  });
+
+  it('should use a new key for each call', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      respond(200, { success: true, data: scrapeResult }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey);
+    await client.content.scrape({ url: 'https://example.com' });
+    await client.content.scrape({ url: 'https://example.com' });
+
+    expect(sentHeaders(fetchMock, 0)['Idempotency-Key'])
+      .not.toBe(sentHeaders(fetchMock, 1)['Idempotency-Key']);
+  });
+
+  it('should send a caller-supplied key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(200, { success: true, data: scrapeResult }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey);
+    await client.content.scrape({ url: 'https://example.com' }, { idempotencyKey: 'order-42' });
+
+    expect(sentHeaders(fetchMock, 0)['Idempotency-Key']).toBe('order-42');
+  });
+
+  it('should not send a key with GET requests', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(200, { remaining: 10 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey);
+    await client.credits.getBalance();
+
+    expect(sentHeaders(fetchMock, 0)).not.toHaveProperty('Idempotency-Key');
+  });
+
+  it('should report replayed responses', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(respond(200, { success: true, data: scrapeResult }))
+      .mockResolvedValueOnce(respond(200, { success: true, data: scrapeResult }, { 'Idempotency-Replayed': 'true' })));
+
+    const client = new Scrapebit(apiKey);
+    const fresh = await client.content.scrape({ url: 'https://example.com' }, { idempotencyKey: 'k' });
+    const replay = await client.content.scrape({ url: 'https://example.com' }, { idempotencyKey: 'k' });
+
+    expect(fresh.replayed).toBe(false);
+    expect(replay.replayed).toBe(true);
+  });
+
+  it('should report replayed PDF results', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(respond(200, {
+      success: true,
+      data: { id: 'pdf_1', pdfUrl: 'https://cdn/1.pdf', fileSize: 10, pageCount: 1, generatedAt: '', creditsUsed: 2 },
+    }, { 'Idempotency-Replayed': 'true' })));
+
+    const client = new Scrapebit(apiKey);
+    const result = await client.pdf.generate({ url: 'https://example.com' });
+
+    expect(result.id).toBe('pdf_1');
+    expect(result.replayed).toBe(true);
+  });
+});
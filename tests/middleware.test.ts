@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scrapebit, ScrapebitError, NotFoundError, createLoggerMiddleware } from '../src';
+import type { Middleware } from '../src';
+
+const apiKey = 'sb_live_abc123def456789012345678901234';
+
+describe('middleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should let beforeRequest add headers', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey).use({
+      beforeRequest: (request) => {
+        request.headers['traceparent'] = '00-abc-def-01';
+      },
+    });
+    await client.credits.getBalance();
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ traceparent: '00-abc-def-01' });
+  });
+
+  it('should run hooks in onion order', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const calls: string[] = [];
+    const tracker = (name: string): Middleware => ({
+      beforeRequest: () => { calls.push(`before:${name}`); },
+      afterResponse: () => { calls.push(`after:${name}`); },
+    });
+
+    const client = new Scrapebit(apiKey, { middleware: [tracker('a'), tracker('b')] });
+    await client.credits.getBalance();
+
+    expect(calls).toEqual(['before:a', 'before:b', 'after:b', 'after:a']);
+  });
+
+  it('should let afterResponse replace the data', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ remaining: 1 }), { status: 200 })));
+
+    const client = new Scrapebit(apiKey, {
+      middleware: [{ afterResponse: (response) => ({ ...response, data: { remaining: 42 } }) }],
+    });
+
+    await expect(client.credits.getBalance()).resolves.toEqual({ remaining: 42 });
+  });
+
+  it('should handle the status returned by afterResponse', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"unavailable"}', { status: 503 })));
+    const recover = new Scrapebit(apiKey, {
+      retries: 0,
+      middleware: [{ afterResponse: (response) => ({ ...response, status: 200, data: { remaining: 7 } }) }],
+    });
+    await expect(recover.credits.getBalance()).resolves.toEqual({ remaining: 7 });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"remaining":1}', { status: 200 })));
+    const reject = new Scrapebit(apiKey, {
+      middleware: [{ afterResponse: (response) => ({ ...response, status: 404 }) }],
+    });
+    await expect(reject.credits.getBalance()).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should not pass an earlier attempt\'s request to onError', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"unavailable"}', { status: 503 })));
+    const attempts: number[] = [];
+
+    const client = new Scrapebit(apiKey, {
+      retryPolicy: { maxAttempts: 2, baseDelayMs: 0 },
+      middleware: [{
+        beforeRequest: (request) => {
+          if (request.attempt === 2) throw new ScrapebitError('Signing failed', 'SIGNING_FAILED');
+        },
+        onError: (_error, request) => { attempts.push(request.attempt); },
+      }],
+    });
+
+    await expect(client.credits.getBalance()).rejects.toMatchObject({ code: 'SIGNING_FAILED' });
+    expect(attempts).toEqual([1]);
+  });
+
+  it('should let onError rewrite errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"nope"}', { status: 404 })));
+
+    const client = new Scrapebit(apiKey, {
+      middleware: [{
+        onError: (error, request) => error instanceof NotFoundError
+          ? new ScrapebitError(`Missing ${request.endpoint}`, 'MISSING')
+          : undefined,
+      }],
+    });
+
+    await expect(client.pdf.get('pdf_1')).rejects.toThrow('Missing /pdf/pdf_1');
+  });
+});
+
+describe('createLoggerMiddleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should log requests with the Authorization header and secrets redacted', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const lines: string[] = [];
+
+    const client = new Scrapebit(apiKey, {
+      middleware: [createLoggerMiddleware({ log: (line) => lines.push(line) })],
+    });
+    await client.monitoring.addChannel('mon_1', {
+      type: 'webhook',
+      webhookUrl: 'https://example.com/hook',
+      webhookHeaders: { 'X-Token': 'shh' },
+    });
+
+    expect(lines[0]).toContain('-> POST /monitoring/mon_1/channels (attempt 1)');
+    expect(lines[0]).toContain('"Authorization":"[REDACTED]"');
+    expect(lines[0]).toContain('"webhookHeaders":"[REDACTED]"');
+    expect(lines.join('\n')).not.toContain(apiKey);
+    expect(lines.join('\n')).not.toContain('shh');
+    expect(lines[1]).toMatch(/^<- 200 POST \/monitoring\/mon_1\/channels \d+ms$/);
+  });
+});
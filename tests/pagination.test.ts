@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scrapebit, AbortError, ValidationError, paginate } from '../src';
+import type { PaginatedResponse } from '../src';
+
+function pageOf<T>(data: T[], page: number, totalPages: number): PaginatedResponse<T> {
+  return {
+    data,
+    pagination: { page, limit: data.length, total: totalPages * data.length, totalPages, hasMore: page < totalPages },
+  };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('paginate', () => {
+  it('should follow hasMore across pages', async () => {
+    const fetchPage = vi.fn(async ({ page }: { page: number }) => pageOf([page * 10, page * 10 + 1], page, 3));
+
+    expect(await collect(paginate(fetchPage))).toEqual([10, 11, 20, 21, 30, 31]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should pass pageSize as limit', async () => {
+    const fetchPage = vi.fn(async ({ page }: { page: number }) => pageOf([page], page, 1));
+
+    await collect(paginate(fetchPage, { pageSize: 50 }));
+    expect(fetchPage).toHaveBeenCalledWith({ page: 1, limit: 50 });
+  });
+
+  it('should stop at maxItems without fetching extra pages', async () => {
+    const fetchPage = vi.fn(async ({ page }: { page: number }) => pageOf([page, page], page, 10));
+
+    expect(await collect(paginate(fetchPage, { maxItems: 3 }))).toEqual([1, 1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw AbortError once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = async ({ page }: { page: number }) => pageOf([page], page, 10);
+    const seen: number[] = [];
+
+    const run = async () => {
+      for await (const item of paginate(fetchPage, { signal: controller.signal })) {
+        seen.push(item);
+        if (item === 2) controller.abort();
+      }
+    };
+
+    await expect(run()).rejects.toBeInstanceOf(AbortError);
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it('should validate options', async () => {
+    const fetchPage = async () => pageOf<number>([], 1, 1);
+    await expect(collect(paginate(fetchPage, { pageSize: 0 }))).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('listAll', () => {
+  it('should forward filters and page parameters to the list endpoint', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      return new Response(JSON.stringify(pageOf([{ id: `mon_${page}` }], page, 2)), { status: 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit('sb_live_abc123def456789012345678901234');
+    const monitors = await collect(client.monitoring.listAll({ status: 'active', pageSize: 1 }));
+
+    expect(monitors.map((m) => m.id)).toEqual(['mon_1', 'mon_2']);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.scrapebit.com/v1/monitoring?page=1&limit=1&status=active');
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scrapebit, ScheduleRunError, TimeoutError, AbortError, pollUntil } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('waiting for jobs', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer({ scheduleRunPolls: 3, credits: { subscription: 1 } });
+    client = new Scrapebit(server.apiKey, server.config());
+  });
+
+  const createTask = (type: 'scrape' | 'pdf' | 'screenshot') => client.schedule.create({
+    url: 'https://example.com',
+    type,
+    scheduledAt: new Date().toISOString(),
+  });
+
+  it('should poll until a run completes and fetch its result', async () => {
+    const task = await createTask('scrape');
+    const completed = await client.schedule.runAndWait(task.id, { pollInterval: 1 });
+
+    expect(completed.type).toBe('scrape');
+    expect(completed.task).toMatchObject({ status: 'completed', resultId: 'scrape_1' });
+    expect(completed.run).toMatchObject({ status: 'completed', resultId: 'scrape_1' });
+    if (completed.type === 'scrape') {
+      expect(completed.result.data).toEqual([{ title: 'title 1', url: 'https://example.com' }]);
+    }
+    // One history read before the trigger, then three polls
+    expect(server.requests.filter((request) => request.path === `/schedule/${task.id}/history`)).toHaveLength(4);
+  });
+
+  it('should wait for the new run rather than report an earlier one', async () => {
+    const task = await createTask('pdf');
+    const first = await client.schedule.runAndWait(task.id, { pollInterval: 1 });
+    server.addCredits(1);
+
+    const second = await client.schedule.runAndWait(task.id, { pollInterval: 1 });
+    expect(second.run.id).not.toBe(first.run.id);
+    expect(second.result.id).not.toBe(first.result.id);
+  });
+
+  it('should skip runs that started before the trigger or after this one', async () => {
+    const task = await createTask('scrape');
+    const hour = 60 * 60 * 1000;
+    const others = [
+      { id: 'run_late', status: 'completed', startedAt: new Date(Date.now() + hour).toISOString(), completedAt: new Date(Date.now() + hour).toISOString(), resultId: 'scrape_x' },
+      { id: 'run_early', status: 'completed', startedAt: new Date(Date.now() - hour).toISOString(), completedAt: new Date().toISOString(), resultId: 'scrape_y' },
+    ];
+    let triggered = false;
+
+    // Other runs show up in history after the trigger, as a cron run would
+    const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+      const response = await server.fetch(input, init);
+      const url = String(input);
+      if (url.endsWith('/trigger')) triggered = true;
+      if (!triggered || !url.includes('/history')) return response;
+      const page = await response.json();
+      return new Response(JSON.stringify({ ...page, data: [...others, ...page.data] }), { status: 200 });
+    };
+    const watched = new Scrapebit(server.apiKey, server.config({ fetch }));
+
+    const completed = await watched.schedule.runAndWait(task.id, { pollInterval: 1 });
+    expect(completed.run).toMatchObject({ id: expect.stringMatching(/^run_\d/), resultId: 'scrape_1' });
+  });
+
+  it('should fetch PDF results for PDF tasks', async () => {
+    const task = await createTask('pdf');
+    await expect(client.schedule.runAndWait(task.id, { pollInterval: 1 }))
+      .resolves.toMatchObject({ type: 'pdf', result: { id: 'pdf_1', pageCount: 1 } });
+  });
+
+  it('should throw the run error when a run fails', async () => {
+    const task = await createTask('screenshot');
+    await client.schedule.runAndWait(task.id, { pollInterval: 1 });
+
+    const error = await client.schedule.runAndWait(task.id, { pollInterval: 1 }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ScheduleRunError);
+    expect(error).toMatchObject({
+      code: 'SCHEDULE_RUN_FAILED',
+      taskId: task.id,
+      runError: 'Insufficient credits',
+      message: `Scheduled task ${task.id} failed: Insufficient credits`,
+    });
+  });
+
+  it('should time out and cancel', async () => {
+    const slow = new FakeScrapebitServer({ scheduleRunPolls: 1000 });
+    const slowClient = new Scrapebit(slow.apiKey, slow.config());
+    const task = await slowClient.schedule.create({ url: 'https://example.com', type: 'pdf', scheduledAt: new Date().toISOString() });
+
+    await expect(slowClient.schedule.runAndWait(task.id, { timeout: 30, pollInterval: 5 }))
+      .rejects.toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    await expect(slowClient.schedule.runAndWait(task.id, { pollInterval: 5, signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should back off between checks', async () => {
+    const calls: number[] = [];
+    const started = Date.now();
+
+    const value = await pollUntil(async () => {
+      calls.push(Date.now() - started);
+      return calls.length === 4 ? 'done' : undefined;
+    }, { pollInterval: 10, backoff: 2, maxPollInterval: 25 });
+
+    expect(value).toBe('done');
+    const gaps = calls.slice(1).map((time, i) => time - calls[i]);
+    expect(gaps[0]).toBeGreaterThanOrEqual(9);
+    expect(gaps[1]).toBeGreaterThanOrEqual(19);
+    expect(gaps[2]).toBeGreaterThanOrEqual(24);
+  });
+});
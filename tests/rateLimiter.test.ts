@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, Scrapebit, ValidationError } from '../src';
+import type { UsageInfo } from '../src';
+
+function usage(limit: number | null, requestsToday: number): UsageInfo {
+  return {
+    credits_remaining: 100,
+    credits_used_this_month: 0,
+    subscription_credits: 100,
+    purchased_credits: 0,
+    plan: {
+      name: 'Starter',
+      slug: 'starter',
+      credits_per_month: 100,
+      api_rate_limit_per_day: limit,
+      max_scheduled_jobs: null,
+      max_monitors: null,
+      has_integrations: true,
+      has_pagination: true,
+    },
+    subscription: null,
+    api_requests_today: requestsToday,
+  };
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests beyond capacity until tokens refill', async () => {
+    const limiter = new RateLimiter({ capacity: 2, refillAmount: 1, intervalMs: 1000 });
+    const granted: number[] = [];
+
+    [1, 2, 3, 4].forEach((n) => limiter.acquire().then(() => granted.push(n)));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([1, 2]);
+    expect(limiter.queueDepth).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([1, 2, 3]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([1, 2, 3, 4]);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('should seed the budget from plan usage', () => {
+    const limiter = RateLimiter.fromUsage(usage(100, 97));
+    expect(limiter.available).toBe(3);
+  });
+
+  it('should not limit plans without a daily limit', async () => {
+    const limiter = RateLimiter.fromUsage(usage(null, 5000));
+    await Promise.all(Array.from({ length: 50 }, () => limiter.acquire()));
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new RateLimiter({ capacity: 0 })).toThrow('capacity must be at least 1');
+    expect(() => new RateLimiter({ capacity: 1, refillAmount: 0 })).toThrow('refillAmount must be positive');
+    expect(() => new RateLimiter({ capacity: 1, intervalMs: Infinity })).toThrow('intervalMs must be positive');
+  });
+
+  it('should reject a daily limit of zero', () => {
+    expect(() => RateLimiter.fromUsage(usage(0, 0))).toThrow('api_rate_limit_per_day must be positive');
+
+    const limiter = new RateLimiter({ capacity: 2 });
+    expect(() => limiter.seed(usage(-1, 0))).toThrow(ValidationError);
+    expect(limiter.available).toBe(2);
+  });
+
+  it('should be shared between clients', () => {
+    const limiter = new RateLimiter({ capacity: 10 });
+    const a = new Scrapebit('sb_live_abc123def456789012345678901234', { rateLimiter: limiter });
+    const b = new Scrapebit('sb_live_abc123def456789012345678901234', { rateLimiter: limiter });
+    expect(a.rateLimiter).toBe(limiter);
+    expect(b.rateLimiter).toBe(limiter);
+  });
+
+  it('should make requests wait for a token', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ remaining: 10 }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit('sb_live_abc123def456789012345678901234', {
+      rateLimiter: { capacity: 1, intervalMs: 1000 },
+    });
+
+    const first = client.credits.getBalance();
+    const second = client.credits.getBalance();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.rateLimiter?.queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    vi.unstubAllGlobals();
+  });
+});
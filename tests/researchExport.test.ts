@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Scrapebit,
+  ValidationError,
+  renderResearchMarkdown,
+  renderResearchHtml,
+  type ResearchSessionBundle,
+} from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('deepResearch export and import', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+  let bundle: ResearchSessionBundle;
+
+  beforeEach(async () => {
+    server = new FakeScrapebitServer();
+    client = new Scrapebit(server.apiKey, server.config());
+
+    const session = await client.deepResearch.createSession({ name: 'Pricing <Q1>', description: 'Competitor prices' });
+    await client.deepResearch.addText(session.id, { title: 'Notes', content: 'Prices rose 10% in March.' });
+    await client.deepResearch.chat(session.id, { message: 'What changed?' });
+    const summary = await client.deepResearch.analyze(session.id, { type: 'summary' });
+
+    bundle = await client.deepResearch.exportSession(session.id, { analyses: [summary] });
+  });
+
+  it('should export metadata, item contents, the transcript and analyses', () => {
+    expect(bundle).toMatchObject({
+      format: 'scrapebit.research-session',
+      version: 1,
+      session: { name: 'Pricing <Q1>', itemCount: 1 },
+      items: [{ id: 'item_1', title: 'Notes', content: 'Prices rose 10% in March.' }],
+      analyses: [{ type: 'summary' }],
+    });
+    expect(bundle.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+    expect(bundle.messages[1].sources).toEqual([expect.objectContaining({ itemId: 'item_1' })]);
+    expect(JSON.parse(JSON.stringify(bundle))).toEqual(bundle);
+  });
+
+  it('should rebuild a session from a bundle', async () => {
+    const imported = await client.deepResearch.importSession(JSON.parse(JSON.stringify(bundle)), { name: 'Archive' });
+
+    expect(imported.session.name).toBe('Archive');
+    expect(imported.itemIds).toEqual({ item_1: imported.items[0].id });
+
+    const { items } = await client.deepResearch.getSession(imported.session.id);
+    expect(items.map((item) => item.title)).toEqual(['Notes', expect.stringMatching(/^Research history/)]);
+
+    const history = await client.deepResearch.getItem(imported.session.id, items[1].id);
+    expect(history.content).toContain('### Question\n\nWhat changed?');
+  });
+
+  it('should skip the history when asked', async () => {
+    const imported = await client.deepResearch.importSession(bundle, { includeHistory: false });
+    expect(imported.items).toHaveLength(1);
+  });
+
+  it('should delete the new session when an item cannot be added', async () => {
+    const before = (await client.deepResearch.listSessions()).data.length;
+    server.fail({ status: 400, path: /\/items\/text$/, times: 1 });
+
+    await expect(client.deepResearch.importSession(bundle)).rejects.toMatchObject({ statusCode: 400 });
+    expect((await client.deepResearch.listSessions()).data).toHaveLength(before);
+  });
+
+  it('should reject files that are not bundles', async () => {
+    await expect(client.deepResearch.importSession({ name: 'x' } as unknown as ResearchSessionBundle))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(client.deepResearch.importSession({ ...bundle, version: 2 } as unknown as ResearchSessionBundle))
+      .rejects.toThrow('Unsupported research bundle version 2');
+  });
+
+  it('should render a Markdown report with numbered citations', () => {
+    const markdown = renderResearchMarkdown(bundle);
+
+    expect(markdown).toMatch(/^# Pricing <Q1>\n\nCompetitor prices\n/);
+    expect(markdown).toContain('## Sources\n\n1. **Notes** (custom_text)\n   > Prices rose 10% in March.');
+    expect(markdown).toContain('### Answer\n\nBased on [1]: Prices rose 10% in March.\n\nSources: [1]');
+    expect(markdown).toContain('## Analyses\n\n### Summary');
+  });
+
+  it('should render an escaped HTML report', () => {
+    const html = renderResearchHtml(bundle);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Pricing &lt;Q1&gt;</title>');
+    expect(html).toContain('<li id="source-1"><strong>Notes</strong>');
+    expect(html).toContain('Sources: <a href="#source-1">[1]</a>');
+    expect(html).not.toContain('<Q1>');
+  });
+
+  it('should only link http and https sources', () => {
+    const linked = (sourceUrl: string) => renderResearchHtml({
+      ...bundle,
+      items: [{ ...bundle.items[0], sourceUrl }],
+    });
+
+    expect(linked('https://example.com/report')).toContain('<a href="https://example.com/report">Notes</a>');
+    const html = linked('javascript:alert(document.cookie)');
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain('<strong>Notes</strong> <span class="type">javascript:alert(document.cookie)</span>');
+  });
+});
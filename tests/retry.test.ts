@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scrapebit, RateLimitError, ServerError, ScrapebitError } from '../src';
+import { parseRetryAfter } from '../src/utils/retry';
+
+const apiKey = 'sb_live_abc123def456789012345678901234';
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe('retry policy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry rate limited requests after the Retry-After header', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(429, { error: 'Too many requests' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(respond(200, { remaining: 10 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const onRetry = vi.fn();
+
+    const client = new Scrapebit(apiKey, { retryPolicy: { onRetry } });
+    await expect(client.credits.getBalance()).resolves.toEqual({ remaining: 10 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+      attempt: 2,
+      delayMs: 0,
+      method: 'GET',
+      endpoint: '/credits',
+    }));
+    expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(RateLimitError);
+  });
+
+  it('should give up when Retry-After exceeds maxRetryAfterMs', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(respond(429, {}, { 'Retry-After': '120' })));
+
+    const client = new Scrapebit(apiKey, { retryPolicy: { maxRetryAfterMs: 1000 } });
+    const error = await client.credits.getBalance().catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(120);
+  });
+
+  it('should stop after maxAttempts', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(503, { error: 'Unavailable' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey, { retryPolicy: { maxAttempts: 3, baseDelayMs: 1 } });
+    await expect(client.credits.getBalance()).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should honour retries: 0', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(503));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey, { retries: 0 });
+    await expect(client.credits.getBalance()).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry the configured error classes and status codes', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(409, { error: 'Conflict' }))
+      .mockResolvedValueOnce(respond(200, { remaining: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit(apiKey, {
+      retryPolicy: { retryableErrors: [], retryableStatusCodes: [409], baseDelayMs: 1 },
+    });
+    await expect(client.credits.getBalance()).resolves.toEqual({ remaining: 1 });
+
+    fetchMock.mockResolvedValueOnce(respond(503));
+    await expect(client.credits.getBalance()).rejects.toBeInstanceOf(ScrapebitError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delta-seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-15T09:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 09:01:00 GMT', now)).toBe(60);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
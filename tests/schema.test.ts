@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scrapebit, field, schemaToExtract, validateRow } from '../src';
+
+const product = {
+  name: field.string('Product name'),
+  price: field.number('Price in USD'),
+  inStock: field.optional(field.boolean('Whether the product is available')),
+  variants: field.array(field.object({ sku: field.string('SKU') }), 'Variants'),
+};
+
+describe('schemaToExtract', () => {
+  it('should describe every field with its type', () => {
+    expect(schemaToExtract(product)).toEqual({
+      name: 'Product name',
+      price: 'Price in USD (number)',
+      inStock: 'Whether the product is available (true or false, optional)',
+      variants: 'Variants (list of object with sku: SKU)',
+    });
+  });
+
+  it('should fall back to the field name', () => {
+    expect(schemaToExtract({ title: field.string() })).toEqual({ title: 'title' });
+  });
+});
+
+describe('validateRow', () => {
+  it('should accept a conforming row', () => {
+    const row = { name: 'Widget', price: 9.99, variants: [{ sku: 'W-1' }] };
+    expect(validateRow(product, row).issues).toEqual([]);
+  });
+
+  it('should report wrong types and missing fields with paths', () => {
+    const row = { price: '9.99', inStock: 'yes', variants: [{ sku: 1 }] };
+    expect(validateRow(product, row).issues).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'price', message: 'expected number, received string' },
+      { path: 'inStock', message: 'expected boolean, received string' },
+      { path: 'variants[0].sku', message: 'expected string, received number' },
+    ]);
+  });
+
+  it('should coerce primitives when asked', () => {
+    const row = { name: 'Widget', price: ' 9.99 ', inStock: 'TRUE', variants: [] };
+    const { value, issues } = validateRow(product, row, { coerce: true });
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ name: 'Widget', price: 9.99, inStock: true, variants: [] });
+  });
+});
+
+describe('ContentApi.extract with schema', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the extract map and validate returned rows', async () => {
+    const scrapeResult = {
+      success: true,
+      data: [
+        { name: 'Widget', price: 9.99, variants: [] },
+        { name: 'Gadget', price: 'N/A', variants: [] },
+      ],
+      headers: ['name', 'price', 'variants'],
+      row_count: 2,
+      credits_used: 1,
+      credits_remaining: 99,
+    };
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: true, data: scrapeResult }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new Scrapebit('sb_live_abc123def456789012345678901234');
+    const result = await client.content.extract({ url: 'https://example.com', schema: product });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      url: 'https://example.com',
+      extract: schemaToExtract(product),
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([[], [{ path: 'price', message: 'expected number, received string' }]]);
+
+    const name: string = result.data[0].name;
+    expect(name).toBe('Widget');
+  });
+
+  it('should reject schema combined with extract', async () => {
+    const client = new Scrapebit('sb_live_abc123def456789012345678901234');
+    await expect(client.content.extract({
+      url: 'https://example.com',
+      schema: product,
+      extract: { name: 'Name' },
+    } as never)).rejects.toThrow('schema cannot be combined with extract or columns');
+  });
+});
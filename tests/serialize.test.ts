@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  toRows,
+  toCsv,
+  toJson,
+  toNdjson,
+  toMarkdownTable,
+  writeResults,
+  ValidationError,
+  type ScrapeResult,
+} from '../src';
+
+function result(headers: string[], data: Record<string, unknown>[]): ScrapeResult {
+  return { success: true, headers, data, row_count: data.length, credits_used: 1, credits_remaining: 99 };
+}
+
+describe('scrape result serializers', () => {
+  const page1 = result(['name', 'price'], [
+    { price: { amount: 10, currency: 'USD' }, name: 'Widget, large' },
+    { name: 'Gadget "Pro"', price: null },
+  ]);
+  const page2 = result(['name', 'price', 'stock'], [
+    { name: 'Line\nbreak', stock: 3, sku: 'A-1' },
+  ]);
+
+  it('should order columns by headers and merge results', () => {
+    const { columns, rows } = toRows([page1, page2]);
+
+    expect(columns).toEqual(['name', 'price', 'stock', 'sku']);
+    expect(rows).toHaveLength(3);
+    expect(Object.keys(rows[0])).toEqual(columns);
+    expect(rows[2]).toEqual({ name: 'Line\nbreak', price: null, stock: 3, sku: 'A-1' });
+  });
+
+  it('should write escaped CSV', () => {
+    expect(toCsv([page1, page2])).toBe([
+      'name,price,stock,sku',
+      '"Widget, large","{""amount"":10,""currency"":""USD""}",,',
+      '"Gadget ""Pro""",,,',
+      '"Line\nbreak",,3,A-1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should flatten nested values in place of their header', () => {
+    const { columns, rows } = toRows([page1, page2], { flatten: true });
+
+    expect(columns).toEqual(['name', 'price', 'price.amount', 'price.currency', 'stock', 'sku']);
+    expect(rows[0]).toMatchObject({ 'price.amount': 10, 'price.currency': 'USD', price: null });
+    expect(toRows(page1, { flatten: true, separator: '_', columns: ['price_amount'] }).rows[0])
+      .toEqual({ price_amount: 10 });
+  });
+
+  it('should write JSON and NDJSON rows', () => {
+    expect(JSON.parse(toJson(page2))).toEqual([{ name: 'Line\nbreak', price: null, stock: 3, sku: 'A-1' }]);
+
+    const lines = toNdjson([page1, page2]).trimEnd().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0]).price).toEqual({ amount: 10, currency: 'USD' });
+  });
+
+  it('should write a Markdown table', () => {
+    const table = toMarkdownTable(result(['a|b', 'c'], [{ 'a|b': 'x|y', c: 'one\ntwo' }]));
+
+    expect(table).toBe('| a\\|b | c |\n| --- | --- |\n| x\\|y | one<br>two |\n');
+  });
+
+  it('should write a file in the format of its extension', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scrapebit-serialize-'));
+    try {
+      await writeResults([page1, page2], join(dir, 'rows.jsonl'));
+      expect(readFileSync(join(dir, 'rows.jsonl'), 'utf8').split('\n')).toHaveLength(4);
+
+      await expect(writeResults(page1, join(dir, 'rows.txt'))).rejects.toBeInstanceOf(ValidationError);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Scrapebit,
+  readEventStream,
+  AbortError,
+  NetworkError,
+  ScrapebitError,
+  TimeoutError,
+  type ChatStreamEvent,
+} from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+const apiKey = 'sb_live_abc123def456789012345678901234';
+
+function chunkedBody(chunks: string[], onCancel?: () => void) {
+  const encoder = new TextEncoder();
+  let pulls = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulls++;
+      const chunk = chunks.shift();
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    },
+    cancel: onCancel,
+  }, { highWaterMark: 0 });
+  return { body, pulls: () => pulls };
+}
+
+function streamingClient(chunks: string[], contentType = 'text/event-stream', onCancel?: () => void) {
+  const fetchMock = vi.fn(async () => new Response(chunkedBody(chunks, onCancel).body, {
+    status: 200,
+    headers: { 'Content-Type': contentType },
+  }));
+  return { client: new Scrapebit(apiKey, { fetch: fetchMock as unknown as typeof fetch }), fetchMock };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('readEventStream', () => {
+  it('should parse SSE events split across chunks', async () => {
+    const { body } = chunkedBody([
+      ': keep-alive\r\n\r\nevent: del',
+      'ta\r\ndata: {"text":"Hel',
+      'lo"}\r\n\r\ndata: line one\ndata: line two\n\n',
+      'event: done\ndata: {}',
+    ]);
+
+    expect(await collect(readEventStream(body, 'sse'))).toEqual([
+      { event: 'delta', data: { text: 'Hello' } },
+      { event: 'message', data: 'line one\nline two' },
+      { event: 'done', data: {} },
+    ]);
+  });
+
+  it('should parse NDJSON with multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('{"event":"delta","data":{"text":"café"}}\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 35));
+        controller.enqueue(bytes.slice(35));
+        controller.close();
+      },
+    });
+
+    expect(await collect(readEventStream(body, 'ndjson'))).toEqual([{ event: 'delta', data: { text: 'café' } }]);
+  });
+
+  it('should only read the body as events are consumed', async () => {
+    const { body, pulls } = chunkedBody(['data: 1\n\n', 'data: 2\n\n', 'data: 3\n\n']);
+    const events = readEventStream(body, 'sse');
+
+    await events.next();
+    expect(pulls()).toBe(1);
+    await events.next();
+    expect(pulls()).toBe(2);
+    await events.return();
+  });
+
+  it('should throw error events as ScrapebitError', async () => {
+    const { body } = chunkedBody(['event: error\ndata: {"error":"Model overloaded","code":"OVERLOADED"}\n\n']);
+
+    const error = await collect(readEventStream(body, 'sse')).catch((e) => e);
+    expect(error).toBeInstanceOf(ScrapebitError);
+    expect(error.code).toBe('OVERLOADED');
+  });
+
+  it('should time out when the stream goes quiet', async () => {
+    const body = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => undefined) });
+
+    await expect(collect(readEventStream(body, 'sse', { idleTimeout: 20 }))).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
+
+describe('deepResearch streaming', () => {
+  it('should stream a chat answer from the fake server', async () => {
+    const server = new FakeScrapebitServer();
+    const client = new Scrapebit(server.apiKey, server.config());
+    const session = await client.deepResearch.createSession({ name: 'Pricing' });
+    await client.deepResearch.addText(session.id, { title: 'Notes', content: 'Prices rose 10% in March.' });
+
+    const events = await collect(client.deepResearch.chatStream(session.id, { message: 'What changed?' }));
+    const text = events.flatMap((event) => (event.type === 'delta' ? [event.text] : [])).join('');
+    const done = events[events.length - 1] as Extract<ChatStreamEvent, { type: 'done' }>;
+
+    expect(events.filter((event) => event.type === 'delta').length).toBeGreaterThan(1);
+    expect(events).toContainEqual({ type: 'source', source: { itemId: 'item_1', title: 'Notes', excerpt: 'Prices rose 10% in March.' } });
+    expect(done.result.message).toBe(text);
+    expect(done.result.sources).toHaveLength(1);
+    expect(server.requests[2].headers['accept']).toContain('text/event-stream');
+  });
+
+  it('should aggregate an NDJSON analysis', async () => {
+    const { client, fetchMock } = streamingClient([
+      '{"event":"delta","data":{"text":"Prices "}}\n{"event":"delta","data":{"text":"rose."}}\n',
+      '{"event":"source","data":{"itemId":"item_1","title":"Notes"}}\n',
+      '{"event":"done","data":{"generatedAt":"2024-01-01T00:00:00Z"}}\n',
+    ], 'application/x-ndjson');
+
+    const events = await collect(client.deepResearch.analyzeStream('session_1', { type: 'trends' }));
+
+    expect(events[events.length - 1]).toEqual({
+      type: 'done',
+      result: {
+        analysis: 'Prices rose.',
+        type: 'trends',
+        sources: [{ itemId: 'item_1', title: 'Notes' }],
+        generatedAt: '2024-01-01T00:00:00Z',
+      },
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.scrapebit.com/v1/deep-research/sessions/session_1/analyze',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should fall back to a plain JSON answer', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      success: true,
+      data: { data: { message: 'All done.', sources: [{ itemId: 'item_1', title: 'Notes', excerpt: 'x' }] } },
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    const client = new Scrapebit(apiKey, { fetch: fetchMock as unknown as typeof fetch });
+
+    expect(await collect(client.deepResearch.chatStream('session_1', { message: 'Hi' }))).toEqual([
+      { type: 'delta', text: 'All done.' },
+      { type: 'source', source: { itemId: 'item_1', title: 'Notes', excerpt: 'x' } },
+      { type: 'done', result: { message: 'All done.', sources: [{ itemId: 'item_1', title: 'Notes', excerpt: 'x' }] } },
+    ]);
+  });
+
+  it('should cancel the body when the signal fires mid-stream', async () => {
+    const onCancel = vi.fn();
+    const { client } = streamingClient(['event: delta\ndata: {"text":"Hi"}\n\n', 'event: delta\ndata: {"text":"!"}\n\n'], undefined, onCancel);
+    const controller = new AbortController();
+
+    const events = client.deepResearch.chatStream('session_1', { message: 'Hi' }, { signal: controller.signal });
+    expect(await events.next()).toEqual({ done: false, value: { type: 'delta', text: 'Hi' } });
+
+    controller.abort();
+    await expect(events.next()).rejects.toBeInstanceOf(AbortError);
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('should cancel the body when the consumer stops early', async () => {
+    const onCancel = vi.fn();
+    const { client } = streamingClient(['event: delta\ndata: {"text":"Hi"}\n\n', 'event: delta\ndata: {"text":"!"}\n\n'], undefined, onCancel);
+
+    for await (const event of client.deepResearch.chatStream('session_1', { message: 'Hi' })) {
+      expect(event.type).toBe('delta');
+      break;
+    }
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('should reject a stream that ends without a result', async () => {
+    const { client } = streamingClient(['event: delta\ndata: {"text":"Hi"}\n\n']);
+
+    await expect(collect(client.deepResearch.chatStream('session_1', { message: 'Hi' })))
+      .rejects.toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scrapebit, ValidationError } from '../src';
+import type { MonitorOptions } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('declarative sync', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+  let logged: string[];
+
+  beforeEach(() => {
+    server = new FakeScrapebitServer();
+    client = new Scrapebit(server.apiKey, server.config());
+    logged = [];
+  });
+
+  const log = (diff: string) => { logged.push(diff); };
+
+  const prices: MonitorOptions = {
+    name: 'Prices',
+    url: 'https://example.com/prices',
+    monitorType: 'selector',
+    selector: '.price',
+    checkInterval: 'hourly',
+    alertChannels: [{ type: 'email', email: 'ops@example.com' }],
+  };
+
+  describe('monitoring.sync', () => {
+    it('should create, update and prune monitors', async () => {
+      const existing = await client.monitoring.create({ ...prices, checkInterval: 'daily' });
+      const stale = await client.monitoring.create({ name: 'Old', url: 'https://example.com/old' });
+
+      const plan = await client.monitoring.sync([
+        prices,
+        { name: 'Stock', url: 'https://example.com/stock' },
+      ], { prune: true, log });
+
+      expect(plan.applied).toBe(true);
+      expect(plan.summary).toMatchObject({ create: 1, update: 1, delete: 1, unchanged: 0 });
+      expect(logged[0]).toBe([
+        'Monitors: 1 to create, 1 to update, 1 to delete, 0 unchanged',
+        `  ~ Prices (${existing.id})`,
+        '      checkInterval: "daily" -> "hourly"',
+        '  + Stock',
+        `  - Old (${stale.id})`,
+      ].join('\n'));
+
+      expect(await client.monitoring.get(existing.id)).toMatchObject({ checkInterval: 'hourly' });
+      await expect(client.monitoring.get(stale.id)).rejects.toMatchObject({ statusCode: 404 });
+      const names = (await client.monitoring.list()).data.map((monitor) => monitor.name);
+      expect(names.sort()).toEqual(['Prices', 'Stock']);
+
+      const again = await client.monitoring.sync([prices, { name: 'Stock', url: 'https://example.com/stock' }], { prune: true, log });
+      expect(again.summary).toMatchObject({ create: 0, update: 0, delete: 0, unchanged: 2 });
+    });
+
+    it('should reconcile alert channels through the channel endpoints', async () => {
+      const monitor = await client.monitoring.create({
+        ...prices,
+        alertChannels: [
+          { type: 'email', email: 'ops@example.com' },
+          { type: 'webhook', webhookUrl: 'https://hooks.example.com/a' },
+        ],
+      });
+      const email = monitor.alertChannels[0];
+      await client.monitoring.updateChannel(monitor.id, email.id, { isEnabled: false });
+
+      await client.monitoring.sync([{
+        ...prices,
+        alertChannels: [
+          { type: 'email', email: 'ops@example.com', isEnabled: true },
+          { type: 'slack', slackWebhookUrl: 'https://hooks.slack.com/services/T000/B000/secret' },
+        ],
+      }], { log });
+
+      expect(logged[0]).toContain('"email:ops@example.com (disabled)","webhook:https://hooks.example.com/a"');
+      expect(logged[0]).toContain('"slack:https://hooks.slack.com/..."');
+      expect(logged[0]).not.toContain('secret');
+
+      const { alertChannels } = await client.monitoring.get(monitor.id);
+      expect(alertChannels).toEqual([
+        expect.objectContaining({ id: email.id, type: 'email', isEnabled: true }),
+        expect.objectContaining({ type: 'slack', isEnabled: true }),
+      ]);
+      expect(server.requests.some((request) => request.method === 'PATCH' && request.path === `/monitoring/${monitor.id}`)).toBe(false);
+    });
+
+    it('should only change whether a channel is enabled when the desired channel says so', async () => {
+      const monitor = await client.monitoring.create({ ...prices, alertChannels: [{ type: 'email', email: 'ops@example.com' }] });
+      const [email] = monitor.alertChannels;
+      await client.monitoring.updateChannel(monitor.id, email.id, { isEnabled: false });
+
+      const plan = await client.monitoring.sync([{ ...prices, alertChannels: [{ type: 'email', email: 'ops@example.com' }] }], { log });
+      expect(plan.summary).toMatchObject({ update: 0, unchanged: 1 });
+
+      await client.monitoring.sync([{
+        ...prices,
+        alertChannels: [
+          { type: 'email', email: 'ops@example.com' },
+          { type: 'webhook', webhookUrl: 'https://hooks.example.com/a', isEnabled: false },
+        ],
+      }], { log });
+
+      expect((await client.monitoring.get(monitor.id)).alertChannels).toEqual([
+        expect.objectContaining({ id: email.id, isEnabled: false }),
+        expect.objectContaining({ type: 'webhook', isEnabled: false }),
+      ]);
+    });
+
+    it('should only print the plan in a dry run', async () => {
+      await client.monitoring.create({ name: 'Old', url: 'https://example.com/old' });
+
+      const plan = await client.monitoring.sync([prices], { prune: true, dryRun: true, log });
+
+      expect(plan.applied).toBe(false);
+      expect(plan.diff).toBe(logged[0]);
+      expect(logged[0]).toMatch(/^Monitors: 1 to create, 0 to update, 1 to delete, 0 unchanged \(dry run\)/);
+      expect((await client.monitoring.list()).data.map((monitor) => monitor.name)).toEqual(['Old']);
+    });
+
+    it('should match by tag and leave untagged monitors alone', async () => {
+      await client.monitoring.create({ name: 'Manual', url: 'https://example.com/manual' });
+      const tagged = await client.monitoring.create({ name: 'Prices (old name)', url: prices.url, tags: ['sync:prices'] });
+      await client.monitoring.create({ name: 'Gone', url: 'https://example.com/gone', tags: ['sync:gone'] });
+
+      const plan = await client.monitoring.sync([{ ...prices, tags: ['sync:prices'] }], { matchBy: 'tag', prune: true, log });
+
+      expect(plan.changes.map(({ action, key }) => [action, key])).toEqual([['update', 'sync:prices'], ['delete', 'sync:gone']]);
+      expect(await client.monitoring.get(tagged.id)).toMatchObject({ name: 'Prices', selector: '.price' });
+      expect((await client.monitoring.list()).data.map((monitor) => monitor.name).sort()).toEqual(['Manual', 'Prices']);
+    });
+
+    it('should validate every entry before changing anything', async () => {
+      await client.monitoring.create({ name: 'Old', url: 'https://example.com/old' });
+      const requests = server.requests.length;
+
+      await expect(client.monitoring.sync([
+        { name: 'Stock', url: 'https://example.com/stock' },
+        { ...prices, alertRules: [{ type: 'regex', pattern: '(' }] },
+      ], { prune: true, log })).rejects.toMatchObject({ details: { field: 'alertRules[0].pattern' } });
+
+      expect(server.requests).toHaveLength(requests);
+      expect(logged).toEqual([]);
+    });
+
+    it('should treat null and missing channel settings alike', async () => {
+      const monitor = await client.monitoring.create(prices);
+      const [channel] = monitor.alertChannels;
+      // The API returns null for settings that were never set
+      await server.fetch(`${server.baseUrl}/monitoring/${monitor.id}/channels/${channel.id}`, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${server.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ webhookHeaders: null, debounceMinutes: null, quietHours: null }),
+      });
+
+      const plan = await client.monitoring.sync([prices]);
+      expect(plan.summary).toMatchObject({ update: 0, unchanged: 1 });
+    });
+
+    it('should reject entries without a key or with a duplicate one', async () => {
+      await expect(client.monitoring.sync([{ ...prices, name: '' }], { log }))
+        .rejects.toMatchObject({ details: { field: 'name' } });
+      await expect(client.monitoring.sync([prices], { matchBy: 'tag', log }))
+        .rejects.toBeInstanceOf(ValidationError);
+      await expect(client.monitoring.sync([prices, prices], { log }))
+        .rejects.toThrow('"Prices" appears more than once');
+    });
+  });
+
+  describe('schedule.sync', () => {
+    it('should update tasks in place and recreate them when the URL changes', async () => {
+      const daily = await client.schedule.create({
+        name: 'Daily prices',
+        url: 'https://example.com/prices',
+        type: 'scrape',
+        cron: '0 9 * * *',
+      });
+      const report = await client.schedule.create({
+        name: 'Report',
+        url: 'https://example.com/report',
+        type: 'pdf',
+        scheduledAt: '2024-01-15T09:00:00Z',
+      });
+
+      const plan = await client.schedule.sync([
+        { name: 'Daily prices', url: 'https://example.com/prices', type: 'scrape', cron: '0 9 * * *', timezone: 'Europe/Berlin' },
+        { name: 'Report', url: 'https://example.com/report-v2', type: 'pdf', scheduledAt: '2024-01-15T09:00:00.000Z' },
+      ], { log });
+
+      expect(plan.summary).toMatchObject({ update: 1, replace: 1 });
+      const writes = server.requests.filter((request) => request.method !== 'GET').map((request) => `${request.method} ${request.path}`);
+      expect(writes.slice(-3)).toEqual([`PATCH /schedule/${daily.id}`, 'POST /schedule', `DELETE /schedule/${report.id}`]);
+      expect(logged[0]).toContain(`  -/+ Report (${report.id})\n      url: "https://example.com/report" -> "https://example.com/report-v2"`);
+      expect(logged[0]).not.toContain('scheduledAt');
+
+      expect(await client.schedule.get(daily.id)).toMatchObject({ timezone: 'Europe/Berlin' });
+      await expect(client.schedule.get(report.id)).rejects.toMatchObject({ statusCode: 404 });
+      const tasks = (await client.schedule.list()).data;
+      expect(tasks.find((task) => task.name === 'Report')).toMatchObject({ url: 'https://example.com/report-v2' });
+    });
+  });
+});
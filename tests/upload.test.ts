@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Scrapebit, ValidationError, type UploadProgress } from '../src';
+import { FakeScrapebitServer } from '../src/testing';
+
+describe('deepResearch uploads', () => {
+  let server: FakeScrapebitServer;
+  let client: Scrapebit;
+  let sessionId: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = new FakeScrapebitServer();
+    client = new Scrapebit(server.apiKey, server.config({ retryPolicy: { baseDelayMs: 0, jitter: 'none' } }));
+    sessionId = (await client.deepResearch.createSession({ name: 'Uploads' })).id;
+    dir = mkdtempSync(join(tmpdir(), 'scrapebit-upload-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should upload a file from disk with progress', async () => {
+    const path = join(dir, 'notes.txt');
+    writeFileSync(path, 'x'.repeat(200 * 1024));
+    const progress: UploadProgress[] = [];
+
+    const item = await client.deepResearch.addDocument(sessionId, path, {
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(item).toMatchObject({ type: 'document', title: 'notes.txt' });
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toMatchObject({ percent: 100 });
+    expect(progress[progress.length - 1].loaded).toBe(progress[0].total);
+
+    const request = server.requests[server.requests.length - 1];
+    expect(request.headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(request.body).toMatchObject({ file: { name: 'notes.txt', type: 'text/plain' } });
+  });
+
+  it('should upload a Node.js stream with an explicit name and type', async () => {
+    const stream = Readable.from([Buffer.from('PK'), Buffer.from('docx bytes')]);
+
+    const item = await client.deepResearch.addDocument(sessionId, stream, {
+      filename: 'report.docx',
+      title: 'Q1 report',
+    });
+
+    expect(item).toMatchObject({ type: 'document', title: 'Q1 report' });
+    expect(item.preview).toContain('wordprocessingml.document, 12 bytes');
+  });
+
+  it('should make uploaded text available to chat', async () => {
+    await client.deepResearch.addDocument(sessionId, new Blob(['Prices rose 10% in March.'], { type: 'text/plain' }), {
+      filename: 'pricing.txt',
+    });
+
+    const response = await client.deepResearch.chat(sessionId, { message: 'What happened?' });
+    expect(response.sources).toEqual([expect.objectContaining({ title: 'pricing.txt', excerpt: 'Prices rose 10% in March.' })]);
+  });
+
+  it('should send the whole file again when retrying', async () => {
+    server.fail({ status: 503, path: `/deep-research/sessions/${sessionId}/items/document` });
+
+    const item = await client.deepResearch.addDocument(sessionId, Buffer.from('hello'), { filename: 'a.txt' });
+
+    const uploads = server.requests.filter((request) => request.path.endsWith('/items/document'));
+    expect(uploads).toHaveLength(2);
+    expect(uploads[1].body).toEqual(uploads[0].body);
+    expect(item.preview).toBe('hello');
+  });
+
+  it('should validate the file before uploading', async () => {
+    const before = server.requests.length;
+
+    await expect(client.deepResearch.addDocument(sessionId, Buffer.from('hello')))
+      .rejects.toMatchObject({ field: 'filename' });
+    await expect(client.deepResearch.addDocument(sessionId, Buffer.alloc(0), { filename: 'empty.pdf' }))
+      .rejects.toThrow('file is empty');
+    await expect(client.deepResearch.addDocument(sessionId, join(dir, 'missing.pdf')))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(client.deepResearch.addDocument(sessionId, Buffer.alloc(11), { filename: 'big.pdf', maxSize: 10 }))
+      .rejects.toThrow('larger than the 10 bytes limit');
+
+    expect(server.requests).toHaveLength(before);
+  });
+
+  it('should stop reading a stream once it exceeds the size limit', async () => {
+    let chunks = 0;
+    async function* endless() {
+      for (;;) {
+        chunks++;
+        yield new Uint8Array(1024);
+      }
+    }
+
+    await expect(client.deepResearch.addDocument(sessionId, endless(), { filename: 'big.pdf', maxSize: 4096 }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(chunks).toBe(5);
+  });
+
+  it('should add PDF and screenshot results', async () => {
+    const pdf = await client.pdf.generate({ url: 'https://example.com/report' });
+    const screenshot = await client.screenshot.capture({ url: 'https://example.com' });
+
+    await expect(client.deepResearch.addPdfResult(sessionId, pdf)).resolves.toMatchObject({
+      type: 'pdf_result',
+      sourceUrl: 'https://example.com/report',
+    });
+    await expect(client.deepResearch.addScreenshotResult(sessionId, screenshot.id)).resolves.toMatchObject({
+      type: 'screenshot_result',
+      sourceUrl: 'https://example.com',
+    });
+    expect(server.requests[server.requests.length - 1].body).toEqual({ screenshotId: screenshot.id });
+  });
+});
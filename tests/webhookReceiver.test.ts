@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { Webhooks, WebhookReceiver } from '../src';
+import type { ExpressLikeRequest, FastifyLikeInstance, FastifyLikeReply, FastifyLikeRequest } from '../src/webhooks';
+
+const secret = 'whsec_test_secret';
+const signer = new Webhooks({ secret });
+
+const change = {
+  event: 'monitor.change_detected',
+  timestamp: '2024-01-15T09:00:00Z',
+  data: {
+    monitorId: 'mon_abc123',
+    monitorName: 'Price Monitor',
+    url: 'https://example.com/product',
+    check: { id: 'chk_1', status: 'success', changeDetected: true, changeSummary: 'Price dropped', checkedAt: '2024-01-15T09:00:00Z' },
+  },
+};
+
+const scrape = {
+  event: 'scrape.completed',
+  timestamp: '2024-01-15T09:05:00Z',
+  data: { id: 'scrape_1', url: 'https://example.com', status: 'completed' },
+};
+
+function delivery(payload: object, timestamp?: number) {
+  const body = JSON.stringify(payload);
+  return { method: 'POST', headers: { 'scrapebit-signature': signer.sign(body, timestamp) }, body };
+}
+
+describe('WebhookReceiver', () => {
+  let receiver: WebhookReceiver;
+
+  beforeEach(() => {
+    receiver = new WebhookReceiver({ secret });
+  });
+
+  it('should dispatch events to typed handlers', async () => {
+    const summaries: Array<string | undefined> = [];
+    const ids: string[] = [];
+    const all = vi.fn();
+
+    receiver
+      .on('monitor.change_detected', (event) => { summaries.push(event.data.check.changeSummary); })
+      .on('scrape.completed', async (event) => { ids.push(event.data.id); })
+      .on('*', all);
+
+    expect(await receiver.handle(delivery(change))).toEqual({ status: 200, body: { received: true } });
+    expect(await receiver.handle(delivery(scrape))).toEqual({ status: 200, body: { received: true } });
+
+    expect(summaries).toEqual(['Price dropped']);
+    expect(ids).toEqual(['scrape_1']);
+    expect(all).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unverified deliveries and other methods', async () => {
+    const bad = { ...delivery(change), headers: { 'scrapebit-signature': 't=1,v1=00' } };
+
+    expect((await receiver.handle(bad)).status).toBe(400);
+    expect((await receiver.handle({ ...delivery(change), headers: {} })).status).toBe(400);
+    expect((await receiver.handle({ ...delivery(change), method: 'GET' })).status).toBe(405);
+  });
+
+  it('should acknowledge redeliveries without running handlers again', async () => {
+    const handler = vi.fn();
+    receiver.on('monitor.change_detected', handler);
+    const now = Math.floor(Date.now() / 1000);
+
+    await receiver.handle(delivery(change, now));
+    const retry = await receiver.handle(delivery(change, now + 30));
+
+    expect(retry).toEqual({ status: 200, body: { received: true, duplicate: true } });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require a replay store that can forget failed deliveries', () => {
+    expect(() => new WebhookReceiver({ secret, replayStore: { add: () => true } }))
+      .toThrow('replayStore must implement delete()');
+    expect(() => new WebhookReceiver({ secret, replayStore: false })).not.toThrow();
+  });
+
+  it('should answer 500 when a handler fails so the delivery is retried', async () => {
+    const onError = vi.fn();
+    const failing = new WebhookReceiver({ secret, onError });
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('database down'))
+      .mockResolvedValueOnce(undefined);
+    failing.on('scrape.completed', handler);
+
+    const first = await failing.handle(delivery(scrape));
+    expect(first).toEqual({ status: 500, body: { received: false, error: 'Webhook handler failed' } });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'database down' }), expect.objectContaining({ event: 'scrape.completed' }));
+
+    expect((await failing.handle(delivery(scrape))).status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should turn away redeliveries while the event is being handled', async () => {
+    let fail!: (error: Error) => void;
+    const handler = vi.fn()
+      .mockImplementationOnce(() => new Promise<void>((_resolve, reject) => { fail = reject; }))
+      .mockResolvedValueOnce(undefined);
+    receiver.on('scrape.completed', handler);
+
+    const first = receiver.handle(delivery(scrape));
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+
+    const overlapping = await receiver.handle(delivery(scrape));
+    expect(overlapping).toEqual({ status: 409, body: { received: false, error: 'Webhook is already being processed' } });
+
+    fail(new Error('database down'));
+    expect((await first).status).toBe(500);
+
+    expect(await receiver.handle(delivery(scrape))).toEqual({ status: 200, body: { received: true } });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  describe('adapters', () => {
+    it('should serve Node http requests', async () => {
+      const handler = vi.fn();
+      const limited = new WebhookReceiver({ secret, maxBodySize: 2048 });
+      limited.on('scrape.completed', handler);
+
+      const server: Server = createServer(limited.nodeHandler());
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+      try {
+        const { headers, body } = delivery(scrape);
+        const ok = await fetch(url, { method: 'POST', headers, body });
+        expect(ok.status).toBe(200);
+        expect(await ok.json()).toEqual({ received: true });
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        const large = delivery({ ...scrape, data: { ...scrape.data, id: 'scrape_2', padding: 'x'.repeat(4096) } });
+        expect((await fetch(url, { method: 'POST', headers: large.headers, body: large.body })).status).toBe(413);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should answer 413 without waiting for the rest of an oversized body', async () => {
+      const limited = new WebhookReceiver({ secret, maxBodySize: 2048 });
+      const server: Server = createServer(limited.nodeHandler());
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        // Chunked upload without Content-Length that is never finished
+        const upload = request({ port, host: '127.0.0.1', method: 'POST', headers: delivery(scrape).headers });
+        const status = new Promise<number | undefined>((resolve, reject) => {
+          upload.on('response', (response) => resolve(response.statusCode));
+          upload.on('error', reject);
+        });
+        upload.write('x'.repeat(4096));
+
+        expect(await status).toBe(413);
+        upload.destroy();
+      } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should use the raw body from Express', async () => {
+      const respond = () => {
+        const res = { statusCode: 0, sent: undefined as unknown, status: vi.fn() };
+        res.status.mockImplementation((code: number) => {
+          res.statusCode = code;
+          return { json: (body: unknown) => { res.sent = body; } };
+        });
+        return res;
+      };
+      const request = (body: unknown) =>
+        Object.assign(Readable.from([]), { method: 'POST', headers: delivery(scrape).headers, body }) as unknown as ExpressLikeRequest;
+
+      const { body } = delivery(scrape);
+      const raw = respond();
+      receiver.expressHandler()(request(Buffer.from(body)), raw);
+      await vi.waitFor(() => expect(raw.statusCode).toBe(200));
+
+      const parsed = respond();
+      receiver.expressHandler()(request(JSON.parse(body)), parsed);
+      await vi.waitFor(() => expect(parsed.statusCode).toBe(500));
+      expect(parsed.sent).toMatchObject({ error: expect.stringContaining('raw body') });
+    });
+
+    it('should register a Fastify route with a raw body parser', async () => {
+      let route: ((request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>) | undefined;
+      const fastify: FastifyLikeInstance = {
+        addContentTypeParser: vi.fn(),
+        post: (path, handler) => { expect(path).toBe('/webhooks'); route = handler; },
+      };
+
+      await receiver.fastifyPlugin('/webhooks')(fastify);
+      expect(fastify.addContentTypeParser).toHaveBeenCalledWith('application/json', { parseAs: 'buffer' }, expect.any(Function));
+
+      const { headers, body } = delivery(change);
+      const send = vi.fn();
+      await route?.({ method: 'POST', headers, body: Buffer.from(body) }, { code: (status) => ({ send: (payload) => send(status, payload) }) });
+      expect(send).toHaveBeenCalledWith(200, { received: true });
+    });
+  });
+});
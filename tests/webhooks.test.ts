@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Webhooks, WebhookVerificationError, MemoryReplayStore, parseWebhookEvent } from '../src';
+import type { WebhookEvent } from '../src';
+
+const secret = 'whsec_test_secret';
+
+const payload = {
+  event: 'monitor.change_detected',
+  timestamp: '2024-01-15T09:00:00Z',
+  data: {
+    monitorId: 'mon_abc123',
+    monitorName: 'Price Monitor',
+    url: 'https://example.com/product',
+    check: {
+      id: 'chk_1',
+      status: 'success',
+      changeDetected: true,
+      changeSummary: 'Price dropped',
+      checkedAt: '2024-01-15T09:00:00Z',
+    },
+  },
+};
+
+async function expectFailure(promise: Promise<unknown>, reason: string) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(WebhookVerificationError);
+  expect(error.reason).toBe(reason);
+}
+
+describe('Webhooks', () => {
+  it('should require a secret', () => {
+    expect(() => new Webhooks({ secret: '' })).toThrow('Webhook secret is required');
+  });
+
+  it('should verify a signed delivery and narrow on event', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = JSON.stringify(payload);
+
+    const event: WebhookEvent = await webhooks.constructEvent(body, webhooks.sign(body));
+
+    expect(event.event).toBe('monitor.change_detected');
+    if (event.event === 'monitor.change_detected') {
+      expect(event.data.check.changeSummary).toBe('Price dropped');
+    }
+  });
+
+  it('should accept Buffer bodies and array headers', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = Buffer.from(JSON.stringify(payload));
+
+    const event = await webhooks.constructEvent(body, [webhooks.sign(body)]);
+    expect(event.event).toBe('monitor.change_detected');
+  });
+
+  it('should reject missing and malformed headers', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = JSON.stringify(payload);
+
+    await expectFailure(webhooks.constructEvent(body, undefined), 'missing_signature');
+    await expectFailure(webhooks.constructEvent(body, 'v1=abc'), 'malformed_signature');
+  });
+
+  it('should reject a signature made with another secret', async () => {
+    const webhooks = new Webhooks({ secret });
+    const other = new Webhooks({ secret: 'whsec_other' });
+    const body = JSON.stringify(payload);
+
+    await expectFailure(webhooks.constructEvent(body, other.sign(body)), 'signature_mismatch');
+  });
+
+  it('should reject a tampered body', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = JSON.stringify(payload);
+    const header = webhooks.sign(body);
+
+    await expectFailure(
+      webhooks.constructEvent(body.replace('Price dropped', 'Nothing'), header),
+      'signature_mismatch'
+    );
+  });
+
+  it('should reject deliveries outside the tolerance', async () => {
+    const webhooks = new Webhooks({ secret, tolerance: 60 });
+    const body = JSON.stringify(payload);
+    const stale = Math.floor(Date.now() / 1000) - 120;
+
+    await expectFailure(webhooks.constructEvent(body, webhooks.sign(body, stale)), 'timestamp_out_of_tolerance');
+  });
+
+  it('should reject replayed deliveries', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = JSON.stringify(payload);
+    const header = webhooks.sign(body);
+
+    await webhooks.constructEvent(body, header);
+    await expectFailure(webhooks.constructEvent(body, header), 'replayed');
+  });
+
+  it('should keep replay protection with a zero tolerance', async () => {
+    const ttls: number[] = [];
+    const seen = new Set<string>();
+    const webhooks = new Webhooks({
+      secret,
+      tolerance: 0,
+      replayStore: {
+        add: (key, ttlMs) => {
+          ttls.push(ttlMs);
+          const fresh = !seen.has(key);
+          seen.add(key);
+          return fresh;
+        },
+      },
+    });
+    const body = JSON.stringify(payload);
+    const header = webhooks.sign(body);
+
+    await webhooks.constructEvent(body, header);
+    await expectFailure(webhooks.constructEvent(body, header), 'replayed');
+    expect(ttls[0]).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should not use up a signature on a payload that fails to parse', async () => {
+    const webhooks = new Webhooks({ secret });
+    const body = JSON.stringify({ ...payload, event: 'foo.bar' });
+    const header = webhooks.sign(body);
+
+    await expectFailure(webhooks.constructEvent(body, header), 'invalid_payload');
+    await expectFailure(webhooks.constructEvent(body, header), 'invalid_payload');
+  });
+
+  it('should allow replays when replay protection is disabled', async () => {
+    const webhooks = new Webhooks({ secret, replayStore: false });
+    const body = JSON.stringify(payload);
+    const header = webhooks.sign(body);
+
+    await webhooks.constructEvent(body, header);
+    await expect(webhooks.constructEvent(body, header)).resolves.toBeDefined();
+  });
+});
+
+describe('MemoryReplayStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should forget keys once their TTL has passed', () => {
+    vi.useFakeTimers();
+    const store = new MemoryReplayStore();
+
+    expect(store.add('long', 60_000)).toBe(true);
+    expect(store.add('short', 1_000)).toBe(true);
+    expect(store.add('short', 1_000)).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(store.add('short', 1_000)).toBe(true);
+    expect(store.add('long', 60_000)).toBe(false);
+
+    vi.advanceTimersByTime(59_000);
+    expect(store.add('long', 60_000)).toBe(true);
+  });
+});
+
+describe('parseWebhookEvent', () => {
+  it('should reject unknown events', () => {
+    expect(() => parseWebhookEvent(JSON.stringify({ ...payload, event: 'foo.bar' })))
+      .toThrow("Unknown webhook event 'foo.bar'");
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseWebhookEvent('not json')).toThrow(WebhookVerificationError);
+  });
+});